@@ -1,16 +1,53 @@
+import { useAuth } from "@/lib/auth/auth-context";
 import { Link } from "@tanstack/react-router";
+import { Search } from "lucide-react";
+import { openCommandPalette } from "./command-palette";
 
 export default function Header() {
+  const { user, role, can } = useAuth();
+
   return (
     <header className="p-2 flex gap-2 bg-white text-black justify-between w-full">
       <nav className="flex flex-row gap-4 w-full">
         <div className="px-2 font-bold flex flex-row gap-4">
           <Link to="/">Home</Link>
           <Link to="/catalog">Catalog</Link>
-          <Link to="/categories">Categories</Link>
-          <Link to="/products">Products</Link>
+          {can("view") && (
+            <>
+              <Link to="/categories">Categories</Link>
+              <Link to="/products">Products</Link>
+            </>
+          )}
         </div>
       </nav>
+      <div className="px-2 flex flex-row gap-4 items-center whitespace-nowrap text-sm">
+        <button
+          type="button"
+          onClick={openCommandPalette}
+          className="flex items-center gap-2 rounded-md border border-gray-300 px-2 py-1 text-gray-500 hover:bg-gray-50"
+        >
+          <Search className="h-4 w-4" />
+          Search
+          <kbd className="rounded bg-gray-100 px-1.5 text-xs">Ctrl K</kbd>
+        </button>
+        {user ? (
+          <>
+            <span className="text-gray-600">
+              {user.email}{" "}
+              <span className="rounded-full bg-indigo-100 px-2 py-0.5 text-xs font-semibold text-indigo-700">
+                {role}
+              </span>
+            </span>
+            <Link to="/sign-out" className="font-bold">
+              Sign Out
+            </Link>
+          </>
+        ) : (
+          <Link to="/sign-in" search={{}} className="font-bold">
+            Sign In
+          </Link>
+        )}
+      </div>
     </header>
   );
 }
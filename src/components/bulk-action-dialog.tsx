@@ -0,0 +1,349 @@
+import {
+  type BulkAction,
+  PRICE_ROUNDING_LABELS,
+  type PriceAdjustment,
+  type PriceRounding,
+  adjustProductPrices,
+  failedItems,
+  runBulkAction,
+} from "@/lib/bulk-edit";
+import {
+  buildCategoryTree,
+  flattenCategoryTree,
+  indentedCategoryName,
+} from "@/lib/category-tree";
+import { BASE_CURRENCY } from "@/lib/currency";
+import type { BatchProgress } from "@/lib/data";
+import type { Category, Product } from "@/lib/export";
+import { formatPriceRange } from "@/lib/variants";
+import { AlertTriangle, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+export type BulkActionType = BulkAction["type"];
+
+interface BulkActionDialogProps {
+  type: BulkActionType;
+  products: Product[]; // The selection
+  categories: Category[];
+  categoryMap: Map<string, string>; // Category ID → path
+  // Called after the writes with the products that failed, so they can
+  // stay selected for a retry
+  onDone: (failed: Product[]) => void;
+  onClose: () => void;
+}
+
+interface PreviewRow {
+  product: Product;
+  before: string;
+  after?: string; // Unset for deletes
+}
+
+// Rows listed in the preview; the rest are summarized
+const PREVIEW_ROWS = 100;
+
+const TITLES: Record<BulkActionType, string> = {
+  delete: "Delete products",
+  move: "Move to category",
+  price: "Change prices",
+};
+
+/**
+ * Settings for a bulk action on the selected products, a preview of every
+ * change, and the progress of the batched writes. Products the action
+ * wouldn't change (e.g. already in the target category) are left out.
+ */
+export function BulkActionDialog({
+  type,
+  products,
+  categories,
+  categoryMap,
+  onDone,
+  onClose,
+}: BulkActionDialogProps) {
+  const targets = flattenCategoryTree(buildCategoryTree(categories));
+  const [categoryId, setCategoryId] = useState(targets[0]?.category.id ?? "");
+  const [priceMode, setPriceMode] =
+    useState<PriceAdjustment["mode"]>("percent");
+  const [amount, setAmount] = useState("");
+  const [rounding, setRounding] = useState<PriceRounding>("cents");
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [failure, setFailure] = useState<{
+    count: number;
+    message: string;
+  } | null>(null);
+
+  const amountValue = Number(amount);
+  const action: BulkAction | null =
+    type === "delete"
+      ? { type }
+      : type === "move"
+        ? categoryId
+          ? { type, categoryId }
+          : null
+        : amount.trim() !== "" && Number.isFinite(amountValue)
+          ? {
+              type,
+              adjustment: { mode: priceMode, amount: amountValue, rounding },
+            }
+          : null;
+
+  // --- PREVIEW ---
+  const categoryName = (id: string) => categoryMap.get(id) ?? "Uncategorized";
+  const changes = products.flatMap((product): PreviewRow[] => {
+    if (!action) return [];
+    switch (action.type) {
+      case "delete":
+        return [{ product, before: categoryName(product.categoryId) }];
+      case "move":
+        return product.categoryId === action.categoryId
+          ? []
+          : [
+              {
+                product,
+                before: categoryName(product.categoryId),
+                after: categoryName(action.categoryId),
+              },
+            ];
+      case "price": {
+        const before = formatPriceRange(product);
+        const after = formatPriceRange(
+          adjustProductPrices(product, action.adjustment),
+        );
+        return before === after ? [] : [{ product, before, after }];
+      }
+    }
+  });
+  const unchanged = action ? products.length - changes.length : 0;
+
+  const handleConfirm = async () => {
+    if (!action || changes.length === 0) return;
+    setFailure(null);
+    try {
+      const result = await runBulkAction(
+        changes.map((change) => change.product),
+        action,
+        setProgress,
+      );
+      const failed = failedItems(result);
+      onDone(failed);
+      if (failed.length > 0) {
+        // Stays open on the products that failed, so they can be retried
+        setFailure({
+          count: failed.length,
+          message: result.failed[0].error.message,
+        });
+        toast.error(
+          `Updated ${result.succeeded.length} products; ${failed.length} failed.`,
+        );
+        return;
+      }
+      toast.success(
+        `${
+          action.type === "delete"
+            ? "Deleted"
+            : action.type === "move"
+              ? "Moved"
+              : "Updated the prices of"
+        } ${result.succeeded.length} products`,
+      );
+      onClose();
+    } catch (error) {
+      console.error("Error running bulk action: ", error);
+      toast.error("Failed to update the products. Please try again.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const inputClass =
+    "px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-white rounded-lg w-full max-w-2xl">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {TITLES[type]}
+            </h2>
+            <p className="text-sm text-gray-500">
+              {products.length} products selected
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition duration-150"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm text-gray-700">
+          {/* Settings */}
+          {type === "delete" && (
+            <p className="flex items-center gap-2 text-red-700">
+              <AlertTriangle className="h-5 w-5 shrink-0" />
+              The products and their images will be deleted. This action
+              cannot be undone.
+            </p>
+          )}
+          {type === "move" && (
+            <label className="flex items-center gap-2">
+              Move to
+              <select
+                value={categoryId}
+                onChange={(e) => setCategoryId(e.target.value)}
+                className={`flex-1 ${inputClass}`}
+              >
+                {targets.map((node) => (
+                  <option key={node.category.id} value={node.category.id}>
+                    {indentedCategoryName(node)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {type === "price" && (
+            <div className="grid gap-3 sm:grid-cols-3">
+              <label className="flex flex-col gap-1">
+                Change by
+                <select
+                  value={priceMode}
+                  onChange={(e) =>
+                    setPriceMode(e.target.value as PriceAdjustment["mode"])
+                  }
+                  className={inputClass}
+                >
+                  <option value="percent">Percentage (%)</option>
+                  <option value="fixed">Fixed amount ({BASE_CURRENCY})</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                Amount (negative to lower)
+                <input
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  step="any"
+                  placeholder={priceMode === "percent" ? "e.g. 10" : "e.g. 2.5"}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Round
+                <select
+                  value={rounding}
+                  onChange={(e) => setRounding(e.target.value as PriceRounding)}
+                  className={inputClass}
+                >
+                  {Object.entries(PRICE_ROUNDING_LABELS).map(
+                    ([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ),
+                  )}
+                </select>
+              </label>
+              <p className="text-xs text-gray-500 sm:col-span-3">
+                Applies to the base price and to variant prices, in{" "}
+                {BASE_CURRENCY}. Prices never go below zero.
+              </p>
+            </div>
+          )}
+
+          {/* Preview */}
+          {action && (
+            <div>
+              <h3 className="mb-2 font-medium text-gray-900">
+                Preview: {changes.length} products
+                {unchanged > 0 && (
+                  <span className="font-normal text-gray-500">
+                    {" "}
+                    ({unchanged} unchanged, skipped)
+                  </span>
+                )}
+              </h3>
+              <div className="max-h-[40vh] overflow-y-auto rounded-md border">
+                <table className="w-full">
+                  <thead className="sticky top-0 bg-gray-50">
+                    <tr className="border-b text-left text-gray-500">
+                      <th className="px-3 py-2 font-medium">Product</th>
+                      <th className="px-3 py-2 font-medium">
+                        {type === "price" ? "Price" : "Category"}
+                      </th>
+                      {type !== "delete" && (
+                        <th className="px-3 py-2 font-medium">New</th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.slice(0, PREVIEW_ROWS).map((change) => (
+                      <tr
+                        key={change.product.id}
+                        className="border-b last:border-b-0"
+                      >
+                        <td className="px-3 py-2 text-gray-900">
+                          {change.product.name}
+                        </td>
+                        <td className="px-3 py-2 text-gray-500">
+                          {change.before}
+                        </td>
+                        {change.after !== undefined && (
+                          <td className="px-3 py-2 font-medium text-gray-900">
+                            {change.after}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {changes.length > PREVIEW_ROWS && (
+                  <p className="px-3 py-2 text-center text-gray-500">
+                    and {changes.length - PREVIEW_ROWS} more
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {failure && (
+            <p className="rounded-md border border-red-200 bg-red-50 px-4 py-2 text-red-800">
+              {failure.count} products could not be updated ({failure.message}
+              ). They're still selected, so you can try again.
+            </p>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end gap-3 p-6 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            {failure ? "Close" : "Cancel"}
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={!action || changes.length === 0 || !!progress}
+            className={`px-4 py-2 text-sm font-medium text-white border border-transparent rounded-md disabled:opacity-50 disabled:cursor-not-allowed ${
+              type === "delete"
+                ? "bg-red-600 hover:bg-red-700"
+                : "bg-indigo-600 hover:bg-indigo-700"
+            }`}
+          >
+            {progress
+              ? `Saving ${progress.done}/${progress.total}...`
+              : `${type === "delete" ? "Delete" : "Apply to"} ${
+                  changes.length
+                } products`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
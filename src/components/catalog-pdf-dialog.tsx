@@ -0,0 +1,196 @@
+import {
+  CATALOG_LAYOUTS,
+  type CatalogLayout,
+  type CatalogOptions,
+  buildCatalogSections,
+  downloadCatalogPdf,
+} from "@/lib/catalog-pdf";
+import { categoryPathMap } from "@/lib/category-tree";
+import { useCurrency } from "@/lib/currency-context";
+import type { Category } from "@/lib/export";
+import { productsQueryOptions } from "@/lib/queries/products";
+import { useQueryClient } from "@tanstack/react-query";
+import { FileDown, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+const CATALOG_TITLE = "Product Catalog";
+
+interface CatalogPdfDialogProps {
+  categories: Category[];
+  currentCategory: Category | null; // The category shown on the page
+  onClose: () => void;
+}
+
+/**
+ * Builds the printable catalog for the current category or for all of them.
+ */
+export function CatalogPdfDialog({
+  categories,
+  currentCategory,
+  onClose,
+}: CatalogPdfDialogProps) {
+  const queryClient = useQueryClient();
+  const { priceFormat } = useCurrency();
+  const [scope, setScope] = useState<"current" | "all">(
+    currentCategory ? "current" : "all",
+  );
+  const [options, setOptions] = useState<CatalogOptions>({
+    layout: "2x3",
+    qrCodes: true,
+  });
+  // Set while generating: how many products have their images ready
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const isGenerating = progress !== null;
+
+  const handleDownload = async () => {
+    setProgress({ done: 0, total: 0 });
+    try {
+      const products = await queryClient.fetchQuery(productsQueryOptions());
+      const category = scope === "current" ? currentCategory : null;
+      const sections = buildCatalogSections(
+        categories,
+        products,
+        category?.id,
+      );
+      if (sections.length === 0) {
+        toast.error("There are no products to include.");
+        return;
+      }
+
+      await downloadCatalogPdf(
+        {
+          sections,
+          options,
+          title: CATALOG_TITLE,
+          subtitle: category
+            ? (categoryPathMap(categories).get(category.id) ?? category.name)
+            : "All categories",
+          priceFormat,
+        },
+        category
+          ? `catalog_${category.name.toLowerCase().replace(/\W+/g, "_")}`
+          : "catalog",
+        (done, total) => setProgress({ done, total }),
+      );
+      toast.success("Catalog downloaded");
+      onClose();
+    } catch (error) {
+      console.error("Error generating catalog: ", error);
+      toast.error("Failed to generate the catalog. Please try again.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-white rounded-lg w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Download Catalog
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isGenerating}
+            className="text-gray-400 hover:text-gray-600 transition duration-150"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 text-sm text-gray-700">
+          {/* Scope */}
+          <fieldset className="space-y-2">
+            <legend className="font-medium mb-2">Categories</legend>
+            {currentCategory && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="catalog-scope"
+                  checked={scope === "current"}
+                  onChange={() => setScope("current")}
+                  className="accent-indigo-600"
+                />
+                Only {currentCategory.name}
+              </label>
+            )}
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="catalog-scope"
+                checked={scope === "all"}
+                onChange={() => setScope("all")}
+                className="accent-indigo-600"
+              />
+              All categories
+            </label>
+          </fieldset>
+
+          {/* Layout */}
+          <fieldset className="space-y-2">
+            <legend className="font-medium mb-2">Layout</legend>
+            {(Object.keys(CATALOG_LAYOUTS) as CatalogLayout[]).map(
+              (layout) => (
+                <label key={layout} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="catalog-layout"
+                    checked={options.layout === layout}
+                    onChange={() => setOptions({ ...options, layout })}
+                    className="accent-indigo-600"
+                  />
+                  {CATALOG_LAYOUTS[layout].label}
+                </label>
+              ),
+            )}
+          </fieldset>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.qrCodes}
+              onChange={(e) =>
+                setOptions({ ...options, qrCodes: e.target.checked })
+              }
+              className="accent-indigo-600"
+            />
+            QR code linking to each product
+          </label>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t">
+          {progress && (
+            <span className="flex-1 text-xs text-gray-500">
+              {progress.total > 0
+                ? `Preparing images ${progress.done} of ${progress.total}...`
+                : "Loading products..."}
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isGenerating}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleDownload}
+            disabled={isGenerating}
+            className="flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileDown className="mr-2 h-4 w-4" />
+            {isGenerating ? "Generating..." : "Download PDF"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,431 @@
+import { useAuth } from "@/lib/auth/auth-context";
+import { useCurrency } from "@/lib/currency-context";
+import {
+  type Category,
+  type Product,
+  exportData,
+  productExportDefinition,
+} from "@/lib/export";
+import { categoryPathMap } from "@/lib/category-tree";
+import { safeSetItem } from "@/lib/local-storage";
+import { useCategories } from "@/lib/queries/categories";
+import { useProducts } from "@/lib/queries/products";
+import {
+  categorySearchDefinition,
+  createSearchIndex,
+  foldText,
+  productSearchDefinition,
+} from "@/lib/search";
+import { useNavigate } from "@tanstack/react-router";
+import {
+  FileSpreadsheet,
+  LayoutGrid,
+  Package,
+  PlusCircle,
+  Search,
+  ShoppingBag,
+  Tag,
+} from "lucide-react";
+import type React from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+
+// --- OPENING ---
+
+const OPEN_EVENT = "command-palette:open";
+
+/**
+ * Opens the palette from anywhere, e.g. a header button.
+ */
+export const openCommandPalette = () =>
+  window.dispatchEvent(new Event(OPEN_EVENT));
+
+// --- RECENT ITEMS ---
+
+const RECENT_KEY = "command-palette:recent";
+const MAX_RECENT = 5;
+
+interface RecentItem {
+  kind: "product" | "category";
+  id: string;
+}
+
+const loadRecent = (): RecentItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveRecent = (item: RecentItem) => {
+  const recent = loadRecent().filter(
+    (entry) => entry.kind !== item.kind || entry.id !== item.id,
+  );
+  safeSetItem(
+    RECENT_KEY,
+    JSON.stringify([item, ...recent].slice(0, MAX_RECENT)),
+  );
+};
+
+// --- COMMANDS ---
+
+interface Command {
+  id: string;
+  group: "Recent" | "Actions" | "Products" | "Categories";
+  label: string;
+  detail?: string; // Shown after the label, e.g. the category
+  icon: React.ComponentType<{ className?: string }>;
+  run: () => void;
+  edit?: () => void; // Products only, for editors (Ctrl+Enter)
+}
+
+// Results shown per group while typing
+const MAX_PRODUCTS = 6;
+const MAX_CATEGORIES = 4;
+
+/**
+ * Ctrl+K (⌘K on macOS) palette, mounted once in the root route. Searches
+ * products and categories and runs quick actions.
+ */
+export function CommandPalette() {
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setIsOpen((open) => !open);
+      }
+    };
+    const handleOpen = () => setIsOpen(true);
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener(OPEN_EVENT, handleOpen);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener(OPEN_EVENT, handleOpen);
+    };
+  }, []);
+
+  // The data is only read (and listened to) while the palette is open
+  return isOpen ? <PaletteDialog onClose={() => setIsOpen(false)} /> : null;
+}
+
+function PaletteDialog({ onClose }: { onClose: () => void }) {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const { priceFormat } = useCurrency();
+  const { data: products = [] } = useProducts();
+  const { data: categories = [] } = useCategories();
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const categoryMap = useMemo(() => categoryPathMap(categories), [categories]);
+
+  // Same query syntax as the admin tables, e.g. "category:drinks"
+  const productIndex = useMemo(
+    () =>
+      createSearchIndex(
+        products,
+        productSearchDefinition(categoryMap, priceFormat),
+      ),
+    [products, categoryMap, priceFormat],
+  );
+  const categoryIndex = useMemo(
+    () => createSearchIndex(categories, categorySearchDefinition(new Map())),
+    [categories],
+  );
+
+  const commands = useMemo(() => {
+    const close = (action: () => void) => () => {
+      onClose();
+      action();
+    };
+
+    const productCommand = (
+      prod: Product,
+      group: Command["group"],
+    ): Command => ({
+      id: `${group}-product-${prod.id}`,
+      group,
+      label: prod.name,
+      detail: categoryMap.get(prod.categoryId),
+      icon: Package,
+      run: close(() => {
+        saveRecent({ kind: "product", id: prod.id });
+        navigate({
+          to: "/catalog/$productId",
+          params: { productId: prod.id },
+        });
+      }),
+      edit: can("edit")
+        ? close(() => {
+            saveRecent({ kind: "product", id: prod.id });
+            navigate({ to: "/products", search: { edit: prod.id } });
+          })
+        : undefined,
+    });
+
+    const categoryCommand = (
+      cat: Category,
+      group: Command["group"],
+    ): Command => ({
+      id: `${group}-category-${cat.id}`,
+      group,
+      label: cat.name,
+      detail: "Category",
+      icon: Tag,
+      run: close(() => {
+        saveRecent({ kind: "category", id: cat.id });
+        navigate({ to: "/catalog", search: { categories: [cat.id] } });
+      }),
+    });
+
+    const actions: Command[] = [
+      {
+        id: "go-catalog",
+        group: "Actions",
+        label: "Go to catalog",
+        icon: ShoppingBag,
+        run: close(() => navigate({ to: "/catalog", search: {} })),
+      },
+    ];
+    if (can("view")) {
+      actions.push(
+        {
+          id: "go-products",
+          group: "Actions",
+          label: "Go to products",
+          icon: LayoutGrid,
+          run: close(() => navigate({ to: "/products", search: {} })),
+        },
+        {
+          id: "go-categories",
+          group: "Actions",
+          label: "Go to categories",
+          icon: Tag,
+          run: close(() => navigate({ to: "/categories", search: {} })),
+        },
+        {
+          id: "export-xlsx",
+          group: "Actions",
+          label: "Export XLSX",
+          detail: "All products",
+          icon: FileSpreadsheet,
+          run: close(() => {
+            exportData(
+              productExportDefinition(categoryMap, priceFormat),
+              products,
+              { format: "xlsx", fileName: "products_export" },
+            ).catch((error) => {
+              console.error("Error exporting data: ", error);
+              toast.error("Failed to export. Please try again.");
+            });
+          }),
+        },
+      );
+    }
+    if (can("edit")) {
+      actions.unshift({
+        id: "new-product",
+        group: "Actions",
+        label: "New product",
+        icon: PlusCircle,
+        run: close(() =>
+          navigate({ to: "/products", search: { create: true } }),
+        ),
+      });
+    }
+
+    // Empty query: recent items, then every action
+    if (!query.trim()) {
+      const recent = loadRecent().flatMap((item): Command[] => {
+        if (item.kind === "product") {
+          const prod = products.find((p) => p.id === item.id);
+          return prod ? [productCommand(prod, "Recent")] : [];
+        }
+        const cat = categories.find((c) => c.id === item.id);
+        return cat ? [categoryCommand(cat, "Recent")] : [];
+      });
+      return [...recent, ...actions];
+    }
+
+    const folded = foldText(query.trim());
+    return [
+      ...actions.filter((action) => foldText(action.label).includes(folded)),
+      ...productIndex
+        .search(query)
+        .slice(0, MAX_PRODUCTS)
+        .map((result) => productCommand(result.item, "Products")),
+      ...categoryIndex
+        .search(query)
+        .slice(0, MAX_CATEGORIES)
+        .map((result) => categoryCommand(result.item, "Categories")),
+    ];
+  }, [
+    query,
+    products,
+    categories,
+    categoryMap,
+    priceFormat,
+    productIndex,
+    categoryIndex,
+    can,
+    navigate,
+    onClose,
+  ]);
+
+  // Keep the highlighted row valid and visible
+  const active = Math.min(activeIndex, Math.max(commands.length - 1, 0));
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${active}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((active + 1) % Math.max(commands.length, 1));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex(
+          (active - 1 + commands.length) % Math.max(commands.length, 1),
+        );
+        break;
+      case "Enter": {
+        e.preventDefault();
+        const command = commands[active];
+        if (!command) break;
+        if ((e.ctrlKey || e.metaKey) && command.edit) command.edit();
+        else command.run();
+        break;
+      }
+      case "Escape":
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center p-4 pt-[15vh] z-50">
+      {/* Clicking outside closes, like Escape */}
+      <button
+        type="button"
+        tabIndex={-1}
+        aria-label="Close"
+        onClick={onClose}
+        className="absolute inset-0 cursor-default"
+      />
+      <div
+        aria-label="Command palette"
+        className="relative bg-white rounded-lg w-full max-w-xl shadow-2xl overflow-hidden"
+      >
+        <div className="flex items-center border-b px-4">
+          <Search className="h-5 w-5 text-gray-400" />
+          <input
+            // biome-ignore lint/a11y/noAutofocus: the palette is opened to type in it
+            autoFocus
+            type="text"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-list"
+            aria-activedescendant={
+              commands[active] ? `command-${commands[active].id}` : undefined
+            }
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search products and categories, or type a command..."
+            className="w-full px-3 py-4 text-gray-900 placeholder-gray-500 focus:outline-none"
+          />
+        </div>
+
+        <div
+          ref={listRef}
+          id="command-palette-list"
+          // biome-ignore lint/a11y/useSemanticElements: driven by the input, which a <select> can't be
+          role="listbox"
+          tabIndex={-1}
+          className="max-h-80 overflow-y-auto py-2"
+        >
+          {commands.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">
+              No results for "{query}"
+            </p>
+          )}
+          {commands.map((command, index) => {
+            const Icon = command.icon;
+            const isActive = index === active;
+            return (
+              <div key={command.id}>
+                {command.group !== commands[index - 1]?.group && (
+                  <div className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">
+                    {command.group}
+                  </div>
+                )}
+                <div
+                  id={`command-${command.id}`}
+                  // biome-ignore lint/a11y/useSemanticElements: see the listbox
+                  role="option"
+                  aria-selected={isActive}
+                  tabIndex={-1}
+                  data-index={index}
+                  onMouseMove={() => setActiveIndex(index)}
+                  onClick={command.run}
+                  onKeyDown={handleKeyDown}
+                  className={`mx-2 flex items-center gap-3 rounded-md px-3 py-2 text-sm cursor-pointer ${
+                    isActive ? "bg-indigo-600 text-white" : "text-gray-700"
+                  }`}
+                >
+                  <Icon className="h-4 w-4 shrink-0" />
+                  <span className="truncate">{command.label}</span>
+                  {command.detail && (
+                    <span
+                      className={`truncate text-xs ${
+                        isActive ? "text-indigo-100" : "text-gray-400"
+                      }`}
+                    >
+                      {command.detail}
+                    </span>
+                  )}
+                  {command.edit && (
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        command.edit?.();
+                      }}
+                      className={`ml-auto rounded px-2 py-0.5 text-xs font-medium ${
+                        isActive
+                          ? "bg-indigo-500 text-white hover:bg-indigo-400"
+                          : "text-indigo-600 hover:bg-indigo-50"
+                      }`}
+                    >
+                      Edit
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-4 border-t bg-gray-50 px-4 py-2 text-xs text-gray-500">
+          <span>↑↓ to move</span>
+          <span>↵ to open</span>
+          {can("edit") && <span>Ctrl+↵ to edit a product</span>}
+          <span className="ml-auto">Esc to close</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { CURRENCIES, CURRENCY_CODES } from "@/lib/currency";
+import { useCurrency } from "@/lib/currency-context";
+
+/**
+ * Segmented control choosing the currency prices are shown in.
+ */
+export function CurrencySwitch() {
+  const { currency, setCurrency } = useCurrency();
+
+  return (
+    <fieldset className="inline-flex rounded-md border border-gray-300 bg-white p-0.5">
+      <legend className="sr-only">Currency</legend>
+      {CURRENCY_CODES.map((code) => (
+        <button
+          key={code}
+          type="button"
+          aria-pressed={currency === code}
+          onClick={() => setCurrency(code)}
+          title={CURRENCIES[code].label}
+          className={`rounded px-3 py-1 text-sm font-medium ${
+            currency === code
+              ? "bg-indigo-600 text-white"
+              : "text-gray-700 hover:bg-gray-100"
+          }`}
+        >
+          {code}
+        </button>
+      ))}
+    </fieldset>
+  );
+}
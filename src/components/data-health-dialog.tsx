@@ -0,0 +1,179 @@
+import { fixProducts } from "@/lib/category-integrity";
+import {
+  buildCategoryTree,
+  flattenCategoryTree,
+  indentedCategoryName,
+} from "@/lib/category-tree";
+import type { BatchProgress } from "@/lib/data";
+import type { Category, Product } from "@/lib/export";
+import { X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface DataHealthDialogProps {
+  orphans: Product[]; // Products whose category doesn't exist
+  categories: Category[];
+  canDeleteProducts: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Lists products left without a category (e.g. by deletes made before
+ * categories checked their products) and fixes them in bulk: move them to
+ * an existing category, or delete them.
+ */
+export function DataHealthDialog({
+  orphans,
+  categories,
+  canDeleteProducts,
+  onClose,
+}: DataHealthDialogProps) {
+  const targets = flattenCategoryTree(buildCategoryTree(categories));
+  const [mode, setMode] = useState<"reassign" | "cascade">("reassign");
+  const [targetCategoryId, setTargetCategoryId] = useState(
+    targets[0]?.category.id ?? "",
+  );
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+
+  const canFix =
+    orphans.length > 0 &&
+    (mode === "cascade" ? canDeleteProducts : targetCategoryId !== "");
+
+  const handleFix = async () => {
+    try {
+      const result = await fixProducts(
+        orphans,
+        mode === "reassign" ? { mode, targetCategoryId } : { mode },
+        setProgress,
+      );
+      const failed = result.failed.reduce(
+        (sum, { items }) => sum + items.length,
+        0,
+      );
+      const verb = mode === "reassign" ? "Moved" : "Deleted";
+      if (failed > 0) {
+        toast.error(
+          `${verb} ${result.succeeded.length} products; ${failed} failed. Try again.`,
+        );
+      } else {
+        toast.success(`${verb} ${result.succeeded.length} products`);
+      }
+    } catch (error) {
+      console.error("Error fixing products: ", error);
+      toast.error("Failed to fix the products. Please try again.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-white rounded-lg w-full max-w-2xl">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Data health</h2>
+            <p className="text-sm text-gray-500">
+              Products whose category no longer exists
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition duration-150"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[60vh] overflow-y-auto">
+          {orphans.length === 0 ? (
+            <p className="text-center text-sm text-gray-500">
+              Every product belongs to an existing category.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 font-medium">Product</th>
+                  <th className="py-2 font-medium">Missing category ID</th>
+                </tr>
+              </thead>
+              <tbody>
+                {orphans.map((prod) => (
+                  <tr key={prod.id} className="border-b last:border-b-0">
+                    <td className="py-2 text-gray-900">{prod.name}</td>
+                    <td className="py-2 font-mono text-xs text-gray-500">
+                      {prod.categoryId || "(none)"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Bulk fix */}
+        {orphans.length > 0 && (
+          <div className="flex flex-col gap-3 p-6 border-t sm:flex-row sm:items-end">
+            <fieldset className="flex-1 space-y-2 text-sm text-gray-700">
+              <legend className="sr-only">Fix</legend>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="fix-mode"
+                  checked={mode === "reassign"}
+                  onChange={() => setMode("reassign")}
+                  className="accent-indigo-600"
+                />
+                Move to
+                <select
+                  value={targetCategoryId}
+                  onChange={(e) => {
+                    setTargetCategoryId(e.target.value);
+                    setMode("reassign");
+                  }}
+                  aria-label="Category to move the products to"
+                  className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {targets.map((node) => (
+                    <option key={node.category.id} value={node.category.id}>
+                      {indentedCategoryName(node)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {canDeleteProducts && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="fix-mode"
+                    checked={mode === "cascade"}
+                    onChange={() => setMode("cascade")}
+                    className="accent-red-600"
+                  />
+                  Delete them
+                </label>
+              )}
+            </fieldset>
+            <button
+              type="button"
+              onClick={handleFix}
+              disabled={!canFix || !!progress}
+              className={`px-4 py-2 text-sm font-medium text-white border border-transparent rounded-md disabled:opacity-50 disabled:cursor-not-allowed ${
+                mode === "cascade"
+                  ? "bg-red-600 hover:bg-red-700"
+                  : "bg-indigo-600 hover:bg-indigo-700"
+              }`}
+            >
+              {progress
+                ? `Fixing ${progress.done}/${progress.total}...`
+                : `${mode === "cascade" ? "Delete" : "Move"} ${
+                    orphans.length
+                  } products`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
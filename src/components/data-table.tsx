@@ -0,0 +1,349 @@
+import { useTablePreferences } from "@/lib/table-preferences";
+import { ArrowDown, ArrowUp, ChevronsUpDown, Columns3 } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+
+export interface DataTableColumn<T> {
+  id: string;
+  label: string; // In the header and the column menu
+  header?: React.ReactNode; // Replaces the label in the header
+  cell: (row: T) => React.ReactNode;
+  // Makes the column sortable: numbers compare numerically, strings
+  // alphabetically (with "10" after "9")
+  sortValue?: (row: T) => string | number;
+  width: number; // Default width in px
+  grow?: boolean; // Takes up the space the other columns leave
+  align?: "left" | "right";
+  hideable?: boolean; // Defaults to true
+  resizable?: boolean; // Defaults to true
+}
+
+export interface SortState {
+  columnId: string;
+  direction: "asc" | "desc";
+}
+
+interface DataTableProps<T> {
+  tableId: string; // Key for the saved column layout, e.g. "products"
+  columns: DataTableColumn<T>[];
+  rows: T[];
+  rowKey: (row: T) => string;
+  rowHeight: number; // Every row has this height, in px
+  // Pass both to control the sort; otherwise the table keeps its own
+  sort?: SortState | null;
+  onSortChange?: (sort: SortState | null) => void;
+  // Extra attributes for a row, e.g. drag and drop handlers
+  rowProps?: (row: T) => React.HTMLAttributes<HTMLTableRowElement>;
+  toolbar?: React.ReactNode; // Shown left of the column menu
+  empty: React.ReactNode; // Shown when there are no rows
+  maxHeight?: string; // Of the scrolling area, as CSS
+}
+
+// Rows rendered above and below the visible ones, so fast scrolling
+// doesn't flash empty space
+const OVERSCAN = 8;
+const MIN_COLUMN_WIDTH = 48;
+
+const compareValues = (a: string | number, b: string | number) =>
+  typeof a === "number" && typeof b === "number"
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, {
+        numeric: true,
+        sensitivity: "base",
+      });
+
+/**
+ * A table with click-to-sort headers, columns that can be hidden and
+ * resized (saved per user) and virtualized rows: only the rows in view
+ * are rendered, so thousands of them scroll smoothly. Rows have a fixed
+ * height for that reason.
+ */
+export function DataTable<T>({
+  tableId,
+  columns,
+  rows,
+  rowKey,
+  rowHeight,
+  sort: controlledSort,
+  onSortChange,
+  rowProps,
+  toolbar,
+  empty,
+  maxHeight = "70vh",
+}: DataTableProps<T>) {
+  const [preferences, setPreferences] = useTablePreferences(tableId);
+  const [ownSort, setOwnSort] = useState<SortState | null>(null);
+  const sort = controlledSort !== undefined ? controlledSort : ownSort;
+  const setSort = onSortChange ?? setOwnSort;
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+
+  // --- LAYOUT ---
+  const visibleColumns = columns.filter(
+    (column) =>
+      column.hideable === false || !preferences.hidden.includes(column.id),
+  );
+  const widthOf = (column: DataTableColumn<T>) =>
+    preferences.widths[column.id] ?? column.width;
+  const gridTemplateColumns = visibleColumns
+    .map((column) =>
+      column.grow
+        ? `minmax(${widthOf(column)}px, 1fr)`
+        : `${widthOf(column)}px`,
+    )
+    .join(" ");
+  const minWidth = visibleColumns.reduce(
+    (total, column) => total + widthOf(column),
+    0,
+  );
+
+  const toggleColumn = (columnId: string) =>
+    setPreferences((prev) => ({
+      ...prev,
+      hidden: prev.hidden.includes(columnId)
+        ? prev.hidden.filter((id) => id !== columnId)
+        : [...prev.hidden, columnId],
+    }));
+
+  const setWidth = (columnId: string, width: number | undefined) =>
+    setPreferences((prev) => {
+      const { [columnId]: _, ...widths } = prev.widths;
+      return {
+        ...prev,
+        widths: width === undefined ? widths : { ...widths, [columnId]: width },
+      };
+    });
+
+  // Drags the right edge of a header cell
+  const startResize = (
+    e: React.PointerEvent<HTMLDivElement>,
+    column: DataTableColumn<T>,
+  ) => {
+    e.preventDefault();
+    const handle = e.currentTarget;
+    const startX = e.clientX;
+    const startWidth = widthOf(column);
+    handle.setPointerCapture(e.pointerId);
+    const onMove = (event: PointerEvent) =>
+      setWidth(
+        column.id,
+        Math.max(MIN_COLUMN_WIDTH, startWidth + event.clientX - startX),
+      );
+    const onUp = () => {
+      handle.removeEventListener("pointermove", onMove);
+      handle.removeEventListener("pointerup", onUp);
+    };
+    handle.addEventListener("pointermove", onMove);
+    handle.addEventListener("pointerup", onUp);
+  };
+
+  // --- SORTING ---
+  const sortedRows = useMemo(() => {
+    const column = columns.find((col) => col.id === sort?.columnId);
+    if (!sort || !column?.sortValue) return rows;
+    const value = column.sortValue;
+    const direction = sort.direction === "asc" ? 1 : -1;
+    return [...rows].sort(
+      (a, b) => direction * compareValues(value(a), value(b)),
+    );
+  }, [rows, columns, sort]);
+
+  // Ascending, then descending, then back to the rows' own order
+  const cycleSort = (columnId: string) =>
+    setSort(
+      sort?.columnId !== columnId
+        ? { columnId, direction: "asc" }
+        : sort.direction === "asc"
+          ? { columnId, direction: "desc" }
+          : null,
+    );
+
+  // --- VIRTUALIZATION ---
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() =>
+      setViewportHeight(element.clientHeight),
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN);
+  const lastRow = Math.min(
+    sortedRows.length,
+    Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN,
+  );
+
+  return (
+    <div className="bg-white shadow-lg rounded-xl">
+      {/* Toolbar */}
+      <div className="relative flex items-center gap-3 border-b border-gray-200 px-4 py-2 text-sm">
+        <div className="flex-1 min-w-0">{toolbar}</div>
+        <button
+          type="button"
+          onClick={() => setIsMenuOpen((open) => !open)}
+          aria-expanded={isMenuOpen}
+          className="flex items-center gap-1.5 rounded-md px-2 py-1 text-gray-600 hover:bg-gray-100"
+        >
+          <Columns3 className="h-4 w-4" />
+          Columns
+        </button>
+        {isMenuOpen && (
+          <>
+            {/* Closes the menu on any click outside it */}
+            <button
+              type="button"
+              aria-label="Close column menu"
+              onClick={() => setIsMenuOpen(false)}
+              className="fixed inset-0 z-10 cursor-default"
+            />
+            <div className="absolute right-4 top-full z-20 mt-1 w-56 rounded-md border border-gray-200 bg-white p-2 shadow-lg">
+              {columns
+                .filter((column) => column.hideable !== false)
+                .map((column) => (
+                  <label
+                    key={column.id}
+                    className="flex items-center gap-2 rounded px-2 py-1.5 hover:bg-gray-50"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={!preferences.hidden.includes(column.id)}
+                      onChange={() => toggleColumn(column.id)}
+                      className="accent-indigo-600"
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              <button
+                type="button"
+                onClick={() => setPreferences(() => ({ hidden: [], widths: {} }))}
+                className="mt-1 w-full rounded border-t px-2 py-1.5 text-left text-gray-500 hover:bg-gray-50"
+              >
+                Reset columns
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto rounded-b-xl"
+        style={{ maxHeight }}
+      >
+        <table className="block" style={{ minWidth }}>
+          {/* Header */}
+          <thead className="sticky top-0 z-[1] block">
+            <tr
+              className="grid border-b border-gray-200 bg-gray-50 text-left font-semibold text-gray-600"
+              style={{ gridTemplateColumns }}
+            >
+              {visibleColumns.map((column) => {
+                const direction =
+                  sort?.columnId === column.id ? sort.direction : undefined;
+                return (
+                  <th
+                    key={column.id}
+                    aria-sort={
+                      direction === "asc"
+                        ? "ascending"
+                        : direction === "desc"
+                          ? "descending"
+                          : undefined
+                    }
+                    className={`relative flex items-center px-4 py-3 min-w-0 ${
+                      column.align === "right" ? "justify-end" : ""
+                    }`}
+                  >
+                    {column.sortValue ? (
+                      <button
+                        type="button"
+                        onClick={() => cycleSort(column.id)}
+                        className="flex items-center gap-1 truncate hover:text-gray-900"
+                        title={`Sort by ${column.label}`}
+                      >
+                        <span className="truncate">
+                          {column.header ?? column.label}
+                        </span>
+                        {direction === "asc" ? (
+                          <ArrowUp className="h-4 w-4 shrink-0" />
+                        ) : direction === "desc" ? (
+                          <ArrowDown className="h-4 w-4 shrink-0" />
+                        ) : (
+                          <ChevronsUpDown className="h-4 w-4 shrink-0 text-gray-300" />
+                        )}
+                      </button>
+                    ) : (
+                      <span className="truncate">
+                        {column.header ?? column.label}
+                      </span>
+                    )}
+                    {column.resizable !== false && (
+                      <div
+                        aria-hidden="true"
+                        onPointerDown={(e) => startResize(e, column)}
+                        onDoubleClick={() => setWidth(column.id, undefined)}
+                        title="Drag to resize, double-click to reset"
+                        className="absolute right-0 top-0 h-full w-2 cursor-col-resize touch-none hover:bg-indigo-200"
+                      />
+                    )}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+
+          {/* Body: only the rows in view, positioned in a full-height box */}
+          {sortedRows.length === 0 ? (
+            <tbody className="block">
+              <tr className="block">
+                <td className="block p-6 text-center text-gray-500">
+                  {empty}
+                </td>
+              </tr>
+            </tbody>
+          ) : (
+            <tbody
+              className="relative block"
+              style={{ height: sortedRows.length * rowHeight }}
+            >
+              {sortedRows.slice(firstRow, lastRow).map((row, offset) => {
+                const { className, style, ...props } = rowProps?.(row) ?? {};
+                return (
+                  <tr
+                    key={rowKey(row)}
+                    {...props}
+                    className={`absolute left-0 right-0 grid items-center border-b border-gray-100 transition duration-100 ease-in-out ${
+                      className ?? "hover:bg-indigo-50"
+                    }`}
+                    style={{
+                      ...style,
+                      gridTemplateColumns,
+                      height: rowHeight,
+                      top: (firstRow + offset) * rowHeight,
+                    }}
+                  >
+                    {visibleColumns.map((column) => (
+                      <td
+                        key={column.id}
+                        className={`min-w-0 px-4 ${
+                          column.align === "right" ? "text-right" : ""
+                        }`}
+                      >
+                        {column.cell(row)}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+}
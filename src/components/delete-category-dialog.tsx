@@ -0,0 +1,217 @@
+import {
+  type CategoryDeleteStrategy,
+  deleteCategory,
+} from "@/lib/category-integrity";
+import {
+  buildCategoryTree,
+  categoryPathMap,
+  flattenCategoryTree,
+  indentedCategoryName,
+} from "@/lib/category-tree";
+import type { BatchProgress } from "@/lib/data";
+import type { Category } from "@/lib/export";
+import { AlertTriangle, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface DeleteCategoryDialogProps {
+  category: Category;
+  productCount: number; // Products currently in the category
+  categories: Category[]; // All of them, including `category`
+  canDeleteProducts: boolean;
+  onClose: () => void;
+}
+
+type Mode = CategoryDeleteStrategy["mode"];
+
+/**
+ * Delete confirmation that accounts for the category's products: with
+ * none it's a plain delete; otherwise they must be moved to another
+ * category or deleted along with it, or the category is kept.
+ */
+export function DeleteCategoryDialog({
+  category,
+  productCount,
+  categories,
+  canDeleteProducts,
+  onClose,
+}: DeleteCategoryDialogProps) {
+  const targets = flattenCategoryTree(buildCategoryTree(categories)).filter(
+    (node) => node.category.id !== category.id,
+  );
+  const subcategoryCount = categories.filter(
+    (cat) => cat.parentId === category.id,
+  ).length;
+  const parentPath = category.parentId
+    ? categoryPathMap(categories).get(category.parentId)
+    : undefined;
+  const [mode, setMode] = useState<Mode>(
+    productCount > 0 && targets.length > 0 ? "reassign" : "block",
+  );
+  const [targetCategoryId, setTargetCategoryId] = useState(
+    targets[0]?.category.id ?? "",
+  );
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+
+  const strategy: CategoryDeleteStrategy =
+    mode === "reassign" ? { mode, targetCategoryId } : { mode };
+  const canConfirm =
+    productCount === 0 ||
+    (mode === "reassign" && targetCategoryId !== "") ||
+    mode === "cascade";
+
+  const handleConfirm = async () => {
+    setProgress({ done: 0, total: productCount, failed: 0 });
+    try {
+      const result = await deleteCategory(category.id, strategy, setProgress);
+      if (result.failed.length > 0) {
+        const failed = result.failed.reduce(
+          (sum, { items }) => sum + items.length,
+          0,
+        );
+        toast.error(
+          `${failed} products could not be updated, so the category was kept. Try again.`,
+        );
+        return;
+      }
+      toast.success(
+        result.succeeded.length === 0
+          ? "Deleted category successfully"
+          : `Deleted category and ${
+              mode === "cascade" ? "deleted" : "moved"
+            } ${result.succeeded.length} products`,
+      );
+      onClose();
+    } catch (error) {
+      console.error("Error deleting category: ", error);
+      toast.error(
+        (error as Error).message || "Failed to delete category. Please try again.",
+      );
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <AlertTriangle className="h-6 w-6 text-red-500 mr-2" />
+            Confirm Deletion
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition duration-150"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <p className="text-gray-700 mb-4">
+            Are you sure you want to delete the category{" "}
+            <span className="font-semibold text-red-600">
+              "{category.name}"
+            </span>
+            ? This action cannot be undone.
+          </p>
+
+          {subcategoryCount > 0 && (
+            <p className="text-sm text-gray-600 mb-4">
+              Its {subcategoryCount} subcategories will move up to{" "}
+              {parentPath ? (
+                <span className="font-medium">"{parentPath}"</span>
+              ) : (
+                "the top level"
+              )}
+              .
+            </p>
+          )}
+
+          {productCount > 0 && (
+            <fieldset className="space-y-3 rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-gray-700">
+              <legend className="px-1 font-medium text-amber-800">
+                {productCount} products use this category
+              </legend>
+              <label className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  name="delete-mode"
+                  checked={mode === "reassign"}
+                  onChange={() => setMode("reassign")}
+                  disabled={targets.length === 0}
+                  className="mt-1 accent-indigo-600"
+                />
+                <span className="flex-1">
+                  Move them to
+                  <select
+                    value={targetCategoryId}
+                    onChange={(e) => {
+                      setTargetCategoryId(e.target.value);
+                      setMode("reassign");
+                    }}
+                    disabled={targets.length === 0}
+                    aria-label="Category to move the products to"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {targets.map((node) => (
+                      <option key={node.category.id} value={node.category.id}>
+                        {indentedCategoryName(node)}
+                      </option>
+                    ))}
+                  </select>
+                </span>
+              </label>
+              {canDeleteProducts && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="delete-mode"
+                    checked={mode === "cascade"}
+                    onChange={() => setMode("cascade")}
+                    className="accent-red-600"
+                  />
+                  Delete the products too
+                </label>
+              )}
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="delete-mode"
+                  checked={mode === "block"}
+                  onChange={() => setMode("block")}
+                  className="accent-indigo-600"
+                />
+                Keep the category
+              </label>
+            </fieldset>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 transition duration-150"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={!canConfirm || !!progress}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500 transition duration-150 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {progress
+                ? progress.total > 0
+                  ? `Updating ${progress.done}/${progress.total}...`
+                  : "Deleting..."
+                : "Delete Category"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
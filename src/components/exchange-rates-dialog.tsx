@@ -0,0 +1,134 @@
+import {
+  BASE_CURRENCY,
+  CURRENCIES,
+  CURRENCY_CODES,
+  type CurrencyCode,
+} from "@/lib/currency";
+import { useCurrency } from "@/lib/currency-context";
+import {
+  useExchangeRates,
+  useSaveExchangeRates,
+} from "@/lib/queries/exchange-rates";
+import { X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+// Every currency except the base, which is always 1
+const RATE_CURRENCIES = CURRENCY_CODES.filter(
+  (code) => code !== BASE_CURRENCY,
+);
+
+/**
+ * Editor for the exchange-rate table: how many units of each currency one
+ * unit of the base currency buys.
+ */
+export function ExchangeRatesDialog({ onClose }: { onClose: () => void }) {
+  const { rates } = useCurrency();
+  const { data: stored = [] } = useExchangeRates();
+  const saveRates = useSaveExchangeRates();
+  const [drafts, setDrafts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      RATE_CURRENCIES.map((code) => [code, String(rates[code])]),
+    ),
+  );
+
+  const parsed = RATE_CURRENCIES.map(
+    (code) => [code, Number(drafts[code])] as [CurrencyCode, number],
+  );
+  const isValid = parsed.every(
+    ([code, rate]) => drafts[code].trim() !== "" && rate > 0,
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    try {
+      await saveRates.mutateAsync(Object.fromEntries(parsed));
+      toast.success("Exchange rates saved");
+      onClose();
+    } catch (error) {
+      console.error("Error saving exchange rates: ", error);
+      toast.error("Failed to save the exchange rates. Please try again.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-white rounded-lg w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Exchange rates
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition duration-150"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-gray-500">
+              Prices are stored in {BASE_CURRENCY} and converted with these
+              rates wherever another currency is shown.
+            </p>
+            {RATE_CURRENCIES.map((code) => {
+              const saved = stored.find((rate) => rate.currency === code);
+              const updatedAt = saved?.updatedAt ?? saved?.createdAt;
+              return (
+                <div key={code}>
+                  <label
+                    htmlFor={`rate-${code}`}
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    1 {BASE_CURRENCY} in {CURRENCIES[code].label} ({code})
+                  </label>
+                  <input
+                    type="number"
+                    id={`rate-${code}`}
+                    value={drafts[code]}
+                    onChange={(e) =>
+                      setDrafts((prev) => ({
+                        ...prev,
+                        [code]: e.target.value,
+                      }))
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    step="any"
+                    min="0"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    {updatedAt
+                      ? `Updated ${updatedAt.toLocaleString()}`
+                      : "Default rate, never updated"}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end gap-3 p-6 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!isValid || saveRates.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saveRates.isPending ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import {
+  EXPORT_FORMATS,
+  type ExportDefinition,
+  type ExportFormat,
+  defaultColumnKeys,
+  exportData,
+} from "@/lib/export";
+import { FileDown, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface ExportDialogProps<T> {
+  definition: ExportDefinition<T>;
+  items: T[];
+  fileName: string; // Without extension
+  // Offers exporting expanded rows instead, e.g. one per product variant
+  expand?: { label: string; rows: (items: T[]) => T[] };
+  onClose: () => void;
+}
+
+/**
+ * Lets the user pick a format and the columns to include, then exports
+ * `items` through the shared export definition.
+ */
+export function ExportDialog<T>({
+  definition,
+  items,
+  fileName,
+  expand,
+  onClose,
+}: ExportDialogProps<T>) {
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+  const [columns, setColumns] = useState<string[]>(() =>
+    defaultColumnKeys(definition),
+  );
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const rows = isExpanded && expand ? expand.rows(items) : items;
+
+  const toggleColumn = (key: string) =>
+    setColumns((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key],
+    );
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportData(definition, rows, { format, columns, fileName });
+      onClose();
+    } catch (error) {
+      console.error("Error exporting data: ", error);
+      toast.error("Failed to export. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-white rounded-lg w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Export {definition.name}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition duration-150"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Format */}
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-2">
+              Format
+            </legend>
+            <div className="grid grid-cols-2 gap-2">
+              {EXPORT_FORMATS.map((option) => (
+                <label
+                  key={option.format}
+                  className={`flex items-center gap-2 rounded-md border px-3 py-2 text-sm cursor-pointer ${
+                    format === option.format
+                      ? "border-indigo-600 bg-indigo-50 text-indigo-700"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="export-format"
+                    value={option.format}
+                    checked={format === option.format}
+                    onChange={() => setFormat(option.format)}
+                    className="accent-indigo-600"
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+            {format === "xlsx" && definition.extraSheets && (
+              <p className="mt-2 text-xs text-gray-500">
+                Includes extra summary sheets.
+              </p>
+            )}
+          </fieldset>
+
+          {expand && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={isExpanded}
+                onChange={(e) => setIsExpanded(e.target.checked)}
+                className="accent-indigo-600"
+              />
+              {expand.label}
+            </label>
+          )}
+
+          {/* Columns */}
+          <fieldset>
+            <div className="flex items-center justify-between mb-2">
+              <legend className="text-sm font-medium text-gray-700">
+                Columns
+              </legend>
+              <div className="space-x-3 text-xs">
+                <button
+                  type="button"
+                  onClick={() =>
+                    setColumns(definition.columns.map((column) => column.key))
+                  }
+                  className="text-indigo-600 hover:text-indigo-800"
+                >
+                  All
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setColumns([])}
+                  className="text-indigo-600 hover:text-indigo-800"
+                >
+                  None
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {definition.columns.map((column) => (
+                <label
+                  key={column.key}
+                  className="flex items-center gap-2 text-sm text-gray-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    className="accent-indigo-600"
+                  />
+                  {column.header}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-between gap-3 p-6 border-t">
+          <span className="text-sm text-gray-500">
+            {isExpanded
+              ? `${rows.length} rows`
+              : `${items.length} ${definition.name.toLowerCase()}`}
+          </span>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={isExporting || columns.length === 0}
+              className="flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FileDown className="mr-2 h-4 w-4" />
+              {isExporting ? "Exporting..." : "Export"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { type HighlightRange, splitHighlights } from "@/lib/search";
+
+interface HighlightProps {
+  text: string;
+  ranges?: HighlightRange[]; // From a search result; nothing marked if unset
+}
+
+/**
+ * Renders `text` with the matched ranges of a search marked.
+ */
+export function Highlight({ text, ranges }: HighlightProps) {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+  return (
+    <>
+      {splitHighlights(text, ranges).map((part) =>
+        part.highlighted ? (
+          <mark
+            key={part.start}
+            className="bg-yellow-200 text-inherit rounded-sm"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <span key={part.start}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
@@ -0,0 +1,295 @@
+import {
+  CATALOG_IMAGE_ASPECT,
+  type CropRect,
+  type ImageFormat,
+  centeredCrop,
+  decodeImage,
+  formatBytes,
+  processImage,
+} from "@/lib/images";
+import { ArrowRight, Loader2, Trash2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+
+interface ImageEditorProps {
+  file: File;
+  maxDimension: number; // Longest side of the processed image
+  onProcessed: (image: Blob | null) => void; // null while (re)processing
+  onRemove: () => void;
+  aspect?: number;
+}
+
+const FORMAT_LABELS: Record<ImageFormat, string> = {
+  "image/webp": "WebP",
+  "image/jpeg": "JPEG",
+};
+
+// Smallest crop, as a fraction of the largest one that fits
+const MIN_ZOOM = 0.2;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * Lets the user crop an uploaded image to a fixed aspect ratio and pick the
+ * output format and quality. The processed image is re-encoded shortly
+ * after every change and reported through `onProcessed`, along with the
+ * before/after sizes.
+ */
+export function ImageEditor({
+  file,
+  maxDimension,
+  onProcessed,
+  onRemove,
+  aspect = CATALOG_IMAGE_ASPECT,
+}: ImageEditorProps) {
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [format, setFormat] = useState<ImageFormat>("image/webp");
+  const [quality, setQuality] = useState(0.85);
+  const [result, setResult] = useState<{
+    blob: Blob;
+    width: number;
+    height: number;
+  } | null>(null);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number; crop: CropRect } | null>(
+    null,
+  );
+
+  // Decode the file once; the bitmap is reused for every re-encode
+  useEffect(() => {
+    let active = true;
+    const url = URL.createObjectURL(file);
+    let decoded: ImageBitmap | null = null;
+    setPreviewUrl(url);
+    setBitmap(null);
+    setCrop(null);
+    setResult(null);
+    setError(null);
+
+    decodeImage(file)
+      .then((image) => {
+        decoded = image;
+        if (!active) return image.close();
+        setBitmap(image);
+        setCrop(centeredCrop(image.width, image.height, aspect));
+      })
+      .catch((err: Error) => active && setError(err.message));
+
+    return () => {
+      active = false;
+      URL.revokeObjectURL(url);
+      decoded?.close();
+    };
+  }, [file, aspect]);
+
+  // Re-encode after the user stops adjusting
+  useEffect(() => {
+    if (!bitmap || !crop) return;
+    let active = true;
+    onProcessed(null);
+    setResult(null);
+
+    const timer = setTimeout(() => {
+      processImage(bitmap, { crop, maxDimension, format, quality })
+        .then((blob) => {
+          if (!active) return;
+          const scale = Math.min(
+            1,
+            maxDimension / Math.max(crop.width, crop.height),
+          );
+          setResult({
+            blob,
+            width: Math.round(crop.width * scale),
+            height: Math.round(crop.height * scale),
+          });
+          onProcessed(blob);
+        })
+        .catch((err: Error) => active && setError(err.message));
+    }, 250);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [bitmap, crop, format, quality, maxDimension, onProcessed]);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-between rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+        {error}
+        <button
+          type="button"
+          onClick={onRemove}
+          className="font-medium underline"
+        >
+          Choose another
+        </button>
+      </div>
+    );
+  }
+
+  if (!bitmap || !crop || !previewUrl) {
+    return (
+      <div className="flex h-48 items-center justify-center rounded-md border border-gray-300 bg-gray-50 text-sm text-gray-500">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Reading image...
+      </div>
+    );
+  }
+
+  // Largest crop that fits, and the current crop as a fraction of it
+  const fullCrop = centeredCrop(bitmap.width, bitmap.height, aspect);
+  const zoom = crop.width / fullCrop.width;
+
+  const moveCrop = (next: CropRect) =>
+    setCrop({
+      ...next,
+      x: clamp(next.x, 0, bitmap.width - next.width),
+      y: clamp(next.y, 0, bitmap.height - next.height),
+    });
+
+  const handleZoom = (value: number) => {
+    const width = fullCrop.width * value;
+    const height = width / aspect;
+    // Keep the crop centered on the same point
+    moveCrop({
+      x: crop.x + (crop.width - width) / 2,
+      y: crop.y + (crop.height - height) / 2,
+      width,
+      height,
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { x: e.clientX, y: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    const container = containerRef.current;
+    if (!start || !container) return;
+    // Screen pixels → image pixels
+    const scale = bitmap.width / container.getBoundingClientRect().width;
+    moveCrop({
+      ...start.crop,
+      x: start.crop.x + (e.clientX - start.x) * scale,
+      y: start.crop.y + (e.clientY - start.y) * scale,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="space-y-3">
+      {/* Crop area: drag the frame to choose what stays visible */}
+      <div className="relative rounded-md border border-gray-300 bg-gray-900">
+        <div
+          ref={containerRef}
+          className="relative mx-auto overflow-hidden select-none"
+          // Fit inside 18rem of height without distorting the overlay
+          style={{
+            width: `min(100%, ${(18 * bitmap.width) / bitmap.height}rem)`,
+          }}
+        >
+          <img
+            src={previewUrl}
+            alt="Product upload"
+            draggable={false}
+            className="block w-full"
+          />
+          <div
+            className="absolute cursor-move touch-none border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+            style={{
+              left: percent(crop.x, bitmap.width),
+              top: percent(crop.y, bitmap.height),
+              width: percent(crop.width, bitmap.width),
+              height: percent(crop.height, bitmap.height),
+            }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="absolute top-2 right-2 p-1.5 bg-red-600 text-white rounded-full"
+          aria-label="Remove image"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Output settings */}
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <label className="col-span-2 flex items-center gap-3 text-gray-700">
+          <span className="w-16 shrink-0">Crop</span>
+          <input
+            type="range"
+            min={MIN_ZOOM}
+            max={1}
+            step={0.01}
+            value={zoom}
+            onChange={(e) => handleZoom(Number(e.target.value))}
+            className="w-full accent-indigo-600"
+          />
+        </label>
+        <label className="flex items-center gap-3 text-gray-700">
+          <span className="w-16 shrink-0">Format</span>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ImageFormat)}
+            className="w-full px-2 py-1 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-3 text-gray-700">
+          <span className="shrink-0">Quality {Math.round(quality * 100)}</span>
+          <input
+            type="range"
+            min={0.4}
+            max={1}
+            step={0.05}
+            value={quality}
+            onChange={(e) => setQuality(Number(e.target.value))}
+            className="w-full accent-indigo-600"
+          />
+        </label>
+      </div>
+
+      {/* Before / after sizes */}
+      <div className="flex items-center gap-2 text-xs text-gray-600">
+        <span>
+          {formatBytes(file.size)} · {bitmap.width}×{bitmap.height}
+        </span>
+        <ArrowRight className="h-3 w-3" />
+        {result ? (
+          <span className="font-semibold text-green-700">
+            {formatBytes(result.blob.size)} · {result.width}×{result.height}{" "}
+            {FORMAT_LABELS[format]}
+          </span>
+        ) : (
+          <span className="flex items-center text-gray-400">
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+            Processing...
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+import type { BatchProgress } from "@/lib/data";
+import type { Product } from "@/lib/export";
+import {
+  type ColumnMapping,
+  IMPORT_FIELDS,
+  type ImportOptions,
+  type ParsedSheet,
+  autoMapColumns,
+  commitImport,
+  parseSpreadsheet,
+  validateRows,
+} from "@/lib/import";
+import { categoryKeys } from "@/lib/queries/categories";
+import { productKeys } from "@/lib/queries/products";
+import { useQueryClient } from "@tanstack/react-query";
+import { FileUp, X } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+
+interface ImportProductsDialogProps {
+  products: Product[];
+  categoryMap: Map<string, string>;
+  onClose: () => void;
+}
+
+/**
+ * Imports products from a CSV or XLSX file: map columns, review every row,
+ * then write the valid ones in batches. Files produced by "Export" map
+ * automatically and, with "Update existing", round-trip edits by ID.
+ */
+export function ImportProductsDialog({
+  products,
+  categoryMap,
+  onClose,
+}: ImportProductsDialogProps) {
+  const queryClient = useQueryClient();
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [options, setOptions] = useState<ImportOptions>({
+    upsert: true,
+    createCategories: false,
+  });
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+
+  const existingIds = useMemo(
+    () => new Set(products.map((prod) => prod.id)),
+    [products],
+  );
+
+  const rows = useMemo(
+    () =>
+      sheet && mapping
+        ? validateRows(sheet.rows, mapping, {
+            categoryMap,
+            existingIds,
+            options,
+          })
+        : [],
+    [sheet, mapping, categoryMap, existingIds, options],
+  );
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+  const updateCount = validRows.filter((row) => row.action === "update").length;
+  const newCategories = new Set(
+    validRows
+      .filter((row) => !row.categoryId)
+      .map((row) => row.categoryName.toLowerCase()),
+  ).size;
+  const missingRequired = IMPORT_FIELDS.filter(
+    ({ field, required }) => required && !mapping?.[field],
+  );
+  const isImporting = progress !== null;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = await parseSpreadsheet(file);
+      if (parsed.rows.length === 0) {
+        toast.error("The file has no rows to import.");
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(autoMapColumns(parsed.headers));
+    } catch (error) {
+      console.error("Error reading import file: ", error);
+      toast.error("Failed to read the file. Please use CSV or XLSX.");
+    } finally {
+      e.target.value = "";
+    }
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+    try {
+      const result = await commitImport(validRows, categoryMap, setProgress);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: productKeys.all }),
+        queryClient.invalidateQueries({ queryKey: categoryKeys.all }),
+      ]);
+
+      const failedRows = result.failed.flatMap(({ items }) =>
+        items.map((row) => row.rowNumber),
+      );
+      if (failedRows.length > 0) {
+        toast.error(
+          `Imported ${result.succeeded.length} products; ${failedRows.length} failed (rows ${failedRows.join(", ")}).`,
+        );
+      } else {
+        toast.success(
+          `Imported ${result.succeeded.length} products${
+            result.createdCategories > 0
+              ? ` and created ${result.createdCategories} categories`
+              : ""
+          }`,
+        );
+      }
+      // Re-running the same rows would duplicate the ones already created
+      onClose();
+    } catch (error) {
+      console.error("Error importing products: ", error);
+      toast.error("Failed to import products. Please try again.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-white rounded-lg w-full max-w-4xl">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Import Products
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isImporting}
+            className="text-gray-400 hover:text-gray-600 transition duration-150"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          {/* File Picker */}
+          <label
+            htmlFor="import-file"
+            className="flex items-center justify-center w-full py-6 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100 transition"
+          >
+            <FileUp className="w-6 h-6 mr-3 text-gray-400" />
+            <span className="text-sm text-gray-600">
+              {fileName ? (
+                <>
+                  <span className="font-semibold">{fileName}</span> ·{" "}
+                  {rows.length} rows · click to choose another file
+                </>
+              ) : (
+                <>
+                  <span className="font-semibold">Choose a CSV or XLSX file</span>{" "}
+                  (the first row must be the header)
+                </>
+              )}
+            </span>
+            <input
+              id="import-file"
+              type="file"
+              className="hidden"
+              accept=".csv,.xlsx,.xls"
+              onChange={handleFileChange}
+              disabled={isImporting}
+            />
+          </label>
+
+          {sheet && mapping && (
+            <>
+              {/* Column Mapping */}
+              <section>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                  Columns
+                </h3>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                  {IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <label key={field} className="text-sm text-gray-700">
+                      <span className="block mb-1">
+                        {label}
+                        {required && <span className="text-red-500"> *</span>}
+                      </span>
+                      <select
+                        value={mapping[field] ?? ""}
+                        onChange={(e) =>
+                          setMapping({
+                            ...mapping,
+                            [field]: e.target.value || null,
+                          })
+                        }
+                        className="w-full px-2 py-1.5 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        <option value="">Not mapped</option>
+                        {sheet.headers.map((header) => (
+                          <option key={header} value={header}>
+                            {header}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </section>
+
+              {/* Options */}
+              <section className="flex flex-wrap gap-6 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={options.upsert}
+                    onChange={(e) =>
+                      setOptions({ ...options, upsert: e.target.checked })
+                    }
+                    className="accent-indigo-600"
+                  />
+                  Update existing products by ID
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={options.createCategories}
+                    onChange={(e) =>
+                      setOptions({
+                        ...options,
+                        createCategories: e.target.checked,
+                      })
+                    }
+                    className="accent-indigo-600"
+                  />
+                  Create missing categories
+                </label>
+              </section>
+
+              {/* Summary */}
+              <section className="flex flex-wrap gap-2 text-xs font-semibold">
+                <span className="rounded-full bg-green-100 px-3 py-1 text-green-800">
+                  {validRows.length - updateCount} new
+                </span>
+                <span className="rounded-full bg-blue-100 px-3 py-1 text-blue-800">
+                  {updateCount} updates
+                </span>
+                {newCategories > 0 && (
+                  <span className="rounded-full bg-amber-100 px-3 py-1 text-amber-800">
+                    {newCategories} new categories
+                  </span>
+                )}
+                {invalidCount > 0 && (
+                  <span className="rounded-full bg-red-100 px-3 py-1 text-red-800">
+                    {invalidCount} with errors (skipped)
+                  </span>
+                )}
+              </section>
+
+              {missingRequired.length > 0 ? (
+                <p className="text-sm text-red-600">
+                  Map a column to{" "}
+                  {missingRequired.map(({ label }) => label).join(", ")} to
+                  continue.
+                </p>
+              ) : (
+                // Validation Preview
+                <div className="border border-gray-200 rounded-md overflow-auto max-h-80">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-gray-600 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 font-semibold">Row</th>
+                        <th className="px-3 py-2 font-semibold">Action</th>
+                        <th className="px-3 py-2 font-semibold">Name</th>
+                        <th className="px-3 py-2 font-semibold">Category</th>
+                        <th className="px-3 py-2 font-semibold">Price</th>
+                        <th className="px-3 py-2 font-semibold">Errors</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {rows.map((row) => (
+                        <tr
+                          key={row.rowNumber}
+                          className={row.errors.length > 0 ? "bg-red-50" : ""}
+                        >
+                          <td className="px-3 py-1.5 text-gray-500">
+                            {row.rowNumber}
+                          </td>
+                          <td className="px-3 py-1.5 capitalize">
+                            {row.errors.length > 0 ? "skip" : row.action}
+                          </td>
+                          <td className="px-3 py-1.5">{row.name}</td>
+                          <td className="px-3 py-1.5">
+                            {row.categoryName}
+                            {!row.categoryId && row.categoryName && (
+                              <span className="ml-1 text-xs text-amber-700">
+                                (new)
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-3 py-1.5">{row.price}</td>
+                          <td className="px-3 py-1.5 text-red-700">
+                            {row.errors.join("; ")}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t">
+          {progress && (
+            <div className="flex-1">
+              <div className="h-2 w-full rounded-full bg-gray-200">
+                <div
+                  className="h-2 rounded-full bg-indigo-600 transition-all"
+                  style={{
+                    width: `${(progress.done / Math.max(progress.total, 1)) * 100}%`,
+                  }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                {progress.done} of {progress.total} written
+              </p>
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isImporting}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={
+              isImporting ||
+              validRows.length === 0 ||
+              missingRequired.length > 0
+            }
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isImporting
+              ? "Importing..."
+              : `Import ${validRows.length} products`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useCurrency } from "@/lib/currency-context";
+import { useEffect, useRef, useState } from "react";
+
+type Range = [min: number, max: number];
+
+interface PriceRangeSliderProps {
+  max: number; // Upper bound of the slider; the lower bound is 0
+  // Values are in the display currency
+  value: Range; // Current range from outside (e.g. the URL)
+  onChange: (range: Range) => void;
+  delay?: number; // Debounce in milliseconds, like the search bar
+}
+
+// Both thumbs sit on top of one track; only the thumbs take pointer events
+const thumbClasses =
+  "pointer-events-none absolute inset-x-0 top-1/2 -translate-y-1/2 w-full appearance-none bg-transparent accent-indigo-600 [&::-webkit-slider-thumb]:pointer-events-auto [&::-moz-range-thumb]:pointer-events-auto";
+
+/**
+ * Two-thumb price slider. Dragging updates the labels right away and calls
+ * `onChange` once the user pauses.
+ */
+export function PriceRangeSlider({
+  max,
+  value,
+  onChange,
+  delay = 300,
+}: PriceRangeSliderProps) {
+  const { formatAmount } = useCurrency();
+  const [valueLow, valueHigh] = value;
+  const [range, setRange] = useState<Range>(value);
+  const [low, high] = range;
+
+  // Follow outside changes, such as back/forward navigation
+  useEffect(() => {
+    setRange([valueLow, valueHigh]);
+  }, [valueLow, valueHigh]);
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (low === valueLow && high === valueHigh) return;
+    const timer = setTimeout(() => onChangeRef.current([low, high]), delay);
+    return () => clearTimeout(timer);
+  }, [low, high, valueLow, valueHigh, delay]);
+
+  return (
+    <div className="w-full max-w-xs">
+      <div className="flex justify-between text-sm text-gray-700 mb-1">
+        <span>{formatAmount(low)}</span>
+        <span>{formatAmount(high)}</span>
+      </div>
+      <div className="relative h-5">
+        <div className="absolute inset-x-0 top-1/2 h-1 -translate-y-1/2 rounded-full bg-gray-200" />
+        <input
+          type="range"
+          min={0}
+          max={max}
+          value={low}
+          onChange={(e) =>
+            setRange([Math.min(Number(e.target.value), high), high])
+          }
+          aria-label="Minimum price"
+          className={thumbClasses}
+        />
+        <input
+          type="range"
+          min={0}
+          max={max}
+          value={high}
+          onChange={(e) =>
+            setRange([low, Math.max(Number(e.target.value), low)])
+          }
+          aria-label="Maximum price"
+          className={thumbClasses}
+        />
+      </div>
+    </div>
+  );
+}
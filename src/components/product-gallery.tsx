@@ -0,0 +1,150 @@
+import { type Product, getProductImageUrls } from "@/lib/export";
+import { ChevronLeft, ChevronRight, ShoppingBag, X } from "lucide-react";
+import { useEffect, useState } from "react";
+
+interface ProductGalleryProps {
+  product: Pick<Product, "name" | "images" | "image" | "imageBase64">;
+}
+
+interface LightboxProps {
+  urls: string[];
+  index: number;
+  alt: string;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen viewer. Arrow keys switch images, Escape closes.
+ */
+function Lightbox({ urls, index, alt, onIndexChange, onClose }: LightboxProps) {
+  const count = urls.length;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      if (e.key === "ArrowLeft") onIndexChange((index - 1 + count) % count);
+      if (e.key === "ArrowRight") onIndexChange((index + 1) % count);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [index, count, onIndexChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/90 p-4">
+      {/* Clicking anywhere around the image closes the viewer */}
+      <button
+        type="button"
+        onClick={onClose}
+        className="absolute inset-0 cursor-default"
+        aria-label="Close"
+        tabIndex={-1}
+      />
+      <img
+        src={urls[index]}
+        alt={`${alt} (${index + 1} of ${count})`}
+        className="relative max-h-full max-w-full object-contain"
+      />
+      <button
+        type="button"
+        onClick={onClose}
+        className="absolute top-4 right-4 p-2 text-white/80 hover:text-white"
+        aria-label="Close"
+      >
+        <X className="h-7 w-7" />
+      </button>
+      {count > 1 && (
+        <>
+          <button
+            type="button"
+            onClick={() => onIndexChange((index - 1 + count) % count)}
+            className="absolute left-4 p-2 text-white/80 hover:text-white"
+            aria-label="Previous image"
+          >
+            <ChevronLeft className="h-10 w-10" />
+          </button>
+          <button
+            type="button"
+            onClick={() => onIndexChange((index + 1) % count)}
+            className="absolute right-4 p-2 text-white/80 hover:text-white"
+            aria-label="Next image"
+          >
+            <ChevronRight className="h-10 w-10" />
+          </button>
+          <span className="absolute bottom-4 text-sm text-white/80">
+            {index + 1} / {count}
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A product's images: the selected one large, thumbnails below, and a
+ * lightbox with the full-size originals when the large image is clicked.
+ */
+export function ProductGallery({ product }: ProductGalleryProps) {
+  const mediumUrls = getProductImageUrls(product, "medium");
+  const thumbnailUrls = getProductImageUrls(product, "thumbnail");
+  const originalUrls = getProductImageUrls(product, "original");
+
+  const [selected, setSelected] = useState(0);
+  const [lightboxOpen, setLightboxOpen] = useState(false);
+  const index = Math.min(selected, Math.max(mediumUrls.length - 1, 0));
+
+  if (mediumUrls.length === 0) {
+    return (
+      <div className="flex w-full aspect-video items-center justify-center rounded-lg bg-gray-100 text-gray-400">
+        <ShoppingBag className="h-16 w-16" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={() => setLightboxOpen(true)}
+        className="block w-full aspect-video overflow-hidden rounded-lg bg-gray-100 cursor-zoom-in"
+        aria-label="View full size"
+      >
+        <img
+          src={mediumUrls[index]}
+          alt={product.name}
+          className="h-full w-full object-cover"
+        />
+      </button>
+
+      {thumbnailUrls.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {thumbnailUrls.map((url, i) => (
+            <button
+              key={url}
+              type="button"
+              onClick={() => setSelected(i)}
+              className={`w-20 shrink-0 aspect-video overflow-hidden rounded-md border-2 transition ${
+                i === index
+                  ? "border-indigo-600"
+                  : "border-transparent opacity-70 hover:opacity-100"
+              }`}
+              aria-label={`Show image ${i + 1}`}
+            >
+              <img src={url} alt="" className="h-full w-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {lightboxOpen && (
+        <Lightbox
+          urls={originalUrls}
+          index={index}
+          alt={product.name}
+          onIndexChange={setSelected}
+          onClose={() => setLightboxOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
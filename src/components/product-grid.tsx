@@ -0,0 +1,393 @@
+import { type ProductChange, saveProductChanges } from "@/lib/bulk-edit";
+import type { BatchProgress } from "@/lib/data";
+import type { Product } from "@/lib/export";
+import { buildCategoryLookup } from "@/lib/import";
+import {
+  GRID_COLUMNS,
+  type GridColumn,
+  type GridContext,
+  type GridDrafts,
+  cellState,
+  changedFields,
+  parseClipboard,
+} from "@/lib/product-grid";
+import { useBlocker } from "@tanstack/react-router";
+import { AlertTriangle, Save, X } from "lucide-react";
+import { useId, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+
+interface ProductGridProps {
+  rows: Product[]; // The products shown, in order
+  products: Product[]; // All of them, so edits hidden by a search still save
+  categoryMap: Map<string, string>; // Category ID → path
+  onExit: () => void;
+}
+
+/**
+ * Sets (or clears, when it matches the stored value again) one cell's
+ * draft.
+ */
+function withDraft(
+  drafts: GridDrafts,
+  product: Product,
+  column: GridColumn,
+  text: string,
+  context: GridContext,
+): GridDrafts {
+  const cells = { ...drafts[product.id] };
+  if (text === column.format(product, context)) delete cells[column.field];
+  else cells[column.field] = text;
+
+  const next = { ...drafts };
+  if (Object.keys(cells).length > 0) next[product.id] = cells;
+  else delete next[product.id];
+  return next;
+}
+
+/**
+ * Spreadsheet-style editing of names, categories, prices and descriptions.
+ * Enter and the arrow keys move between cells like in a spreadsheet, Tab
+ * moves right, Escape reverts a cell, and ranges copied from Excel paste
+ * across cells. Nothing is written until "Save changes", which writes only
+ * the fields that changed.
+ */
+export function ProductGrid({
+  rows,
+  products,
+  categoryMap,
+  onExit,
+}: ProductGridProps) {
+  const [drafts, setDrafts] = useState<GridDrafts>({});
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [isExitConfirmOpen, setIsExitConfirmOpen] = useState(false);
+  const cells = useRef(new Map<string, HTMLInputElement>());
+  const categoryListId = useId();
+
+  const context = useMemo<GridContext>(
+    () => ({ categoryMap, categoryLookup: buildCategoryLookup(categoryMap) }),
+    [categoryMap],
+  );
+
+  // Every edit, including those on rows the search currently hides
+  const summary = useMemo(() => {
+    let changedCells = 0;
+    let errors = 0;
+    const changes: ProductChange[] = [];
+    for (const product of products) {
+      if (!drafts[product.id]) continue;
+      for (const column of GRID_COLUMNS) {
+        const state = cellState(product, column, drafts, context);
+        if (state.error) errors++;
+        else if (state.dirty) changedCells++;
+      }
+      const data = changedFields(product, drafts, context);
+      if (data) changes.push({ product, data });
+    }
+    return { changedCells, errors, changes };
+  }, [products, drafts, context]);
+  const isDirty = summary.changedCells + summary.errors > 0;
+
+  // Leaving the page (the search stays on it) asks first
+  const blocker = useBlocker({
+    shouldBlockFn: ({ current, next }) => current.pathname !== next.pathname,
+    enableBeforeUnload: isDirty,
+    disabled: !isDirty,
+    withResolver: true,
+  });
+
+  const setCell = (product: Product, column: GridColumn, text: string) =>
+    setDrafts((prev) => withDraft(prev, product, column, text, context));
+
+  // --- KEYBOARD ---
+  const cellKey = (row: number, col: number) => `${row}:${col}`;
+
+  const focusCell = (row: number, col: number) => {
+    const input = cells.current.get(
+      cellKey(
+        Math.max(0, Math.min(row, rows.length - 1)),
+        Math.max(0, Math.min(col, GRID_COLUMNS.length - 1)),
+      ),
+    );
+    input?.focus();
+  };
+
+  const handleKeyDown = (
+    e: React.KeyboardEvent<HTMLInputElement>,
+    row: number,
+    col: number,
+  ) => {
+    const { selectionStart, selectionEnd, value } = e.currentTarget;
+    // A fully selected cell is being navigated, not edited
+    const isSelected = selectionStart === 0 && selectionEnd === value.length;
+    const move = (toRow: number, toCol: number) => {
+      e.preventDefault();
+      focusCell(toRow, toCol);
+    };
+    switch (e.key) {
+      case "Enter":
+        return move(e.shiftKey ? row - 1 : row + 1, col);
+      case "ArrowDown":
+        return move(row + 1, col);
+      case "ArrowUp":
+        return move(row - 1, col);
+      case "ArrowLeft":
+        if (isSelected || selectionEnd === 0) move(row, col - 1);
+        return;
+      case "ArrowRight":
+        if (isSelected || selectionStart === value.length) move(row, col + 1);
+        return;
+      case "Escape": {
+        const product = rows[row];
+        const column = GRID_COLUMNS[col];
+        setCell(product, column, column.format(product, context));
+        return;
+      }
+    }
+  };
+
+  // --- PASTE ---
+  // A range copied from a spreadsheet fills the cells down and to the
+  // right of the focused one; a single value pastes as usual
+  const handlePaste = (
+    e: React.ClipboardEvent<HTMLInputElement>,
+    row: number,
+    col: number,
+  ) => {
+    const text = e.clipboardData.getData("text/plain");
+    if (!/[\t\n\r]/.test(text.replace(/\r?\n$/, ""))) return;
+    e.preventDefault();
+
+    let pasted = 0;
+    let skipped = 0;
+    let next = drafts;
+    parseClipboard(text).forEach((values, i) => {
+      values.forEach((value, j) => {
+        const product = rows[row + i];
+        const column = GRID_COLUMNS[col + j];
+        if (!product || !column) {
+          skipped++;
+          return;
+        }
+        next = withDraft(next, product, column, value, context);
+        pasted++;
+      });
+    });
+    setDrafts(next);
+    if (skipped > 0) {
+      toast.error(`Pasted ${pasted} cells; ${skipped} didn't fit the grid.`);
+    }
+  };
+
+  // --- SAVE ---
+  const handleSave = async () => {
+    if (summary.errors > 0 || summary.changes.length === 0) return;
+    try {
+      const result = await saveProductChanges(summary.changes, setProgress);
+      // Keep the drafts of products that failed, so they can be retried
+      const failed = new Set(
+        result.failed.flatMap(({ items }) =>
+          items.map((change) => change.product.id),
+        ),
+      );
+      setDrafts((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).filter(([id]) => failed.has(id)),
+        ),
+      );
+      if (failed.size > 0) {
+        toast.error(
+          `Saved ${result.succeeded.length} products; ${failed.size} failed. Try again.`,
+        );
+      } else {
+        toast.success(`Saved ${result.succeeded.length} products`);
+      }
+    } catch (error) {
+      console.error("Error saving products: ", error);
+      toast.error("Failed to save the changes. Please try again.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleExit = () => {
+    if (isDirty) setIsExitConfirmOpen(true);
+    else onExit();
+  };
+
+  // The unsaved-changes prompt, for leaving the page or the grid
+  const confirmLeave =
+    blocker.status === "blocked"
+      ? { stay: blocker.reset, leave: blocker.proceed }
+      : isExitConfirmOpen
+        ? { stay: () => setIsExitConfirmOpen(false), leave: onExit }
+        : null;
+
+  return (
+    <div className="bg-white shadow-lg rounded-xl overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3 border-b border-gray-200 bg-gray-50 p-4 text-sm">
+        <span className="text-gray-600">
+          {summary.changedCells > 0 || summary.errors > 0
+            ? `${summary.changedCells} changed cells in ${summary.changes.length} products`
+            : "Click a cell to edit it, or paste a range from a spreadsheet."}
+        </span>
+        {summary.errors > 0 && (
+          <span className="flex items-center gap-1 font-medium text-red-700">
+            <AlertTriangle className="h-4 w-4" />
+            {summary.errors} cells need fixing
+          </span>
+        )}
+        <div className="ml-auto flex gap-2">
+          <button
+            type="button"
+            onClick={() => setDrafts({})}
+            disabled={!isDirty || !!progress}
+            className="px-3 py-1.5 font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Discard
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={
+              summary.errors > 0 || summary.changes.length === 0 || !!progress
+            }
+            className="flex items-center px-3 py-1.5 font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="mr-1.5 h-4 w-4" />
+            {progress
+              ? `Saving ${progress.done}/${progress.total}...`
+              : "Save changes"}
+          </button>
+          <button
+            type="button"
+            onClick={handleExit}
+            className="flex items-center px-3 py-1.5 font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <X className="mr-1.5 h-4 w-4" />
+            Done
+          </button>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No products found.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full table-fixed text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                {GRID_COLUMNS.map((column) => (
+                  <th
+                    key={column.field}
+                    className={`border-b border-r border-gray-200 px-2 py-2 font-semibold last:border-r-0 ${
+                      column.field === "price" ? "w-32" : ""
+                    }`}
+                  >
+                    {column.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((product, row) => (
+                <tr key={product.id} className="border-b border-gray-100">
+                  {GRID_COLUMNS.map((column, col) => {
+                    const state = cellState(product, column, drafts, context);
+                    return (
+                      <td
+                        key={column.field}
+                        className="border-r border-gray-100 p-0 last:border-r-0"
+                      >
+                        <input
+                          type="text"
+                          ref={(el) => {
+                            const key = cellKey(row, col);
+                            if (el) cells.current.set(key, el);
+                            else cells.current.delete(key);
+                          }}
+                          value={state.text}
+                          onChange={(e) =>
+                            setCell(product, column, e.target.value)
+                          }
+                          onKeyDown={(e) => handleKeyDown(e, row, col)}
+                          onPaste={(e) => handlePaste(e, row, col)}
+                          onFocus={(e) => e.target.select()}
+                          list={
+                            column.field === "categoryId"
+                              ? categoryListId
+                              : undefined
+                          }
+                          aria-label={`${column.label} of ${product.name}`}
+                          aria-invalid={!!state.error}
+                          title={state.error}
+                          className={`w-full px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500 ${
+                            state.error
+                              ? "bg-red-50 text-red-900 ring-1 ring-inset ring-red-400"
+                              : state.dirty
+                                ? "bg-amber-50"
+                                : "bg-transparent"
+                          } ${column.field === "price" ? "text-right" : ""}`}
+                        />
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Category suggestions */}
+      <datalist id={categoryListId}>
+        {[...categoryMap.values()].sort().map((path) => (
+          <option key={path} value={path} />
+        ))}
+      </datalist>
+
+      {/* Unsaved Changes Modal */}
+      {confirmLeave && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg w-full max-w-md">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+                <AlertTriangle className="h-6 w-6 text-amber-500 mr-2" />
+                Unsaved changes
+              </h2>
+              <button
+                type="button"
+                onClick={confirmLeave.stay}
+                className="text-gray-400 hover:text-gray-600 transition duration-150"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+            <div className="p-6">
+              <p className="text-gray-700">
+                {summary.changedCells + summary.errors} edited cells haven't
+                been saved. Leave without saving them?
+              </p>
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={confirmLeave.stay}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Keep editing
+                </button>
+                <button
+                  type="button"
+                  onClick={confirmLeave.leave}
+                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700"
+                >
+                  Discard changes
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { ImageEditor } from "@/components/image-editor";
+import { type ImageItem, ORIGINAL_MAX_DIMENSION } from "@/lib/product-images";
+import { Crop, ImagePlus, Star, Trash2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+// Uploads are cropped and resized before storing, so large phone photos are
+// fine; this only guards against files the browser would struggle to decode
+const MAX_IMAGE_BYTES = 40 * 1024 * 1024;
+
+interface ProductImagesFieldProps {
+  items: ImageItem[];
+  onChange: React.Dispatch<React.SetStateAction<ImageItem[]>>;
+}
+
+const moveItem = <T,>(list: T[], from: number, to: number): T[] => {
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+let pendingKeySeed = 0;
+
+/**
+ * Shows a pending upload without keeping its object URL around.
+ */
+function PendingThumbnail({ file }: { file: File }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url ? (
+    <img
+      src={url}
+      alt="New upload"
+      draggable={false}
+      className="h-full w-full object-cover"
+    />
+  ) : null;
+}
+
+/**
+ * Edits a product's ordered image list: add several images at once, crop new
+ * ones, drag to reorder, and pick the primary (first) image. Nothing is
+ * uploaded until the form is saved (see `uploadImageItems`).
+ */
+export function ProductImagesField({ items, onChange }: ProductImagesFieldProps) {
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const editing = items.find(
+    (item): item is Extract<ImageItem, { kind: "pending" }> =>
+      item.key === editingKey && item.kind === "pending",
+  );
+
+  // Stable per edited item, so the editor doesn't re-process on every render
+  const handleProcessed = useCallback(
+    (processed: Blob | null) =>
+      onChange((prev) =>
+        prev.map((item) =>
+          item.key === editingKey && item.kind === "pending"
+            ? { ...item, processed }
+            : item,
+        ),
+      ),
+    [editingKey, onChange],
+  );
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+
+    const accepted = files.filter((file) => file.size <= MAX_IMAGE_BYTES);
+    if (accepted.length < files.length) {
+      toast.error("Some images are too large. Please use images under 40MB.");
+    }
+    if (accepted.length === 0) return;
+
+    const added: ImageItem[] = accepted.map((file) => ({
+      key: `pending-${++pendingKeySeed}`,
+      kind: "pending",
+      file,
+      processed: null,
+    }));
+    onChange((prev) => [...prev, ...added]);
+    setEditingKey(added[0].key);
+  };
+
+  const removeItem = (key: string) => {
+    onChange((prev) => prev.filter((item) => item.key !== key));
+    if (key === editingKey) setEditingKey(null);
+  };
+
+  const makePrimary = (index: number) =>
+    onChange((prev) => moveItem(prev, index, 0));
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onChange((prev) => moveItem(prev, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {editing && (
+        <div className="space-y-2">
+          <ImageEditor
+            file={editing.file}
+            maxDimension={ORIGINAL_MAX_DIMENSION}
+            onProcessed={handleProcessed}
+            onRemove={() => removeItem(editing.key)}
+          />
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => setEditingKey(null)}
+              className="px-3 py-1 text-sm font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Ordered thumbnails: drag to reorder, the first one is the primary */}
+      <div className="grid grid-cols-4 gap-2">
+        {items.map((item, index) => (
+          <div
+            key={item.key}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => setDragIndex(null)}
+            className={`relative aspect-video overflow-hidden rounded-md border bg-gray-100 cursor-grab group ${
+              item.key === editingKey
+                ? "border-indigo-500 ring-2 ring-indigo-500"
+                : "border-gray-300"
+            } ${dragIndex === index ? "opacity-40" : ""}`}
+          >
+            {item.kind === "pending" ? (
+              <PendingThumbnail file={item.file} />
+            ) : (
+              <img
+                src={
+                  item.kind === "stored"
+                    ? item.image.urls.thumbnail
+                    : item.dataUrl
+                }
+                alt={`Product view ${index + 1}`}
+                draggable={false}
+                className="h-full w-full object-cover"
+              />
+            )}
+
+            {index === 0 && (
+              <span className="absolute bottom-1 left-1 rounded bg-indigo-600 px-1.5 py-0.5 text-[10px] font-semibold text-white">
+                Primary
+              </span>
+            )}
+
+            <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {item.kind === "pending" && item.key !== editingKey && (
+                <button
+                  type="button"
+                  onClick={() => setEditingKey(item.key)}
+                  className="p-1 bg-white text-gray-700 rounded-full shadow"
+                  aria-label="Crop image"
+                  title="Crop"
+                >
+                  <Crop className="h-3 w-3" />
+                </button>
+              )}
+              {index > 0 && (
+                <button
+                  type="button"
+                  onClick={() => makePrimary(index)}
+                  className="p-1 bg-white text-amber-500 rounded-full shadow"
+                  aria-label="Make primary image"
+                  title="Make primary"
+                >
+                  <Star className="h-3 w-3" />
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => removeItem(item.key)}
+                className="p-1 bg-red-600 text-white rounded-full shadow"
+                aria-label="Remove image"
+                title="Remove"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {/* Upload Button */}
+        <label
+          htmlFor="image-upload"
+          className="flex aspect-video flex-col items-center justify-center rounded-md border-2 border-gray-300 border-dashed cursor-pointer bg-gray-50 hover:bg-gray-100 transition"
+          title="PNG, JPG, WEBP (Max 40MB each)"
+        >
+          <ImagePlus className="h-5 w-5 text-gray-400" />
+          <span className="mt-1 text-[10px] font-semibold text-gray-500">
+            Add images
+          </span>
+          <input
+            id="image-upload"
+            type="file"
+            multiple
+            className="hidden"
+            accept="image/png, image/jpeg, image/webp"
+            onChange={handleFilesChange}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
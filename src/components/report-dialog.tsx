@@ -0,0 +1,149 @@
+import { useCurrency } from "@/lib/currency-context";
+import type { Product } from "@/lib/export";
+import {
+  DEFAULT_REPORT_OPTIONS,
+  ProductPDF,
+  type ReportOptions,
+  type ReportOrientation,
+} from "@/lib/product-report";
+import { PDFDownloadLink } from "@react-pdf/renderer";
+import { FileDown, X } from "lucide-react";
+import { useState } from "react";
+
+interface ReportDialogProps {
+  products: Product[]; // The currently filtered products
+  categoryMap: Map<string, string>;
+  filter: string; // The active search query
+  onClose: () => void;
+}
+
+const ORIENTATIONS: { value: ReportOrientation; label: string }[] = [
+  { value: "portrait", label: "Portrait" },
+  { value: "landscape", label: "Landscape" },
+];
+
+/**
+ * Report builder: choose grouping, cover page and orientation, then download
+ * the PDF of the products currently shown.
+ */
+export function ReportDialog({
+  products,
+  categoryMap,
+  filter,
+  onClose,
+}: ReportDialogProps) {
+  const { priceFormat } = useCurrency();
+  const [options, setOptions] = useState<ReportOptions>(
+    DEFAULT_REPORT_OPTIONS,
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-white rounded-lg w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900">PDF Report</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition duration-150"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 text-sm text-gray-700">
+          <p className="text-gray-500">
+            {products.length} products
+            {filter.trim() ? ` matching "${filter.trim()}"` : ""}
+          </p>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.groupByCategory}
+              onChange={(e) =>
+                setOptions({ ...options, groupByCategory: e.target.checked })
+              }
+              className="accent-indigo-600"
+            />
+            Group by category, with subtotals
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.coverPage}
+              onChange={(e) =>
+                setOptions({ ...options, coverPage: e.target.checked })
+              }
+              className="accent-indigo-600"
+            />
+            Cover page with filter and totals
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.perVariant}
+              onChange={(e) =>
+                setOptions({ ...options, perVariant: e.target.checked })
+              }
+              className="accent-indigo-600"
+            />
+            One row per variant
+          </label>
+
+          <fieldset className="flex items-center gap-4">
+            <legend className="sr-only">Orientation</legend>
+            {ORIENTATIONS.map(({ value, label }) => (
+              <label key={value} className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="report-orientation"
+                  checked={options.orientation === value}
+                  onChange={() => setOptions({ ...options, orientation: value })}
+                  className="accent-indigo-600"
+                />
+                {label}
+              </label>
+            ))}
+          </fieldset>
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end gap-3 p-6 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <PDFDownloadLink
+            document={
+              <ProductPDF
+                products={products}
+                categoryMap={categoryMap}
+                filter={filter}
+                options={options}
+                priceFormat={priceFormat}
+              />
+            }
+            fileName="products_report.pdf"
+          >
+            {({ loading }) => (
+              <button
+                type="button"
+                disabled={loading}
+                className="flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FileDown className="mr-2 h-4 w-4" />
+                {loading ? "Building PDF..." : "Download PDF"}
+              </button>
+            )}
+          </PDFDownloadLink>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,27 +1,41 @@
 import { Search, X } from "lucide-react";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
+  value?: string; // Current query from outside (e.g. the URL); the input follows it
   placeholder?: string;
+  hint?: string; // Shown under the input, e.g. the supported `field:` syntax
   delay?: number; // Delay in milliseconds for debouncing
 }
 
 export function SearchBar({
   onSearch,
+  value = "",
   placeholder = "Search...",
+  hint,
   delay = 300,
 }: SearchBarProps) {
-  const [query, setQuery] = useState("");
+  const [query, setQuery] = useState(value);
+
+  // Follow outside changes, such as back/forward navigation
+  useEffect(() => {
+    setQuery(value);
+  }, [value]);
+
+  // Callers often pass an inline function; only a new query should search
+  const onSearchRef = useRef(onSearch);
+  onSearchRef.current = onSearch;
 
   // Debounce the search to avoid too many re-renders
   useEffect(() => {
+    if (query === value) return;
     const timer = setTimeout(() => {
-      onSearch(query);
+      onSearchRef.current(query);
     }, delay);
 
     return () => clearTimeout(timer);
-  }, [query, delay, onSearch]);
+  }, [query, value, delay]);
 
   const clearSearch = () => {
     setQuery("");
@@ -48,6 +62,7 @@ export function SearchBar({
           </button>
         )}
       </div>
+      {hint && <p className="mt-1 text-xs text-gray-500">{hint}</p>}
     </div>
   );
 }
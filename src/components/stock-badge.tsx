@@ -0,0 +1,63 @@
+import type { Product } from "@/lib/export";
+import { stockStatus } from "@/lib/inventory";
+
+/**
+ * Stock count for the admin tables, flagged when low or out.
+ */
+export function StockBadge({
+  product,
+}: {
+  product: Pick<Product, "stock" | "lowStockThreshold">;
+}) {
+  switch (stockStatus(product)) {
+    case "untracked":
+      return <span className="text-gray-400">—</span>;
+    case "out":
+      return (
+        <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-semibold text-red-700">
+          Out of stock
+        </span>
+      );
+    case "low":
+      return (
+        <span
+          className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-800"
+          title="At or below the low-stock threshold"
+        >
+          Low: {product.stock}
+        </span>
+      );
+    default:
+      return <span>{product.stock}</span>;
+  }
+}
+
+/**
+ * Availability as customers see it: no exact counts unless few are left.
+ */
+export function StockAvailability({
+  product,
+}: {
+  product: Pick<Product, "stock" | "lowStockThreshold">;
+}) {
+  switch (stockStatus(product)) {
+    case "out":
+      return (
+        <span className="text-sm font-semibold text-red-600">
+          Out of stock
+        </span>
+      );
+    case "low":
+      return (
+        <span className="text-sm font-semibold text-amber-700">
+          Only {product.stock} left
+        </span>
+      );
+    case "in-stock":
+      return (
+        <span className="text-sm font-semibold text-green-700">In stock</span>
+      );
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,287 @@
+import { StockBadge } from "@/components/stock-badge";
+import { useAuth } from "@/lib/auth/auth-context";
+import type { Product } from "@/lib/export";
+import {
+  DEFAULT_LOW_STOCK_THRESHOLD,
+  STOCK_MOVEMENT_LABELS,
+  type StockMovementType,
+} from "@/lib/inventory";
+import {
+  useRecordStockMovement,
+  useStockMovements,
+} from "@/lib/queries/stock-movements";
+import { hasVariants, variantLabel } from "@/lib/variants";
+import { X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface StockHistoryPanelProps {
+  product: Product; // From the live list, so the stock shown stays current
+  onClose: () => void;
+}
+
+const REASON_PLACEHOLDERS: Record<StockMovementType, string> = {
+  received: "e.g. Delivery from supplier",
+  sold: "e.g. Order #1042",
+  adjusted: "e.g. Stocktake, damaged units",
+};
+
+/**
+ * A product's stock movements, newest first, and (for editors) a form to
+ * record a new one.
+ */
+export function StockHistoryPanel({ product, onClose }: StockHistoryPanelProps) {
+  const { user, can } = useAuth();
+  const { data: movements = [], isLoading } = useStockMovements(product.id);
+  const recordMovement = useRecordStockMovement();
+
+  const [type, setType] = useState<StockMovementType>("received");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState("");
+  const [variantId, setVariantId] = useState("");
+
+  // Products with variants keep their stock per variant
+  const variants = hasVariants(product) ? product.variants : [];
+
+  const parsedQuantity = Number(quantity);
+  const isValid =
+    quantity.trim() !== "" &&
+    Number.isInteger(parsedQuantity) &&
+    (type === "adjusted" ? parsedQuantity !== 0 : parsedQuantity > 0) &&
+    // Adjustments change the count without a delivery or sale behind them
+    (type !== "adjusted" || reason.trim() !== "") &&
+    (variants.length === 0 || variants.some((v) => v.id === variantId));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid || !user) return;
+
+    try {
+      const stock = await recordMovement.mutateAsync({
+        productId: product.id,
+        input: {
+          type,
+          quantity: parsedQuantity,
+          reason,
+          variantId: variantId || undefined,
+        },
+        user: { id: user.uid, email: user.email ?? undefined },
+      });
+      setQuantity("");
+      setReason("");
+      toast.success(`Stock updated: ${stock} in stock`);
+    } catch (error) {
+      console.error("Error recording stock movement: ", error);
+      toast.error((error as Error).message || "Failed to update stock.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-white rounded-lg w-full max-w-2xl">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              Stock history
+            </h2>
+            <p className="text-sm text-gray-500">{product.name}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition duration-150"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+          {/* Summary */}
+          <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">In stock</dt>
+              <dd className="mt-1 font-semibold text-gray-900">
+                <StockBadge product={product} />
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Low at</dt>
+              <dd className="mt-1 text-gray-900">
+                {product.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">SKU</dt>
+              <dd className="mt-1 text-gray-900 truncate">
+                {product.sku || "—"}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Barcode</dt>
+              <dd className="mt-1 text-gray-900 truncate">
+                {product.barcode || "—"}
+              </dd>
+            </div>
+          </dl>
+
+          {/* Stock per variant */}
+          {variants.length > 0 && (
+            <ul className="flex flex-wrap gap-2 text-sm">
+              {variants.map((variant) => (
+                <li
+                  key={variant.id}
+                  className="flex items-center gap-2 rounded-md border border-gray-200 px-2 py-1"
+                >
+                  <span className="text-gray-600">
+                    {variantLabel(variant, product.options)}
+                  </span>
+                  <StockBadge
+                    product={{
+                      stock: variant.stock,
+                      lowStockThreshold: product.lowStockThreshold,
+                    }}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* New movement */}
+          {can("edit") && (
+            <form
+              onSubmit={handleSubmit}
+              className={`grid gap-3 sm:items-end rounded-md border border-gray-200 bg-gray-50 p-4 ${
+                variants.length > 0
+                  ? "sm:grid-cols-[auto_auto_6rem_1fr_auto]"
+                  : "sm:grid-cols-[auto_6rem_1fr_auto]"
+              }`}
+            >
+              {variants.length > 0 && (
+                <label className="text-sm text-gray-700">
+                  <span className="block mb-1 font-medium">Variant</span>
+                  <select
+                    value={variantId}
+                    onChange={(e) => setVariantId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">Choose...</option>
+                    {variants.map((variant) => (
+                      <option key={variant.id} value={variant.id}>
+                        {variantLabel(variant, product.options)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="text-sm text-gray-700">
+                <span className="block mb-1 font-medium">Movement</span>
+                <select
+                  value={type}
+                  onChange={(e) =>
+                    setType(e.target.value as StockMovementType)
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {Object.entries(STOCK_MOVEMENT_LABELS).map(
+                    ([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ),
+                  )}
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                <span className="block mb-1 font-medium">
+                  {type === "adjusted" ? "Change" : "Quantity"}
+                </span>
+                <input
+                  type="number"
+                  step="1"
+                  min={type === "adjusted" ? undefined : 1}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  placeholder={type === "adjusted" ? "-2" : "10"}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                <span className="block mb-1 font-medium">
+                  Reason{type === "adjusted" && " *"}
+                </span>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={REASON_PLACEHOLDERS[type]}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </label>
+              <button
+                type="submit"
+                disabled={!isValid || recordMovement.isPending}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {recordMovement.isPending ? "Saving..." : "Record"}
+              </button>
+            </form>
+          )}
+
+          {/* History */}
+          {isLoading ? (
+            <p className="text-center text-sm text-gray-500">Loading...</p>
+          ) : movements.length === 0 ? (
+            <p className="text-center text-sm text-gray-500">
+              No stock movements recorded yet.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 font-medium">Date</th>
+                  <th className="py-2 font-medium">Type</th>
+                  <th className="py-2 font-medium text-right">Change</th>
+                  <th className="py-2 font-medium text-right">Stock</th>
+                  <th className="py-2 pl-4 font-medium">Reason</th>
+                  <th className="py-2 font-medium">By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {movements.map((movement) => (
+                  <tr key={movement.id} className="border-b last:border-b-0">
+                    <td className="py-2 whitespace-nowrap text-gray-600">
+                      {movement.createdAt?.toLocaleString() ?? ""}
+                    </td>
+                    <td className="py-2">
+                      {STOCK_MOVEMENT_LABELS[movement.type]}
+                      {movement.variantLabel && (
+                        <span className="block text-xs text-gray-500">
+                          {movement.variantLabel}
+                        </span>
+                      )}
+                    </td>
+                    <td
+                      className={`py-2 text-right font-medium ${
+                        movement.change > 0 ? "text-green-700" : "text-red-600"
+                      }`}
+                    >
+                      {movement.change > 0 ? "+" : ""}
+                      {movement.change}
+                    </td>
+                    <td className="py-2 text-right">{movement.stockAfter}</td>
+                    <td className="py-2 pl-4 text-gray-700">
+                      {movement.reason}
+                    </td>
+                    <td className="py-2 text-gray-500 truncate max-w-[10rem]">
+                      {movement.userEmail ?? movement.userId}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
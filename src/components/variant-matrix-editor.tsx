@@ -0,0 +1,248 @@
+import {
+  type Product,
+  type ProductOption,
+  type ProductVariant,
+  formatPrice,
+} from "@/lib/export";
+import { MAX_OPTIONS, buildVariantMatrix, variantLabel } from "@/lib/variants";
+import { PlusCircle, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+export interface VariantEditorValue {
+  options: ProductOption[];
+  variants: ProductVariant[]; // Saved variants have a `stock`; new ones don't
+  initialStock: Record<string, number>; // New variants only, by ID
+}
+
+/**
+ * The editor's state for a product (empty for a new one).
+ */
+export const toVariantEditorValue = (
+  product: Pick<Product, "options" | "variants">,
+): VariantEditorValue => ({
+  options: product.options ?? [],
+  variants: product.variants ?? [],
+  initialStock: {},
+});
+
+interface VariantMatrixEditorProps {
+  value: VariantEditorValue;
+  onChange: (value: VariantEditorValue) => void;
+  basePrice: number; // Shown where a variant doesn't override the price
+  conflictingSkus: Set<string>; // Lowercased SKUs used twice or elsewhere
+}
+
+// "S, M , L,," → ["S", "M", "L"]
+const parseValues = (text: string) => [
+  ...new Set(
+    text
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean),
+  ),
+];
+
+const inputClasses =
+  "w-full px-2 py-1 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+/**
+ * Option definitions (e.g. Size: S, M, L) and the variant matrix they
+ * generate, with per-variant price, SKU and stock. Editing the options
+ * keeps the overrides of combinations that still exist.
+ */
+export function VariantMatrixEditor({
+  value,
+  onChange,
+  basePrice,
+  conflictingSkus,
+}: VariantMatrixEditorProps) {
+  const { options, variants, initialStock } = value;
+  // What was typed, so "S, " isn't normalized away mid-typing
+  const [valueTexts, setValueTexts] = useState(() =>
+    options.map((option) => option.values.join(", ")),
+  );
+
+  const changeOptions = (next: ProductOption[]) =>
+    onChange({
+      ...value,
+      options: next,
+      variants: buildVariantMatrix(next, variants),
+    });
+
+  const updateOption = (index: number, option: ProductOption) =>
+    changeOptions(options.map((o, i) => (i === index ? option : o)));
+
+  const updateVariant = (id: string, changes: Partial<ProductVariant>) =>
+    onChange({
+      ...value,
+      variants: variants.map((variant) =>
+        variant.id === id ? { ...variant, ...changes } : variant,
+      ),
+    });
+
+  const addOption = () => {
+    setValueTexts((prev) => [...prev, ""]);
+    changeOptions([...options, { name: "", values: [] }]);
+  };
+
+  const removeOption = (index: number) => {
+    setValueTexts((prev) => prev.filter((_, i) => i !== index));
+    changeOptions(options.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Options */}
+      {options.map((option, index) => (
+        <div
+          // biome-ignore lint/suspicious/noArrayIndexKey: options have no ID and are edited in place
+          key={index}
+          className="grid grid-cols-[8rem_1fr_auto] gap-2 items-center"
+        >
+          <input
+            type="text"
+            value={option.name}
+            onChange={(e) =>
+              updateOption(index, { ...option, name: e.target.value })
+            }
+            placeholder="Size"
+            aria-label={`Option ${index + 1} name`}
+            className={`${inputClasses} border-gray-300`}
+          />
+          <input
+            type="text"
+            value={valueTexts[index] ?? ""}
+            onChange={(e) => {
+              const text = e.target.value;
+              setValueTexts((prev) =>
+                prev.map((t, i) => (i === index ? text : t)),
+              );
+              updateOption(index, { ...option, values: parseValues(text) });
+            }}
+            placeholder="S, M, L"
+            aria-label={`Option ${index + 1} values, separated by commas`}
+            className={`${inputClasses} border-gray-300`}
+          />
+          <button
+            type="button"
+            onClick={() => removeOption(index)}
+            className="p-1 text-red-500 hover:text-red-700 rounded-full hover:bg-red-100"
+            aria-label={`Remove option ${option.name || index + 1}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      {options.length < MAX_OPTIONS && (
+        <button
+          type="button"
+          onClick={addOption}
+          className="flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800"
+        >
+          <PlusCircle className="mr-1 h-4 w-4" />
+          {options.length === 0 ? "Add options (size, color...)" : "Add option"}
+        </button>
+      )}
+
+      {/* Matrix */}
+      {variants.length > 0 && (
+        <div className="max-h-64 overflow-y-auto rounded-md border border-gray-200">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-50 text-left text-gray-500">
+              <tr>
+                <th className="px-2 py-1 font-medium">Variant</th>
+                <th className="px-2 py-1 font-medium">Price</th>
+                <th className="px-2 py-1 font-medium">SKU</th>
+                <th className="px-2 py-1 font-medium">Stock</th>
+              </tr>
+            </thead>
+            <tbody>
+              {variants.map((variant) => {
+                const isNew = variant.stock === undefined;
+                const skuConflict =
+                  !!variant.sku?.trim() &&
+                  conflictingSkus.has(variant.sku.trim().toLowerCase());
+                return (
+                  <tr key={variant.id} className="border-t border-gray-100">
+                    <td className="px-2 py-1 whitespace-nowrap text-gray-700">
+                      {variantLabel(variant, options)}
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={variant.price ?? ""}
+                        onChange={(e) =>
+                          updateVariant(variant.id, {
+                            price:
+                              e.target.value === ""
+                                ? undefined
+                                : Number.parseFloat(e.target.value) || 0,
+                          })
+                        }
+                        placeholder={formatPrice(basePrice)}
+                        aria-label={`Price of ${variantLabel(variant, options)}`}
+                        className={`${inputClasses} border-gray-300 w-24`}
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="text"
+                        value={variant.sku ?? ""}
+                        onChange={(e) =>
+                          updateVariant(variant.id, {
+                            sku: e.target.value || undefined,
+                          })
+                        }
+                        aria-invalid={skuConflict}
+                        title={skuConflict ? "This SKU is already used" : ""}
+                        aria-label={`SKU of ${variantLabel(variant, options)}`}
+                        className={`${inputClasses} ${
+                          skuConflict ? "border-red-500" : "border-gray-300"
+                        }`}
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      {isNew ? (
+                        <input
+                          type="number"
+                          step="1"
+                          min="0"
+                          value={initialStock[variant.id] ?? ""}
+                          onChange={(e) =>
+                            onChange({
+                              ...value,
+                              initialStock: {
+                                ...initialStock,
+                                [variant.id]: Math.max(
+                                  0,
+                                  Number.parseInt(e.target.value, 10) || 0,
+                                ),
+                              },
+                            })
+                          }
+                          placeholder="0"
+                          title="Initial stock"
+                          aria-label={`Initial stock of ${variantLabel(variant, options)}`}
+                          className={`${inputClasses} border-gray-300 w-20`}
+                        />
+                      ) : (
+                        <span
+                          className="px-2 text-gray-700"
+                          title="Change it from the stock history"
+                        >
+                          {variant.stock}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
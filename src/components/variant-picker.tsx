@@ -0,0 +1,74 @@
+import type { Product, ProductVariant } from "@/lib/export";
+
+interface VariantPickerProps {
+  product: Pick<Product, "options" | "variants">;
+  selection: Record<string, string>; // Option name → chosen value
+  onChange: (selection: Record<string, string>) => void;
+}
+
+const isSoldOut = (variant: ProductVariant) =>
+  variant.stock !== undefined && variant.stock <= 0;
+
+/**
+ * One row of value buttons per option. Values whose every matching variant
+ * (given the other choices) is out of stock are struck through, but can
+ * still be chosen to see the details.
+ */
+export function VariantPicker({
+  product,
+  selection,
+  onChange,
+}: VariantPickerProps) {
+  const variants = product.variants ?? [];
+
+  // Variants compatible with `value` and the choices for the other options
+  const matching = (name: string, value: string) =>
+    variants.filter((variant) =>
+      Object.entries({ ...selection, [name]: value }).every(
+        ([key, chosen]) => variant.options[key] === chosen,
+      ),
+    );
+
+  return (
+    <div className="space-y-4">
+      {product.options?.map((option) => (
+        <fieldset key={option.name}>
+          <legend className="text-sm font-medium text-gray-700 mb-2">
+            {option.name}
+            {selection[option.name] && (
+              <span className="ml-1 font-normal text-gray-500">
+                : {selection[option.name]}
+              </span>
+            )}
+          </legend>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map((value) => {
+              const isSelected = selection[option.name] === value;
+              const candidates = matching(option.name, value);
+              const unavailable =
+                candidates.length === 0 || candidates.every(isSoldOut);
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  aria-pressed={isSelected}
+                  onClick={() =>
+                    onChange({ ...selection, [option.name]: value })
+                  }
+                  title={unavailable ? "Out of stock" : undefined}
+                  className={`rounded-md border px-3 py-1.5 text-sm font-medium ${
+                    isSelected
+                      ? "border-indigo-600 bg-indigo-50 text-indigo-700"
+                      : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                  } ${unavailable ? "line-through opacity-60" : ""}`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </fieldset>
+      ))}
+    </div>
+  );
+}
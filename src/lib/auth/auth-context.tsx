@@ -0,0 +1,104 @@
+import { getRepository } from "@/lib/data";
+import { auth } from "@/lib/firebase";
+import {
+  type User,
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  signOut as firebaseSignOut,
+} from "firebase/auth";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import {
+  DEFAULT_ROLE,
+  type Permission,
+  type Role,
+  type UserProfile,
+  hasPermission,
+  isRole,
+} from "./roles";
+
+export interface AuthState {
+  status: "loading" | "signed-in" | "signed-out";
+  user: User | null;
+  role: Role | null; // null while loading or signed out
+  can: (permission: Permission) => boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthState | null>(null);
+
+const profilesRepository = getRepository<UserProfile>("users");
+
+/**
+ * Resolves the user's role: a `role` custom claim wins (set with the Admin
+ * SDK, or in the Auth emulator UI), then the profile document, then the
+ * default role.
+ */
+const fetchRole = async (user: User): Promise<Role> => {
+  try {
+    const { claims } = await user.getIdTokenResult();
+    if (isRole(claims.role)) return claims.role;
+
+    const profile = await profilesRepository.get(user.uid);
+    return isRole(profile?.role) ? profile.role : DEFAULT_ROLE;
+  } catch (error) {
+    console.error("Error loading user profile: ", error);
+    return DEFAULT_ROLE;
+  }
+};
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<AuthState["status"]>("loading");
+  const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
+
+  useEffect(() => {
+    return onAuthStateChanged(auth, async (nextUser) => {
+      if (!nextUser) {
+        setUser(null);
+        setRole(null);
+        setStatus("signed-out");
+        return;
+      }
+      const nextRole = await fetchRole(nextUser);
+      setUser(nextUser);
+      setRole(nextRole);
+      setStatus("signed-in");
+    });
+  }, []);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    await signInWithEmailAndPassword(auth, email, password);
+  }, []);
+
+  const signOut = useCallback(() => firebaseSignOut(auth), []);
+
+  const value = useMemo<AuthState>(
+    () => ({
+      status,
+      user,
+      role,
+      can: (permission) => hasPermission(role, permission),
+      signIn,
+      signOut,
+    }),
+    [status, user, role, signIn, signOut],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthState {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_REDIRECT, toSafeRedirect } from "./guards";
+
+describe("toSafeRedirect", () => {
+  it("follows paths on this site", () => {
+    expect(toSafeRedirect("/products?q=tea#top")).toBe("/products?q=tea#top");
+    expect(toSafeRedirect("/")).toBe("/");
+  });
+
+  it("refuses other sites", () => {
+    for (const value of [
+      "https://evil.example",
+      "//evil.example",
+      "/\\evil.example",
+      "javascript:alert(1)",
+      "products",
+    ]) {
+      expect(toSafeRedirect(value)).toBe(DEFAULT_REDIRECT);
+    }
+  });
+
+  it("refuses characters browsers drop from URLs", () => {
+    expect(toSafeRedirect("/\t/evil.example")).toBe(DEFAULT_REDIRECT);
+    expect(toSafeRedirect("/\n/evil.example")).toBe(DEFAULT_REDIRECT);
+  });
+
+  it("falls back for anything but a string", () => {
+    expect(toSafeRedirect(["/products"])).toBe(DEFAULT_REDIRECT);
+    expect(toSafeRedirect(42)).toBe(DEFAULT_REDIRECT);
+  });
+});
@@ -0,0 +1,47 @@
+// guards.ts
+
+import { type ParsedLocation, redirect } from "@tanstack/react-router";
+import type { AuthState } from "./auth-context";
+import type { Permission } from "./roles";
+
+/**
+ * Builds a `beforeLoad` guard. Signed-out users are sent to `/sign-in` (and
+ * brought back afterwards); signed-in users without the permission are sent
+ * to the public catalog.
+ */
+export function requirePermission(permission: Permission) {
+  return ({
+    context,
+    location,
+  }: {
+    context: { auth: AuthState };
+    location: ParsedLocation;
+  }) => {
+    if (context.auth.status !== "signed-in") {
+      throw redirect({
+        to: "/sign-in",
+        search: { redirect: location.href },
+      });
+    }
+    if (!context.auth.can(permission)) {
+      throw redirect({ to: "/catalog" });
+    }
+  };
+}
+
+// Where signing in leads when no page asked for it
+export const DEFAULT_REDIRECT = "/products";
+
+/**
+ * Only paths on this site are followed after signing in, so a crafted
+ * link (`?redirect=https://…`, `//host` or `/\host`) can't send users
+ * elsewhere. Browsers drop tabs and newlines from URLs, so those are
+ * refused too. Anything else falls back to the default.
+ */
+export const toSafeRedirect = (value: unknown) =>
+  typeof value === "string" &&
+  value.startsWith("/") &&
+  !/^.[/\\]/.test(value) &&
+  !/[\t\n\r]/.test(value)
+    ? value
+    : DEFAULT_REDIRECT;
@@ -0,0 +1,35 @@
+// roles.ts
+
+/**
+ * Roles come from a `role` custom claim or from `users/{uid}` as `{ role }`.
+ * Anyone signed in without either is treated as a viewer.
+ */
+export type Role = "viewer" | "editor" | "admin";
+
+export type Permission = "view" | "edit" | "delete";
+
+export const DEFAULT_ROLE: Role = "viewer";
+
+export const ROLES: Role[] = ["viewer", "editor", "admin"];
+
+const PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ["view"],
+  editor: ["view", "edit"],
+  admin: ["view", "edit", "delete"],
+};
+
+export interface UserProfile {
+  id: string; // Same as the Firebase Auth uid
+  role: Role;
+  email?: string;
+}
+
+export const isRole = (value: unknown): value is Role =>
+  ROLES.includes(value as Role);
+
+/**
+ * Returns true if the role grants the permission. A missing role grants
+ * nothing.
+ */
+export const hasPermission = (role: Role | null, permission: Permission) =>
+  role !== null && PERMISSIONS[role].includes(permission);
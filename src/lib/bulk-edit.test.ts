@@ -0,0 +1,134 @@
+import { getRepository } from "@/lib/data";
+import type { Product } from "@/lib/export";
+import { makeProduct, seed } from "@/test/fixtures";
+import { describe, expect, it, vi } from "vitest";
+import {
+  type PriceAdjustment,
+  adjustPrice,
+  adjustPrices,
+  adjustProductPrices,
+  failedItems,
+  roundPrice,
+  saveProductChanges,
+} from "./bulk-edit";
+
+const percent = (amount: number): PriceAdjustment => ({
+  mode: "percent",
+  amount,
+  rounding: "cents",
+});
+
+const stored = (id: string) => getRepository<Product>("products").get(id);
+
+describe("roundPrice", () => {
+  it("rounds to the cent, a whole amount or .99", () => {
+    expect(roundPrice(12.345, "cents")).toBe(12.35);
+    expect(roundPrice(12.5, "whole")).toBe(13);
+    expect(roundPrice(12.2, "ninety-nine")).toBe(11.99);
+    expect(roundPrice(12.6, "ninety-nine")).toBe(12.99);
+  });
+
+  it("never goes below zero or rounds a price down to free", () => {
+    expect(roundPrice(-3, "cents")).toBe(0);
+    expect(roundPrice(0.2, "whole")).toBe(1);
+    expect(roundPrice(0.2, "ninety-nine")).toBe(0.99);
+  });
+});
+
+describe("adjustPrice", () => {
+  it("applies percentages and fixed amounts", () => {
+    expect(adjustPrice(10, percent(15))).toBe(11.5);
+    expect(adjustPrice(10, percent(-100))).toBe(0);
+    expect(
+      adjustPrice(10, { mode: "fixed", amount: 2.5, rounding: "whole" }),
+    ).toBe(13);
+  });
+});
+
+describe("adjustProductPrices", () => {
+  it("adjusts variant prices that override the product's", () => {
+    expect(
+      adjustProductPrices(
+        {
+          price: 10,
+          variants: [
+            { id: "v1", options: { Size: "S" }, stock: 1 },
+            { id: "v2", options: { Size: "M" }, price: 20 },
+          ],
+        },
+        percent(10),
+      ),
+    ).toEqual({
+      price: 11,
+      variants: [
+        { id: "v1", options: { Size: "S" }, stock: 1 },
+        { id: "v2", options: { Size: "M" }, price: 22 },
+      ],
+    });
+  });
+});
+
+describe("adjustPrices", () => {
+  it("updates plain and variant prices, reporting progress", async () => {
+    const plain = makeProduct("plain");
+    const withVariants = makeProduct("variants", {
+      variants: [{ id: "v1", options: { Size: "S" }, price: 20, stock: 1 }],
+    });
+    await seed("products", [plain, withVariants]);
+    // Stock changed since the table loaded; the update must not undo it
+    await getRepository<Product>("products").update("variants", {
+      variants: [{ id: "v1", options: { Size: "S" }, price: 20, stock: 5 }],
+    });
+
+    const onProgress = vi.fn();
+    const result = await adjustPrices(
+      [plain, withVariants],
+      percent(50),
+      onProgress,
+    );
+
+    expect(result.succeeded).toEqual([plain, withVariants]);
+    expect((await stored("plain"))?.price).toBe(15);
+    expect(await stored("variants")).toMatchObject({
+      price: 15,
+      variants: [{ price: 30, stock: 5 }],
+    });
+    expect(onProgress).toHaveBeenLastCalledWith({
+      done: 2,
+      total: 2,
+      failed: 0,
+    });
+  });
+
+  it("reports products with variants that no longer exist", async () => {
+    const missing = makeProduct("missing", {
+      variants: [{ id: "v1", options: { Size: "S" }, price: 20 }],
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const result = await adjustPrices([missing], percent(10));
+    expect(failedItems(result)).toEqual([missing]);
+    expect(result.failed[0].error.message).toBe(
+      "This product no longer exists.",
+    );
+  });
+});
+
+describe("saveProductChanges", () => {
+  it("writes only the changed fields", async () => {
+    const saved = makeProduct("saved", { description: "Old" });
+    await seed("products", [saved]);
+    await getRepository<Product>("products").update("saved", {
+      description: "Edited elsewhere",
+    });
+
+    const result = await saveProductChanges([
+      { product: saved, data: { name: "Renamed" } },
+    ]);
+
+    expect(result.failed).toEqual([]);
+    expect(await stored("saved")).toMatchObject({
+      name: "Renamed",
+      description: "Edited elsewhere",
+    });
+  });
+});
@@ -0,0 +1,191 @@
+// bulk-edit.ts
+// Changes applied to many products at once from the products table:
+// delete, move to a category, change prices, or save grid edits. Writes
+// go out in chunked batches, so a failure only affects its own chunk and
+// the rest is still saved; callers report what didn't make it.
+
+import { fixProducts } from "@/lib/category-integrity";
+import {
+  type BatchProgress,
+  type BatchResult,
+  dataSource,
+  writeInBatches,
+} from "@/lib/data";
+import type { Product } from "@/lib/export";
+import { toStoredVariant } from "@/lib/variants";
+
+// --- PRICES ---
+
+export type PriceRounding = "cents" | "whole" | "ninety-nine";
+
+export const PRICE_ROUNDING_LABELS: Record<PriceRounding, string> = {
+  cents: "To the cent (12.34)",
+  whole: "To a whole amount (12.00)",
+  "ninety-nine": "To the nearest .99 (11.99)",
+};
+
+export interface PriceAdjustment {
+  mode: "percent" | "fixed"; // e.g. +10% or +2.50
+  amount: number; // Negative to lower prices
+  rounding: PriceRounding;
+}
+
+/**
+ * Rounds a price by `rounding`. Prices never go below zero, and a price
+ * above zero never rounds down to free.
+ */
+export function roundPrice(price: number, rounding: PriceRounding): number {
+  if (price <= 0) return 0;
+  switch (rounding) {
+    case "whole":
+      return Math.max(1, Math.round(price));
+    case "ninety-nine":
+      return toCents(Math.max(0.99, Math.round(price + 0.01) - 0.01));
+    default:
+      return toCents(price);
+  }
+}
+
+const toCents = (price: number) => Math.round(price * 100) / 100;
+
+export const adjustPrice = (price: number, adjustment: PriceAdjustment) =>
+  roundPrice(
+    adjustment.mode === "percent"
+      ? price * (1 + adjustment.amount / 100)
+      : price + adjustment.amount,
+    adjustment.rounding,
+  );
+
+/**
+ * The product's price after the adjustment, along with the variants that
+ * override it.
+ */
+export const adjustProductPrices = (
+  product: Pick<Product, "price" | "variants">,
+  adjustment: PriceAdjustment,
+): Pick<Product, "price" | "variants"> => ({
+  price: adjustPrice(product.price, adjustment),
+  variants: product.variants?.map((variant) =>
+    toStoredVariant(
+      variant.price === undefined
+        ? variant
+        : { ...variant, price: adjustPrice(variant.price, adjustment) },
+    ),
+  ),
+});
+
+const hasVariantPrices = (product: Product) =>
+  !!product.variants?.some((variant) => variant.price !== undefined);
+
+/**
+ * Adjusts the prices of `products`. Plain prices go out in batches.
+ * Variants also hold stock, which only changes in transactions, so
+ * products with variant prices are each updated in a transaction that
+ * re-reads them instead of overwriting their variants from a stale copy.
+ */
+export async function adjustPrices(
+  products: Product[],
+  adjustment: PriceAdjustment,
+  onProgress?: (progress: BatchProgress) => void,
+): Promise<BatchResult<Product>> {
+  const withVariants = products.filter(hasVariantPrices);
+  const simple = products.filter((prod) => !hasVariantPrices(prod));
+  const total = products.length;
+
+  const result = await writeInBatches(
+    simple,
+    (batch, product) =>
+      batch.update<Product>("products", product.id, {
+        price: adjustPrice(product.price, adjustment),
+      }),
+    {
+      onProgress: (progress) => onProgress?.({ ...progress, total }),
+    },
+  );
+
+  const progress: BatchProgress = {
+    done: simple.length,
+    total,
+    failed: simple.length - result.succeeded.length,
+  };
+  for (const product of withVariants) {
+    try {
+      await dataSource.runTransaction(async (transaction) => {
+        const current = await transaction.get<Product>("products", product.id);
+        if (!current) throw new Error("This product no longer exists.");
+        transaction.update<Product>(
+          "products",
+          product.id,
+          adjustProductPrices(current, adjustment),
+        );
+      });
+      result.succeeded.push(product);
+    } catch (error) {
+      console.error("Price update failed: ", error);
+      result.failed.push({ items: [product], error: error as Error });
+      progress.failed++;
+    }
+    progress.done++;
+    onProgress?.({ ...progress });
+  }
+
+  return result;
+}
+
+// --- ACTIONS ---
+
+export type BulkAction =
+  | { type: "delete" }
+  | { type: "move"; categoryId: string }
+  | { type: "price"; adjustment: PriceAdjustment };
+
+/**
+ * Applies `action` to `products`. Deleted products' images are removed
+ * once their batch has committed.
+ */
+export const runBulkAction = (
+  products: Product[],
+  action: BulkAction,
+  onProgress?: (progress: BatchProgress) => void,
+): Promise<BatchResult<Product>> => {
+  switch (action.type) {
+    case "delete":
+      return fixProducts(products, { mode: "cascade" }, onProgress);
+    case "move":
+      return fixProducts(
+        products,
+        { mode: "reassign", targetCategoryId: action.categoryId },
+        onProgress,
+      );
+    case "price":
+      return adjustPrices(products, action.adjustment, onProgress);
+  }
+};
+
+/**
+ * Every product that failed, across the failed batches.
+ */
+export const failedItems = <I>(result: BatchResult<I>) =>
+  result.failed.flatMap(({ items }) => items);
+
+// --- GRID EDITS ---
+
+export interface ProductChange {
+  product: Product;
+  data: Partial<Product>; // Only the fields that changed
+}
+
+/**
+ * Saves edits made in the products grid, in batches. Only the changed
+ * fields are written, so concurrent edits to other fields survive.
+ */
+export const saveProductChanges = (
+  changes: ProductChange[],
+  onProgress?: (progress: BatchProgress) => void,
+): Promise<BatchResult<ProductChange>> =>
+  writeInBatches(
+    changes,
+    (batch, { product, data }) =>
+      batch.update<Product>("products", product.id, data),
+    { onProgress },
+  );
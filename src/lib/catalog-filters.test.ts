@@ -0,0 +1,215 @@
+import { toBasePrice } from "@/lib/currency";
+import type { Product } from "@/lib/export";
+import { makeCategory, makeProduct } from "@/test/fixtures";
+import { describe, expect, it } from "vitest";
+import {
+  canPageOnServer,
+  countWithSubcategories,
+  filterCatalog,
+  hasActiveFilters,
+  priceCeiling,
+  serverCatalogQuery,
+} from "./catalog-filters";
+
+const categories = [
+  makeCategory("drinks", "Drinks"),
+  makeCategory("food", "Food"),
+];
+
+const products: Product[] = [
+  makeProduct("tea", {
+    name: "Iced Tea",
+    price: 3,
+    categoryId: "drinks",
+    createdAt: new Date(2024, 0, 2),
+  }),
+  makeProduct("latte", {
+    name: "Latte",
+    description: "With milk",
+    price: 4.5,
+    categoryId: "drinks",
+    createdAt: new Date(2024, 0, 3),
+  }),
+  makeProduct("cake", { name: "Cake", price: 6, categoryId: "food" }),
+  makeProduct("cookie", {
+    name: "Cookie",
+    price: 1.25,
+    categoryId: "food",
+    createdAt: new Date(2024, 0, 1),
+  }),
+];
+
+const ids = (list: Product[]) => list.map((prod) => prod.id);
+
+const filter = (search: Parameters<typeof filterCatalog>[1]) =>
+  filterCatalog(products, search, categories);
+
+describe("filterCatalog", () => {
+  it("sorts everything by name by default", () => {
+    expect(ids(filter({}).products)).toEqual([
+      "cake",
+      "cookie",
+      "tea",
+      "latte",
+    ]);
+  });
+
+  it("sorts by price or by newest", () => {
+    expect(ids(filter({ sort: "price-asc" }).products)).toEqual([
+      "cookie",
+      "tea",
+      "latte",
+      "cake",
+    ]);
+    expect(ids(filter({ sort: "price-desc" }).products)[0]).toBe("cake");
+    // Products without a creation date go last
+    expect(ids(filter({ sort: "newest" }).products)).toEqual([
+      "latte",
+      "tea",
+      "cookie",
+      "cake",
+    ]);
+  });
+
+  it("keeps the chosen sort for text searches", () => {
+    expect(ids(filter({ q: "milk", sort: "price-asc" }).products)).toEqual([
+      "latte",
+    ]);
+    expect(ids(filter({ q: "c", sort: "price-desc" }).products)).toEqual([
+      "cake",
+      "cookie",
+    ]);
+  });
+
+  it("applies the price range, inclusively", () => {
+    expect(ids(filter({ minPrice: 3, maxPrice: 4.5 }).products)).toEqual([
+      "tea",
+      "latte",
+    ]);
+    expect(ids(filter({ q: "price:<2" }).products)).toEqual(["cookie"]);
+  });
+
+  it("keeps the range in the base currency whatever the display one", () => {
+    // C$100..C$150 on the slider at 30 córdobas to the dollar
+    const nio = { currency: "NIO" as const, rate: 30 };
+    const range = {
+      minPrice: toBasePrice(100, nio),
+      maxPrice: toBasePrice(150, nio),
+    };
+    expect(range).toEqual({ minPrice: 3.33, maxPrice: 5 });
+    expect(ids(filter(range).products)).toEqual(["latte"]);
+    expect(ids(filter({ q: "price:<2" }).products)).toEqual(["cookie"]);
+  });
+
+  it("matches products with any variant in the price range", () => {
+    const shirt = makeProduct("shirt", {
+      price: 10,
+      variants: [
+        { id: "v1", options: { Size: "S" } },
+        { id: "v2", options: { Size: "XL" }, price: 14 },
+      ],
+    });
+    const results = filterCatalog(
+      [shirt],
+      { minPrice: 12, maxPrice: 20 },
+      categories,
+    );
+    expect(ids(results.products)).toEqual(["shirt"]);
+    expect(priceCeiling([shirt])).toBe(14);
+  });
+
+  it("counts what each category would add with the other filters", () => {
+    const results = filter({ categories: ["food"], maxPrice: 5 });
+    expect(ids(results.products)).toEqual(["cookie"]);
+    expect(results.categoryCounts).toEqual(
+      new Map([
+        ["drinks", 2],
+        ["food", 1],
+      ]),
+    );
+    expect(results.allCategoriesCount).toBe(3);
+  });
+});
+
+describe("filterCatalog with subcategories", () => {
+  const tree = [
+    ...categories,
+    makeCategory("coffee", "Coffee", "drinks"),
+    makeCategory("beans", "Beans", "coffee"),
+  ];
+  const catalog = [
+    ...products,
+    makeProduct("espresso", { price: 2, categoryId: "coffee" }),
+    makeProduct("arabica", { price: 12, categoryId: "beans" }),
+  ];
+
+  it("includes the products of subcategories", () => {
+    const results = filterCatalog(catalog, { categories: ["coffee"] }, tree);
+    expect(ids(results.products).sort()).toEqual(["arabica", "espresso"]);
+  });
+
+  it("counts subcategory products towards every ancestor", () => {
+    const results = filterCatalog(catalog, { maxPrice: 5 }, tree);
+    expect(results.categoryCounts.get("drinks")).toBe(3);
+    expect(results.categoryCounts.get("coffee")).toBe(1);
+    expect(results.categoryCounts.get("beans")).toBeUndefined();
+  });
+});
+
+describe("priceCeiling", () => {
+  it("rounds the highest price up", () => {
+    expect(priceCeiling(products)).toBe(6);
+    expect(priceCeiling([makeProduct("p", { price: 6.2 })])).toBe(7);
+    expect(priceCeiling([])).toBe(0);
+  });
+});
+
+describe("hasActiveFilters", () => {
+  it("ignores the sort order and blank searches", () => {
+    expect(hasActiveFilters({ sort: "newest", q: " " })).toBe(false);
+    expect(hasActiveFilters({ categories: ["food"] })).toBe(true);
+    expect(hasActiveFilters({ maxPrice: 0 })).toBe(true);
+  });
+});
+
+describe("server paging", () => {
+  const tree = [...categories, makeCategory("coffee", "Coffee", "drinks")];
+
+  it("pages all categories or one leaf category by name", () => {
+    expect(canPageOnServer({}, tree)).toBe(true);
+    expect(canPageOnServer({ categories: ["coffee"] }, tree)).toBe(true);
+    expect(serverCatalogQuery({ categories: ["coffee"] })).toEqual({
+      where: [{ field: "categoryId", op: "==", value: "coffee" }],
+      orderBy: [{ field: "name" }],
+    });
+  });
+
+  it("filters everything here for anything else", () => {
+    expect(canPageOnServer({ categories: ["drinks"] }, tree)).toBe(false);
+    expect(canPageOnServer({ categories: ["food", "coffee"] }, tree)).toBe(
+      false,
+    );
+    expect(canPageOnServer({ q: "tea" }, tree)).toBe(false);
+    expect(canPageOnServer({ maxPrice: 5 }, tree)).toBe(false);
+    expect(canPageOnServer({ sort: "newest" }, tree)).toBe(false);
+  });
+
+  it("adds subcategory counts to their ancestors", () => {
+    expect(
+      countWithSubcategories(
+        new Map([
+          ["drinks", 1],
+          ["coffee", 2],
+          ["food", 0],
+        ]),
+        tree,
+      ),
+    ).toEqual(
+      new Map([
+        ["drinks", 3],
+        ["coffee", 2],
+        ["food", 0],
+      ]),
+    );
+  });
+});
@@ -0,0 +1,205 @@
+// catalog-filters.ts
+// Filtering, faceting and sorting for the public catalog. The view is
+// described by the `/catalog` search params (see `search-params.ts`).
+// Views the data source can page on its own (`canPageOnServer`) are read a
+// page at a time; the rest need every product, filtered here.
+// Prices in the params (the range and `price:` searches) are in the base
+// currency, so a link means the same in every display currency; only the
+// price slider converts them.
+
+import { categoryAncestry, descendantIds } from "@/lib/category-tree";
+import type { CollectionQuery } from "@/lib/data";
+import {
+  BASE_PRICE_FORMAT,
+  type PriceFormat,
+  convertPrice,
+} from "@/lib/currency";
+import type { Category, Product } from "@/lib/export";
+import { type SearchDefinition, createSearchIndex } from "@/lib/search";
+import {
+  type CatalogSearch,
+  type CatalogSort,
+  DEFAULT_CATALOG_SORT,
+} from "@/lib/search-params";
+import { priceRange } from "@/lib/variants";
+
+// --- SORTING ---
+
+export const CATALOG_SORT_LABELS: Record<CatalogSort, string> = {
+  name: "Name (A–Z)",
+  "price-asc": "Price: low to high",
+  "price-desc": "Price: high to low",
+  newest: "Newest first",
+};
+
+const compareProducts: Record<
+  CatalogSort,
+  (a: Product, b: Product) => number
+> = {
+  name: (a, b) => a.name.localeCompare(b.name),
+  // Products with variants sort by their "from" price
+  "price-asc": (a, b) => priceRange(a).min - priceRange(b).min,
+  "price-desc": (a, b) => priceRange(b).min - priceRange(a).min,
+  // Products without a creation date go last
+  newest: (a, b) =>
+    (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0),
+};
+
+// --- FILTERING ---
+
+/**
+ * Upper bound of the price slider: the highest price in the display
+ * currency, rounded up.
+ */
+export const priceCeiling = (
+  products: Product[],
+  priceFormat: PriceFormat = BASE_PRICE_FORMAT,
+) =>
+  Math.ceil(
+    products.reduce(
+      (max, prod) =>
+        Math.max(max, convertPrice(priceRange(prod).max, priceFormat)),
+      0,
+    ),
+  );
+
+// What customers can search: the same syntax as the admin pages
+const catalogSearchDefinition: SearchDefinition<Product> = {
+  fields: [
+    { key: "name", weight: 3, value: (prod) => prod.name },
+    { key: "description", weight: 2, value: (prod) => prod.description },
+  ],
+  numericFields: [{ key: "price", value: (prod) => prod.price }],
+};
+
+export interface CatalogResults {
+  products: Product[]; // Matching every filter, sorted
+  // Products per category (subcategories included) matching every filter
+  // except the category one, i.e. what selecting that category would add
+  categoryCounts: Map<string, number>;
+  allCategoriesCount: number; // Same, for "All categories"
+}
+
+/**
+ * Applies the search text, price range and categories of `search`, and
+ * counts the results per category facet. A selected category includes the
+ * products of its subcategories.
+ */
+export function filterCatalog(
+  products: Product[],
+  search: CatalogSearch,
+  categories: Category[] = [],
+): CatalogResults {
+  const query = search.q?.trim();
+  const { minPrice, maxPrice } = search;
+  // Fuzzy text matches; the order still comes from the chosen sort
+  const textMatches = query
+    ? new Set(
+        createSearchIndex(products, catalogSearchDefinition)
+          .search(query)
+          .map((result) => result.item.id),
+      )
+    : null;
+  const selected = new Set(
+    (search.categories ?? []).flatMap((id) => [
+      ...descendantIds(id, categories),
+    ]),
+  );
+  // Category ID → it and its ancestors, which all count its products
+  const ancestry = new Map(
+    categories.map((cat) => [
+      cat.id,
+      categoryAncestry(cat.id, categories).map((ancestor) => ancestor.id),
+    ]),
+  );
+
+  const categoryCounts = new Map<string, number>();
+  const matching: Product[] = [];
+  let allCategoriesCount = 0;
+
+  for (const prod of products) {
+    // A product matches when any of its variants is within the range
+    const { min, max } = priceRange(prod);
+    if (minPrice !== undefined && max < minPrice) continue;
+    if (maxPrice !== undefined && min > maxPrice) continue;
+    if (textMatches && !textMatches.has(prod.id)) continue;
+
+    allCategoriesCount++;
+    for (const id of ancestry.get(prod.categoryId) ?? [prod.categoryId]) {
+      categoryCounts.set(id, (categoryCounts.get(id) ?? 0) + 1);
+    }
+    if (selected.size === 0 || selected.has(prod.categoryId)) {
+      matching.push(prod);
+    }
+  }
+
+  return {
+    products: matching.sort(
+      compareProducts[search.sort ?? DEFAULT_CATALOG_SORT],
+    ),
+    categoryCounts,
+    allCategoriesCount,
+  };
+}
+
+/**
+ * True when anything other than the sort order narrows the results.
+ */
+export const hasActiveFilters = (search: CatalogSearch) =>
+  !!search.q?.trim() ||
+  !!search.categories?.length ||
+  search.minPrice !== undefined ||
+  search.maxPrice !== undefined;
+
+// --- SERVER PAGING ---
+
+/**
+ * True when the data source can page the view itself: no search text or
+ * price range, the name sort, and all categories or a single one without
+ * subcategories (their products would need an "in" query, which is
+ * capped). Names are then ordered by code point rather than by locale.
+ */
+export function canPageOnServer(
+  search: CatalogSearch,
+  categories: Pick<Category, "parentId">[],
+) {
+  const selected = search.categories ?? [];
+  return (
+    !search.q?.trim() &&
+    search.minPrice === undefined &&
+    search.maxPrice === undefined &&
+    (search.sort ?? DEFAULT_CATALOG_SORT) === "name" &&
+    (selected.length === 0 ||
+      (selected.length === 1 &&
+        !categories.some((cat) => cat.parentId === selected[0])))
+  );
+}
+
+/**
+ * The query for a view `canPageOnServer` accepts.
+ */
+export const serverCatalogQuery = (
+  search: CatalogSearch,
+): CollectionQuery<Product> => ({
+  where: search.categories?.length
+    ? [{ field: "categoryId", op: "==", value: search.categories[0] }]
+    : [],
+  orderBy: [{ field: "name" }],
+});
+
+/**
+ * Products per category with those of its subcategories added, like the
+ * facet counts of `filterCatalog`, from the count of each category alone.
+ */
+export function countWithSubcategories(
+  counts: Map<string, number>,
+  categories: Category[],
+): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const [categoryId, count] of counts) {
+    for (const ancestor of categoryAncestry(categoryId, categories)) {
+      totals.set(ancestor.id, (totals.get(ancestor.id) ?? 0) + count);
+    }
+  }
+  return totals;
+}
@@ -0,0 +1,544 @@
+import {
+  Document,
+  Image,
+  Link,
+  Page,
+  Path,
+  StyleSheet,
+  Svg,
+  Text,
+  View,
+  pdf,
+} from "@react-pdf/renderer";
+import QRCode from "qrcode";
+import type React from "react";
+import {
+  type Category,
+  type Product,
+  downloadBlob,
+  getProductImageUrl,
+} from "@/lib/export";
+import type { PriceFormat } from "@/lib/currency";
+import {
+  buildCategoryTree,
+  categoryPathMap,
+  descendantIds,
+  flattenCategoryTree,
+} from "@/lib/category-tree";
+import { blobToDataUrl, resizeImage } from "@/lib/images";
+import { formatPriceRange } from "@/lib/variants";
+
+// --- OPTIONS ---
+
+export type CatalogLayout = "2x3" | "3x4";
+
+// Cards per page: columns × rows
+export const CATALOG_LAYOUTS: Record<
+  CatalogLayout,
+  { columns: number; rows: number; label: string }
+> = {
+  "2x3": { columns: 2, rows: 3, label: "6 per page (2 × 3)" },
+  "3x4": { columns: 3, rows: 4, label: "12 per page (3 × 4)" },
+};
+
+export interface CatalogOptions {
+  layout: CatalogLayout;
+  qrCodes: boolean; // A QR code on each card linking to the product
+}
+
+export interface CatalogSection {
+  category: Category;
+  title: string; // The category's full path, e.g. "Drinks > Coffee"
+  products: Product[];
+}
+
+// Images and QR codes, prepared in the browser before rendering
+export interface CatalogAssets {
+  images: Map<string, string>; // Product ID → JPEG data URL
+  qrCodes: Map<string, QrMatrix>; // Product ID → QR code
+}
+
+interface QrMatrix {
+  size: number; // Modules per side
+  path: string; // SVG path of the dark modules, one unit per module
+}
+
+/**
+ * One section per category, in tree order, each with its products sorted by
+ * name. Pass a category ID to limit the catalog to that category and its
+ * subcategories. Categories without products are left out.
+ */
+export function buildCatalogSections(
+  categories: Category[],
+  products: Product[],
+  categoryId?: string | null,
+): CatalogSection[] {
+  const included = categoryId ? descendantIds(categoryId, categories) : null;
+  const paths = categoryPathMap(categories);
+  return flattenCategoryTree(buildCategoryTree(categories))
+    .map((node) => node.category)
+    .filter((category) => !included || included.has(category.id))
+    .map((category) => ({
+      category,
+      title: paths.get(category.id) ?? category.name,
+      products: products
+        .filter((prod) => prod.categoryId === category.id)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .filter((section) => section.products.length > 0);
+}
+
+// --- ASSETS ---
+
+// Big enough for the largest card at print resolution
+const PRINT_IMAGE_MAX_DIMENSION = 600;
+
+/**
+ * Public link to a product in the catalog; the QR codes encode this.
+ */
+export const catalogProductUrl = (product: Product) =>
+  `${window.location.origin}/catalog/${encodeURIComponent(product.id)}`;
+
+/**
+ * Encodes `text` as a QR code, drawn as a single SVG path.
+ */
+const createQrMatrix = (text: string): QrMatrix => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: "M" });
+  let path = "";
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) path += `M${col} ${row}h1v1h-1z`;
+    }
+  }
+  return { size: modules.size, path };
+};
+
+/**
+ * Loads a product's primary image as a JPEG data URL. The stored sizes are
+ * usually WebP, which react-pdf can't embed.
+ */
+const loadPrintImage = async (
+  product: Product,
+): Promise<string | undefined> => {
+  const url = getProductImageUrl(product, "medium");
+  if (!url) return undefined;
+  try {
+    const response = await fetch(url);
+    const blob = await resizeImage(
+      await response.blob(),
+      PRINT_IMAGE_MAX_DIMENSION,
+      "image/jpeg",
+      0.8,
+    );
+    return await blobToDataUrl(blob);
+  } catch (error) {
+    // The card falls back to a placeholder
+    console.warn(`Could not load the image of ${product.id}`, error);
+    return undefined;
+  }
+};
+
+/**
+ * Prepares the images (and, if enabled, QR codes) of every product in the
+ * catalog, one at a time.
+ */
+export async function prepareCatalogAssets(
+  sections: CatalogSection[],
+  options: CatalogOptions,
+  onProgress?: (done: number, total: number) => void,
+): Promise<CatalogAssets> {
+  const products = sections.flatMap((section) => section.products);
+  const assets: CatalogAssets = { images: new Map(), qrCodes: new Map() };
+
+  for (const [index, product] of products.entries()) {
+    const image = await loadPrintImage(product);
+    if (image) assets.images.set(product.id, image);
+    if (options.qrCodes) {
+      assets.qrCodes.set(
+        product.id,
+        createQrMatrix(catalogProductUrl(product)),
+      );
+    }
+    onProgress?.(index + 1, products.length);
+  }
+  return assets;
+}
+
+// --- LAYOUT ---
+
+const PAGE = { width: 595.28, height: 841.89, padding: 36, footer: 48 };
+const CONTENT_WIDTH = PAGE.width - PAGE.padding * 2;
+const SECTION_HEADER_HEIGHT = 34;
+const GAP = 12;
+const TOC_ENTRIES_PER_PAGE = 24;
+const BRAND_COLOR = "#4f46e5"; // indigo-600, as in the app
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Card size for a layout, filling the page below the section header.
+ */
+const cardSize = (layout: CatalogLayout) => {
+  const { columns, rows } = CATALOG_LAYOUTS[layout];
+  const height =
+    PAGE.height - PAGE.padding - PAGE.footer - SECTION_HEADER_HEIGHT;
+  return {
+    width: (CONTENT_WIDTH - GAP * (columns - 1)) / columns,
+    height: (height - GAP * (rows - 1)) / rows,
+  };
+};
+
+const sectionAnchor = (category: Category) => `category-${category.id}`;
+
+// --- STYLES ---
+
+const styles = StyleSheet.create({
+  page: {
+    backgroundColor: "#FFFFFF",
+    paddingTop: PAGE.padding,
+    paddingBottom: PAGE.footer,
+    paddingHorizontal: PAGE.padding,
+    fontFamily: "Helvetica",
+    color: "#111827",
+  },
+  cover: {
+    backgroundColor: BRAND_COLOR,
+    color: "#FFFFFF",
+    padding: 60,
+    fontFamily: "Helvetica",
+    justifyContent: "space-between",
+  },
+  coverEyebrow: {
+    fontSize: 12,
+    letterSpacing: 2,
+    textTransform: "uppercase",
+    opacity: 0.8,
+  },
+  coverTitle: {
+    fontSize: 44,
+    fontFamily: "Helvetica-Bold",
+    marginTop: 12,
+  },
+  coverSubtitle: {
+    fontSize: 18,
+    marginTop: 12,
+  },
+  coverMeta: {
+    fontSize: 11,
+    opacity: 0.8,
+  },
+  heading: {
+    fontSize: 22,
+    fontFamily: "Helvetica-Bold",
+    marginBottom: 20,
+  },
+  tocEntry: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    fontSize: 12,
+    color: "#111827",
+    textDecoration: "none",
+  },
+  tocCount: {
+    color: "#6b7280",
+  },
+  sectionHeader: {
+    height: SECTION_HEADER_HEIGHT,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: "Helvetica-Bold",
+    color: BRAND_COLOR,
+  },
+  sectionMeta: {
+    maxWidth: "50%",
+    fontSize: 9,
+    color: "#6b7280",
+    textAlign: "right",
+    maxLines: 2,
+    textOverflow: "ellipsis",
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: GAP,
+  },
+  card: {
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 6,
+    overflow: "hidden",
+  },
+  cardImage: {
+    objectFit: "cover",
+  },
+  cardPlaceholder: {
+    backgroundColor: "#f3f4f6",
+    justifyContent: "center",
+    alignItems: "center",
+    fontSize: 9,
+    color: "#9ca3af",
+  },
+  cardBody: {
+    flex: 1,
+    padding: 8,
+  },
+  cardName: {
+    fontSize: 11,
+    fontFamily: "Helvetica-Bold",
+    maxLines: 1,
+    textOverflow: "ellipsis",
+  },
+  cardDescription: {
+    flex: 1,
+    fontSize: 8,
+    color: "#4b5563",
+    marginTop: 3,
+    maxLines: 3,
+    textOverflow: "ellipsis",
+  },
+  cardFooter: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end",
+  },
+  cardPrice: {
+    fontSize: 13,
+    fontFamily: "Helvetica-Bold",
+    color: BRAND_COLOR,
+  },
+  footer: {
+    position: "absolute",
+    bottom: 20,
+    left: PAGE.padding,
+    right: PAGE.padding,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    fontSize: 8,
+    color: "#6b7280",
+  },
+});
+
+// --- COMPONENTS ---
+
+const QrCode = ({ matrix, size }: { matrix: QrMatrix; size: number }) => (
+  <Svg width={size} height={size} viewBox={`0 0 ${matrix.size} ${matrix.size}`}>
+    <Path d={matrix.path} fill="#000000" />
+  </Svg>
+);
+
+const ProductCard = ({
+  product,
+  assets,
+  layout,
+  priceFormat,
+}: {
+  product: Product;
+  assets: CatalogAssets;
+  layout: CatalogLayout;
+  priceFormat?: PriceFormat;
+}) => {
+  const { width, height } = cardSize(layout);
+  const imageHeight = (width * 9) / 16; // Same aspect as the catalog cards
+  const image = assets.images.get(product.id);
+  const qrCode = assets.qrCodes.get(product.id);
+
+  return (
+    <View style={[styles.card, { width, height }]} wrap={false}>
+      {image ? (
+        <Image src={image} style={[styles.cardImage, { height: imageHeight }]} />
+      ) : (
+        <View style={[styles.cardPlaceholder, { height: imageHeight }]}>
+          <Text>No image</Text>
+        </View>
+      )}
+      <View style={styles.cardBody}>
+        <Text style={styles.cardName}>{product.name}</Text>
+        <Text style={styles.cardDescription}>{product.description}</Text>
+        <View style={styles.cardFooter}>
+          <Text style={styles.cardPrice}>
+            {formatPriceRange(product, priceFormat)}
+          </Text>
+          {qrCode && (
+            <Link src={catalogProductUrl(product)}>
+              <QrCode matrix={qrCode} size={layout === "2x3" ? 44 : 34} />
+            </Link>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const PageFooter = ({ title }: { title: string }) => (
+  <View style={styles.footer} fixed>
+    <Text>{title}</Text>
+    <Text
+      render={({ pageNumber, totalPages }) =>
+        `Page ${pageNumber} of ${totalPages}`
+      }
+    />
+  </View>
+);
+
+// --- DOCUMENT ---
+
+interface CatalogPDFProps {
+  sections: CatalogSection[]; // Categories in order, without empty ones
+  assets: CatalogAssets;
+  options: CatalogOptions;
+  title: string;
+  subtitle: string; // e.g. the category, or "All categories"
+  priceFormat?: PriceFormat; // Base currency when unset
+}
+
+/**
+ * Customer-facing catalog: a branded cover, a table of contents, then one
+ * section per category with the products as cards. Every section starts on
+ * a new page and pages are laid out here, so the contents can list the page
+ * each section starts on.
+ */
+export const CatalogPDF: React.FC<CatalogPDFProps> = ({
+  sections,
+  assets,
+  options,
+  title,
+  subtitle,
+  priceFormat,
+}) => {
+  const { columns, rows } = CATALOG_LAYOUTS[options.layout];
+  const tocPages = chunk(sections, TOC_ENTRIES_PER_PAGE);
+  const productCount = sections.reduce(
+    (total, section) => total + section.products.length,
+    0,
+  );
+
+  // The cover is page 1, followed by the contents
+  let nextPage = 1 + tocPages.length + 1;
+  const laidOut = sections.map((section) => {
+    const pages = chunk(section.products, columns * rows);
+    const startPage = nextPage;
+    nextPage += pages.length;
+    return { ...section, pages, startPage };
+  });
+
+  return (
+    <Document title={`${title} – ${subtitle}`}>
+      {/* Cover */}
+      <Page size="A4" style={styles.cover}>
+        <View>
+          <Text style={styles.coverEyebrow}>{subtitle}</Text>
+          <Text style={styles.coverTitle}>{title}</Text>
+          <Text style={styles.coverSubtitle}>
+            {productCount} products in {sections.length} categories
+          </Text>
+        </View>
+        <Text style={styles.coverMeta}>
+          {new Date().toLocaleDateString(undefined, { dateStyle: "long" })} ·
+          Prices may change without notice
+        </Text>
+      </Page>
+
+      {/* Table of contents */}
+      {tocPages.map((entries, pageIndex) => (
+        <Page
+          key={`toc-${entries[0].category.id}`}
+          size="A4"
+          style={styles.page}
+        >
+          {pageIndex === 0 && <Text style={styles.heading}>Contents</Text>}
+          {entries.map(({ category, title: sectionTitle }) => {
+            const section = laidOut.find(
+              (item) => item.category.id === category.id,
+            );
+            return (
+              <Link
+                key={category.id}
+                src={`#${sectionAnchor(category)}`}
+                style={styles.tocEntry}
+              >
+                <Text>
+                  {sectionTitle}{" "}
+                  <Text style={styles.tocCount}>
+                    ({section?.products.length ?? 0})
+                  </Text>
+                </Text>
+                <Text>{section?.startPage}</Text>
+              </Link>
+            );
+          })}
+          <PageFooter title={title} />
+        </Page>
+      ))}
+
+      {/* Category sections */}
+      {laidOut.flatMap((section) =>
+        section.pages.map((products, pageIndex) => (
+          <Page
+            key={`${section.category.id}-${products[0].id}`}
+            size="A4"
+            style={styles.page}
+          >
+            <View
+              style={styles.sectionHeader}
+              id={pageIndex === 0 ? sectionAnchor(section.category) : undefined}
+            >
+              <Text style={styles.sectionTitle}>
+                {section.title}
+                {pageIndex > 0 ? " (continued)" : ""}
+              </Text>
+              {pageIndex === 0 && section.category.description && (
+                <Text style={styles.sectionMeta}>
+                  {section.category.description}
+                </Text>
+              )}
+            </View>
+            <View style={styles.grid}>
+              {products.map((product) => (
+                <ProductCard
+                  key={product.id}
+                  product={product}
+                  assets={assets}
+                  layout={options.layout}
+                  priceFormat={priceFormat}
+                />
+              ))}
+            </View>
+            <PageFooter title={`${title} · ${section.category.name}`} />
+          </Page>
+        )),
+      )}
+    </Document>
+  );
+};
+
+// --- DOWNLOAD ---
+
+/**
+ * Prepares the assets, renders the catalog and downloads it.
+ */
+export async function downloadCatalogPdf(
+  props: Omit<CatalogPDFProps, "assets">,
+  fileName: string, // Without extension
+  onProgress?: (done: number, total: number) => void,
+): Promise<void> {
+  const assets = await prepareCatalogAssets(
+    props.sections,
+    props.options,
+    onProgress,
+  );
+  const blob = await pdf(<CatalogPDF {...props} assets={assets} />).toBlob();
+  downloadBlob(blob, `${fileName}.pdf`);
+}
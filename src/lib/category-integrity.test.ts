@@ -0,0 +1,148 @@
+import { type BatchProgress, dataSource, getRepository } from "@/lib/data";
+import type { Category, Product } from "@/lib/export";
+import { listMovementIds } from "@/lib/inventory";
+import {
+  clearCollections,
+  clearProducts,
+  makeCategory,
+  makeProduct,
+  seed,
+  seedMovements,
+} from "@/test/fixtures";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  deleteCategory,
+  findOrphanedProducts,
+  fixProducts,
+} from "./category-integrity";
+
+const categories = () => getRepository<Category>("categories").list();
+const products = () => getRepository<Product>("products").list();
+
+// Counts the batches committed from here on
+const countBatches = () => vi.spyOn(dataSource, "batch");
+
+const manyProducts = (count: number, categoryId: string) =>
+  Array.from({ length: count }, (_, i) => makeProduct(`p${i}`, { categoryId }));
+
+beforeEach(async () => {
+  await clearProducts();
+  await clearCollections("categories");
+  await seed("categories", [
+    makeCategory("drinks", "Drinks"),
+    makeCategory("coffee", "Coffee", "drinks"),
+    makeCategory("beans", "Beans", "coffee"),
+    makeCategory("tea", "Tea"),
+  ]);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("findOrphanedProducts", () => {
+  it("finds products without an existing category", () => {
+    const orphaned = findOrphanedProducts(
+      [
+        makeProduct("p1", { categoryId: "tea" }),
+        makeProduct("p2", { categoryId: "gone" }),
+        makeProduct("p3"),
+      ],
+      [{ id: "tea" }],
+    );
+    expect(orphaned.map((prod) => prod.id)).toEqual(["p2", "p3"]);
+  });
+});
+
+describe("deleteCategory", () => {
+  it("refuses to delete a category with products in block mode", async () => {
+    await seed("products", [makeProduct("p1", { categoryId: "tea" })]);
+    await expect(deleteCategory("tea", { mode: "block" })).rejects.toThrow(
+      "1 products still use this category",
+    );
+    expect(await categories()).toHaveLength(4);
+  });
+
+  it("moves subcategories up to the deleted category's parent", async () => {
+    await deleteCategory("coffee", { mode: "block" });
+    const beans = (await categories()).find((cat) => cat.id === "beans");
+    expect(beans?.parentId).toBe("drinks");
+  });
+
+  it("refuses to reassign products to the same category", async () => {
+    await expect(
+      deleteCategory("tea", { mode: "reassign", targetCategoryId: "tea" }),
+    ).rejects.toThrow("Choose a different category");
+  });
+
+  it("reassigns products and deletes the category in one batch", async () => {
+    await seed("products", manyProducts(3, "tea"));
+    const batches = countBatches();
+    const result = await deleteCategory("tea", {
+      mode: "reassign",
+      targetCategoryId: "drinks",
+    });
+    expect(batches).toHaveBeenCalledTimes(1);
+    expect(result.succeeded).toHaveLength(3);
+    expect(
+      (await products()).every((prod) => prod.categoryId === "drinks"),
+    ).toBe(true);
+    expect((await categories()).map((cat) => cat.id)).not.toContain("tea");
+  });
+
+  it("deletes products with their stock history in cascade mode", async () => {
+    await seed("products", manyProducts(2, "tea"));
+    await seedMovements("p0", 3);
+    await deleteCategory("tea", { mode: "cascade" });
+    expect(await products()).toEqual([]);
+    expect(await listMovementIds("p0")).toEqual([]);
+  });
+
+  it("deletes the category after the products once they don't fit in a batch", async () => {
+    await seed("products", manyProducts(500, "tea"));
+    const batches = countBatches();
+    const progress: BatchProgress[] = [];
+    const result = await deleteCategory(
+      "tea",
+      { mode: "reassign", targetCategoryId: "drinks" },
+      (update) => progress.push(update),
+    );
+    // The products, then the category
+    expect(batches).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ succeeded: expect.any(Array), failed: [] });
+    expect(progress.at(-1)).toEqual({ done: 500, total: 500, failed: 0 });
+    expect((await categories()).map((cat) => cat.id)).not.toContain("tea");
+  });
+});
+
+describe("fixProducts", () => {
+  it("counts movements towards the batch size", async () => {
+    await seed("products", manyProducts(2, ""));
+    await seedMovements("p0", 300);
+    await seedMovements("p1", 300);
+    const batches = countBatches();
+    const result = await fixProducts(await products(), { mode: "cascade" });
+    // 301 writes each: they can't share a batch
+    expect(batches).toHaveBeenCalledTimes(2);
+    expect(result.succeeded).toHaveLength(2);
+    expect(await listMovementIds("p0")).toEqual([]);
+  });
+
+  it("deletes a product whose history exceeds a batch on its own", async () => {
+    await seed("products", manyProducts(2, ""));
+    await seedMovements("p0", 500);
+    const progress: BatchProgress[] = [];
+    const result = await fixProducts(
+      await products(),
+      { mode: "cascade" },
+      (update) => progress.push(update),
+    );
+    expect(result.succeeded.map((prod) => prod.id).sort()).toEqual([
+      "p0",
+      "p1",
+    ]);
+    expect(progress.at(-1)).toEqual({ done: 2, total: 2, failed: 0 });
+    expect(await products()).toEqual([]);
+    expect(await listMovementIds("p0")).toEqual([]);
+  });
+});
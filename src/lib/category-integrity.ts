@@ -0,0 +1,242 @@
+// category-integrity.ts
+// Products reference their category by ID, so renaming a category is
+// always safe but deleting one is not: its products would point at nothing,
+// export as "Uncategorized" and disappear from the catalog. Deletes go
+// through `deleteCategory`, which decides what happens to those products,
+// and `findOrphanedProducts` finds the ones left over from before. A
+// deleted category's subcategories move up to its parent.
+
+import {
+  type BatchProgress,
+  type BatchResult,
+  MAX_BATCH_WRITES,
+  type WriteBatch,
+  dataSource,
+  getRepository,
+  writeInBatches,
+} from "@/lib/data";
+import { type Category, type Product, getProductImages } from "@/lib/export";
+import {
+  deleteProduct,
+  listMovementIds,
+  queueProductDelete,
+} from "@/lib/inventory";
+import { deleteProductImage } from "@/lib/product-images";
+
+// What to do with the products of a category being deleted
+export type CategoryDeleteStrategy =
+  | { mode: "block" } // Refuse to delete a category that has products
+  | { mode: "reassign"; targetCategoryId: string }
+  | { mode: "cascade" }; // Delete the products too
+
+/**
+ * Products whose category doesn't exist (or who have none). Only
+ * meaningful once the categories have loaded.
+ */
+export const findOrphanedProducts = (
+  products: Product[],
+  categories: Pick<Category, "id">[],
+) => {
+  const ids = new Set(categories.map((cat) => cat.id));
+  return products.filter((prod) => !ids.has(prod.categoryId));
+};
+
+const productsInCategory = (categoryId: string) =>
+  getRepository<Product>("products").list({
+    where: [{ field: "categoryId", op: "==", value: categoryId }],
+  });
+
+// What deleting a category writes besides its products
+interface CategoryDeletePlan {
+  categoryId: string;
+  parentId?: string; // Where its subcategories move
+  children: Category[];
+}
+
+/**
+ * Reads the category's subcategories, which move up to its own parent so
+ * they (and their products) stay in the tree.
+ */
+async function planCategoryDelete(
+  categoryId: string,
+): Promise<CategoryDeletePlan> {
+  const categories = getRepository<Category>("categories");
+  const [category, children] = await Promise.all([
+    categories.get(categoryId),
+    categories.list({
+      where: [{ field: "parentId", op: "==", value: categoryId }],
+    }),
+  ]);
+  return { categoryId, parentId: category?.parentId, children };
+}
+
+// One update per subcategory, plus the delete itself
+const categoryWrites = (plan: CategoryDeletePlan) => plan.children.length + 1;
+
+const moveChild =
+  (plan: CategoryDeletePlan) => (batch: WriteBatch, child: Category) =>
+    batch.update<Category>("categories", child.id, { parentId: plan.parentId });
+
+const queueCategoryDelete = (batch: WriteBatch, plan: CategoryDeletePlan) => {
+  for (const child of plan.children) moveChild(plan)(batch, child);
+  batch.delete("categories", plan.categoryId);
+};
+
+/**
+ * Deletes a category whose products are already taken care of. With more
+ * subcategories than a batch holds, they're moved first and the category
+ * is only deleted once they all were.
+ */
+async function deleteCategoryAlone(plan: CategoryDeletePlan) {
+  const batch = dataSource.batch();
+  if (categoryWrites(plan) <= MAX_BATCH_WRITES) {
+    queueCategoryDelete(batch, plan);
+  } else {
+    const result = await writeInBatches(plan.children, moveChild(plan));
+    if (result.failed.length > 0) throw result.failed[0].error;
+    batch.delete("categories", plan.categoryId);
+  }
+  await batch.commit();
+}
+
+type ProductStrategy = Exclude<CategoryDeleteStrategy, { mode: "block" }>;
+
+// Product ID → its stock movements, which are deleted with it
+type MovementIds = Map<string, string[]>;
+
+const listMovements = async (
+  products: Product[],
+  strategy: ProductStrategy,
+): Promise<MovementIds> =>
+  strategy.mode === "cascade"
+    ? new Map(
+        await Promise.all(
+          products.map(
+            async (product) =>
+              [product.id, await listMovementIds(product.id)] as const,
+          ),
+        ),
+      )
+    : new Map();
+
+const writeProduct =
+  (strategy: ProductStrategy, movements: MovementIds) =>
+  (batch: WriteBatch, product: Product) =>
+    strategy.mode === "reassign"
+      ? batch.update<Product>("products", product.id, {
+          categoryId: strategy.targetCategoryId,
+        })
+      : queueProductDelete(batch, product.id, movements.get(product.id) ?? []);
+
+const productWrites = (movements: MovementIds) => (product: Product) =>
+  1 + (movements.get(product.id)?.length ?? 0);
+
+// Storage files aren't part of the batch; they go once the products have
+const deleteImages = (products: Product[]) => {
+  for (const product of products) {
+    for (const image of getProductImages(product)) deleteProductImage(image);
+  }
+};
+
+/**
+ * Reassigns or deletes products in batches, e.g. to fix orphaned ones.
+ * Deleted products take their stock history with them; a history too long
+ * to share a batch is deleted on its own, product by product.
+ */
+export async function fixProducts(
+  products: Product[],
+  strategy: ProductStrategy,
+  onProgress?: (progress: BatchProgress) => void,
+): Promise<BatchResult<Product>> {
+  const movements = await listMovements(products, strategy);
+  const writes = productWrites(movements);
+  const oversized = products.filter(
+    (product) => writes(product) > MAX_BATCH_WRITES,
+  );
+  const batched = products.filter(
+    (product) => writes(product) <= MAX_BATCH_WRITES,
+  );
+  const total = products.length;
+
+  const result = await writeInBatches(
+    batched,
+    writeProduct(strategy, movements),
+    {
+      writesPerItem: writes,
+      onProgress: (progress) => onProgress?.({ ...progress, total }),
+    },
+  );
+
+  const progress: BatchProgress = {
+    done: batched.length,
+    total,
+    failed: batched.length - result.succeeded.length,
+  };
+  for (const product of oversized) {
+    try {
+      await deleteProduct(product.id);
+      result.succeeded.push(product);
+    } catch (error) {
+      console.error("Product delete failed: ", error);
+      result.failed.push({ items: [product], error: error as Error });
+      progress.failed++;
+    }
+    progress.done++;
+    onProgress?.({ ...progress });
+  }
+
+  if (strategy.mode === "cascade") deleteImages(result.succeeded);
+  return result;
+}
+
+/**
+ * Deletes a category, handling its products according to `strategy`. The
+ * products are read at write time, so ones added since the dialog opened
+ * aren't missed. When every write (products, subcategories and the
+ * category) fits in a batch, they go in one atomic batch. Beyond that the
+ * products go in batches first, and the category is only deleted if they
+ * all succeeded, so a retry picks up where a failure left off.
+ */
+export async function deleteCategory(
+  categoryId: string,
+  strategy: CategoryDeleteStrategy,
+  onProgress?: (progress: BatchProgress) => void,
+): Promise<BatchResult<Product>> {
+  const [products, plan] = await Promise.all([
+    productsInCategory(categoryId),
+    planCategoryDelete(categoryId),
+  ]);
+
+  if (strategy.mode === "block") {
+    if (products.length > 0) {
+      throw new Error(
+        `${products.length} products still use this category. Reassign or delete them first.`,
+      );
+    }
+    await deleteCategoryAlone(plan);
+    return { succeeded: [], failed: [] };
+  }
+  if (strategy.mode === "reassign" && strategy.targetCategoryId === categoryId) {
+    throw new Error("Choose a different category to move the products to.");
+  }
+
+  const movements = await listMovements(products, strategy);
+  const productTotal = products
+    .map(productWrites(movements))
+    .reduce((sum, writes) => sum + writes, 0);
+  if (productTotal + categoryWrites(plan) <= MAX_BATCH_WRITES) {
+    const batch = dataSource.batch();
+    for (const product of products) {
+      writeProduct(strategy, movements)(batch, product);
+    }
+    queueCategoryDelete(batch, plan);
+    await batch.commit();
+    onProgress?.({ done: products.length, total: products.length, failed: 0 });
+    if (strategy.mode === "cascade") deleteImages(products);
+    return { succeeded: products, failed: [] };
+  }
+
+  const result = await fixProducts(products, strategy, onProgress);
+  if (result.failed.length === 0) await deleteCategoryAlone(plan);
+  return result;
+}
@@ -0,0 +1,98 @@
+import type { Category } from "@/lib/export";
+import { makeCategory } from "@/test/fixtures";
+import { describe, expect, it } from "vitest";
+import {
+  buildCategoryTree,
+  categoryAncestry,
+  categoryPathMap,
+  descendantIds,
+  flattenCategoryTree,
+  indentedCategoryName,
+  wouldCreateCycle,
+} from "./category-tree";
+
+const categories = [
+  makeCategory("beans", "Beans", "coffee"),
+  makeCategory("tea", "Tea", "drinks"),
+  makeCategory("coffee", "Coffee", "drinks"),
+  makeCategory("drinks", "Beverages"),
+  makeCategory("snacks", "Snacks"),
+  makeCategory("orphan", "Orphan", "deleted"),
+];
+
+const names = (list: Category[]) => list.map((cat) => cat.name);
+
+describe("buildCategoryTree", () => {
+  it("nests categories under their parents, sorted by name", () => {
+    const flat = flattenCategoryTree(buildCategoryTree(categories));
+    const indent = "\u00a0\u00a0";
+    expect(flat.map(indentedCategoryName)).toEqual([
+      "Beverages",
+      `${indent}Coffee`,
+      `${indent}${indent}Beans`,
+      `${indent}Tea`,
+      "Orphan",
+      "Snacks",
+    ]);
+  });
+
+  it("shows categories caught in a cycle as roots", () => {
+    const tree = buildCategoryTree([
+      makeCategory("a", "A", "b"),
+      makeCategory("b", "B", "a"),
+    ]);
+    expect(
+      flattenCategoryTree(tree).map(({ category, depth }) => [
+        category.id,
+        depth,
+      ]),
+    ).toEqual([
+      ["a", 0],
+      ["b", 1],
+    ]);
+  });
+});
+
+describe("categoryAncestry", () => {
+  it("lists the ancestors, root first", () => {
+    expect(names(categoryAncestry("beans", categories))).toEqual([
+      "Beverages",
+      "Coffee",
+      "Beans",
+    ]);
+  });
+
+  it("stops at a cycle", () => {
+    const cycle = [makeCategory("a", "A", "b"), makeCategory("b", "B", "a")];
+    expect(names(categoryAncestry("a", cycle))).toEqual(["B", "A"]);
+  });
+});
+
+describe("categoryPathMap", () => {
+  it("maps each category to its full path", () => {
+    const paths = categoryPathMap(categories);
+    expect(paths.get("beans")).toBe("Beverages > Coffee > Beans");
+    expect(paths.get("orphan")).toBe("Orphan");
+  });
+});
+
+describe("descendantIds", () => {
+  it("includes the category and everything below it", () => {
+    expect(descendantIds("drinks", categories)).toEqual(
+      new Set(["drinks", "coffee", "beans", "tea"]),
+    );
+    expect(descendantIds("snacks", categories)).toEqual(new Set(["snacks"]));
+  });
+});
+
+describe("wouldCreateCycle", () => {
+  it("rejects moving a category under itself or a descendant", () => {
+    expect(wouldCreateCycle("drinks", "drinks", categories)).toBe(true);
+    expect(wouldCreateCycle("drinks", "beans", categories)).toBe(true);
+  });
+
+  it("allows any other parent, or none", () => {
+    expect(wouldCreateCycle("beans", "snacks", categories)).toBe(false);
+    expect(wouldCreateCycle("coffee", undefined, categories)).toBe(false);
+  });
+});
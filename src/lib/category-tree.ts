@@ -0,0 +1,139 @@
+// category-tree.ts
+// Categories form a tree through `parentId` (e.g. Beverages → Coffee →
+// Beans). A category whose parent is missing is treated as a root, so a
+// dangling reference never hides a branch. Cycles are rejected when
+// editing (`wouldCreateCycle`); every walk here also stops at a repeated
+// node, so data written around that check can't hang the app.
+
+import type { Category } from "@/lib/export";
+
+// Shown between the levels of a category path
+export const CATEGORY_PATH_SEPARATOR = " > ";
+
+export interface CategoryNode {
+  category: Category;
+  children: CategoryNode[]; // Sorted by name
+  depth: number; // 0 for roots
+}
+
+const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+
+/**
+ * Parent ID → children, sorted by name. Roots are under `undefined`.
+ */
+export function childrenByParent(categories: Category[]) {
+  const ids = new Set(categories.map((cat) => cat.id));
+  const children = new Map<string | undefined, Category[]>();
+  for (const cat of [...categories].sort(byName)) {
+    const parentId =
+      cat.parentId && ids.has(cat.parentId) && cat.parentId !== cat.id
+        ? cat.parentId
+        : undefined;
+    children.set(parentId, [...(children.get(parentId) ?? []), cat]);
+  }
+  return children;
+}
+
+/**
+ * The categories as a tree, roots first.
+ */
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const children = childrenByParent(categories);
+  const visited = new Set<string>();
+  const build = (parentId: string | undefined, depth: number): CategoryNode[] =>
+    (children.get(parentId) ?? [])
+      .filter((cat) => !visited.has(cat.id))
+      .map((category) => {
+        visited.add(category.id);
+        return { category, children: build(category.id, depth + 1), depth };
+      });
+  const tree = build(undefined, 0);
+  // Categories caught in a cycle have no root above them; show them as
+  // roots rather than not at all
+  for (const category of [...categories].sort(byName)) {
+    if (!visited.has(category.id)) {
+      visited.add(category.id);
+      tree.push({ category, children: build(category.id, 1), depth: 0 });
+    }
+  }
+  return tree;
+}
+
+/**
+ * Every node, depth-first: parents right before their children.
+ */
+export const flattenCategoryTree = (nodes: CategoryNode[]): CategoryNode[] =>
+  nodes.flatMap((node) => [node, ...flattenCategoryTree(node.children)]);
+
+/**
+ * The name indented by depth, for `<option>`s listed in tree order.
+ */
+export const indentedCategoryName = ({
+  category,
+  depth,
+}: Pick<CategoryNode, "category" | "depth">) =>
+  `${"\u00a0\u00a0".repeat(depth)}${category.name}`;
+
+/**
+ * The category and its ancestors, root first.
+ */
+export function categoryAncestry(
+  categoryId: string,
+  categories: Category[],
+): Category[] {
+  const byId = new Map(categories.map((cat) => [cat.id, cat]));
+  const path: Category[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(categoryId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Category ID → full path, e.g. "Beverages > Coffee > Beans". Use it
+ * wherever a category name is shown out of context, such as exports.
+ */
+export const categoryPathMap = (categories: Category[]) =>
+  new Map(
+    categories.map((cat) => [
+      cat.id,
+      categoryAncestry(cat.id, categories)
+        .map((ancestor) => ancestor.name)
+        .join(CATEGORY_PATH_SEPARATOR),
+    ]),
+  );
+
+/**
+ * The category and everything below it.
+ */
+export function descendantIds(
+  categoryId: string,
+  categories: Category[],
+): Set<string> {
+  const children = childrenByParent(categories);
+  const ids = new Set<string>();
+  const visit = (id: string) => {
+    if (ids.has(id)) return;
+    ids.add(id);
+    for (const child of children.get(id) ?? []) visit(child.id);
+  };
+  visit(categoryId);
+  return ids;
+}
+
+/**
+ * True if making `parentId` the parent of `categoryId` would put the
+ * category under itself.
+ */
+export const wouldCreateCycle = (
+  categoryId: string,
+  parentId: string | undefined,
+  categories: Category[],
+) =>
+  parentId !== undefined &&
+  (parentId === categoryId ||
+    categoryAncestry(parentId, categories).some((cat) => cat.id === categoryId));
@@ -0,0 +1,80 @@
+import {
+  BASE_CURRENCY,
+  type CurrencyCode,
+  type ExchangeRates,
+  type PriceFormat,
+  isCurrencyCode,
+  resolveExchangeRates,
+  toPriceFormat,
+} from "@/lib/currency";
+import { formatPrice } from "@/lib/export";
+import { safeSetItem } from "@/lib/local-storage";
+import { useExchangeRates } from "@/lib/queries/exchange-rates";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useState,
+} from "react";
+
+export interface CurrencyState {
+  currency: CurrencyCode; // The display currency
+  setCurrency: (currency: CurrencyCode) => void;
+  rates: ExchangeRates;
+  priceFormat: PriceFormat; // Pass to `formatPrice` and the exports
+  formatPrice: (price: number) => string; // In the display currency
+  // For amounts already in the display currency, e.g. a price filter
+  formatAmount: (amount: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyState | null>(null);
+
+// The display currency is a per-browser preference
+const CURRENCY_KEY = "display-currency";
+
+const loadCurrency = (): CurrencyCode => {
+  try {
+    const stored = localStorage.getItem(CURRENCY_KEY);
+    return isCurrencyCode(stored) ? stored : BASE_CURRENCY;
+  } catch {
+    return BASE_CURRENCY;
+  }
+};
+
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [currency, setCurrencyState] = useState(loadCurrency);
+  const { data: stored = [] } = useExchangeRates();
+
+  const setCurrency = useCallback((next: CurrencyCode) => {
+    setCurrencyState(next);
+    safeSetItem(CURRENCY_KEY, next);
+  }, []);
+
+  const value = useMemo<CurrencyState>(() => {
+    const rates = resolveExchangeRates(stored);
+    const priceFormat = toPriceFormat(currency, rates);
+    return {
+      currency,
+      setCurrency,
+      rates,
+      priceFormat,
+      formatPrice: (price) => formatPrice(price, priceFormat),
+      formatAmount: (amount) => formatPrice(amount, { currency, rate: 1 }),
+    };
+  }, [currency, setCurrency, stored]);
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency(): CurrencyState {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error("useCurrency must be used within a CurrencyProvider");
+  }
+  return context;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  BASE_PRICE_FORMAT,
+  DEFAULT_EXCHANGE_RATES,
+  type ExchangeRate,
+  convertPrice,
+  isCurrencyCode,
+  resolveExchangeRates,
+  toBasePrice,
+  toPriceFormat,
+} from "./currency";
+
+const storedRate = (currency: string, rate: number) =>
+  ({ id: currency, currency, rate }) as ExchangeRate;
+
+describe("isCurrencyCode", () => {
+  it("accepts only known currencies", () => {
+    expect(isCurrencyCode("NIO")).toBe(true);
+    expect(isCurrencyCode("nio")).toBe(false);
+    expect(isCurrencyCode(undefined)).toBe(false);
+  });
+});
+
+describe("resolveExchangeRates", () => {
+  it("uses the defaults until a rate is saved", () => {
+    expect(resolveExchangeRates([])).toEqual(DEFAULT_EXCHANGE_RATES);
+  });
+
+  it("prefers stored rates and ignores invalid ones", () => {
+    expect(
+      resolveExchangeRates([
+        storedRate("NIO", 37),
+        storedRate("USD", 2),
+        storedRate("EUR", 0.9),
+      ]),
+    ).toEqual({ USD: 1, NIO: 37 });
+    expect(resolveExchangeRates([storedRate("NIO", 0)]).NIO).toBe(
+      DEFAULT_EXCHANGE_RATES.NIO,
+    );
+  });
+});
+
+describe("convertPrice", () => {
+  it("converts at the format's rate, rounded to cents", () => {
+    const format = toPriceFormat("NIO", { USD: 1, NIO: 36.6243 });
+    expect(format).toEqual({ currency: "NIO", rate: 36.6243 });
+    expect(convertPrice(2.5, format)).toBe(91.56);
+    expect(convertPrice(2.5, BASE_PRICE_FORMAT)).toBe(2.5);
+  });
+
+  it("converts display amounts back to the base currency", () => {
+    const format = toPriceFormat("NIO", { USD: 1, NIO: 36.6243 });
+    expect(toBasePrice(500, format)).toBe(13.65);
+    expect(convertPrice(toBasePrice(91.56, format), format)).toBe(91.56);
+  });
+
+  it("treats a missing price as 0", () => {
+    expect(convertPrice(Number.NaN, BASE_PRICE_FORMAT)).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+// currency.ts
+// Prices are stored in the base currency (USD). Other currencies are shown
+// by converting with the exchange-rate table, which editors maintain in the
+// `exchangeRates` collection: one document per currency, with the units of
+// that currency one base unit buys. Nothing is fetched from outside.
+
+// --- CURRENCIES ---
+
+export type CurrencyCode = "USD" | "NIO";
+
+export interface CurrencyInfo {
+  label: string;
+  locale: string; // Formats amounts the way local customers expect
+  xlsxFormat: string; // Excel number format for price cells
+}
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  USD: { label: "US Dollar", locale: "en-US", xlsxFormat: '"$"#,##0.00' },
+  NIO: { label: "Córdoba", locale: "es-NI", xlsxFormat: '"C$"#,##0.00' },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+export const BASE_CURRENCY: CurrencyCode = "USD";
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  CURRENCY_CODES.includes(value as CurrencyCode);
+
+// --- EXCHANGE RATES ---
+
+export interface ExchangeRate {
+  id: string;
+  currency: CurrencyCode;
+  rate: number; // Units of `currency` per base unit
+  createdAt?: Date; // Set by the data source on create
+  updatedAt?: Date; // Set by the data source on update
+}
+
+export type ExchangeRates = Record<CurrencyCode, number>;
+
+export const exchangeRatesCollection = "exchangeRates";
+
+// Used until a rate is saved: the Central Bank of Nicaragua's fixed rate
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  USD: 1,
+  NIO: 36.6243,
+};
+
+/**
+ * The stored rates over the defaults. The base currency is always 1.
+ */
+export const resolveExchangeRates = (stored: ExchangeRate[]): ExchangeRates => {
+  const rates = { ...DEFAULT_EXCHANGE_RATES };
+  for (const { currency, rate } of stored) {
+    if (isCurrencyCode(currency) && rate > 0) rates[currency] = rate;
+  }
+  rates[BASE_CURRENCY] = 1;
+  return rates;
+};
+
+// --- FORMATTING ---
+
+// How prices are shown: in which currency, at which rate
+export interface PriceFormat {
+  currency: CurrencyCode;
+  rate: number; // Units of `currency` per base unit
+}
+
+export const BASE_PRICE_FORMAT: PriceFormat = {
+  currency: BASE_CURRENCY,
+  rate: 1,
+};
+
+export const toPriceFormat = (
+  currency: CurrencyCode,
+  rates: ExchangeRates,
+): PriceFormat => ({ currency, rate: rates[currency] });
+
+/**
+ * A base-currency price in the display currency, rounded to cents.
+ */
+export const convertPrice = (price: number, { rate }: PriceFormat) =>
+  Math.round((price || 0) * rate * 100) / 100;
+
+/**
+ * The reverse of `convertPrice`: an amount in the display currency back in
+ * the base currency, rounded to cents.
+ */
+export const toBasePrice = (amount: number, { rate }: PriceFormat) =>
+  Math.round(((amount || 0) / rate) * 100) / 100;
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { applyDocumentChanges, diffDocuments } from "./changes";
+
+const docs = (...ids: string[]) => ids.map((id) => ({ id }));
+
+describe("diffDocuments", () => {
+  it("reports every item of an empty list as added", () => {
+    expect(diffDocuments([], docs("a", "b"), new Set())).toEqual([
+      { type: "added", doc: { id: "a" }, oldIndex: -1, newIndex: 0 },
+      { type: "added", doc: { id: "b" }, oldIndex: -1, newIndex: 1 },
+    ]);
+  });
+
+  it("reports removals with indices of the shrinking list", () => {
+    expect(diffDocuments(docs("a", "b", "c"), docs("b"), new Set())).toEqual([
+      { type: "removed", doc: { id: "c" }, oldIndex: 2, newIndex: -1 },
+      { type: "removed", doc: { id: "a" }, oldIndex: 0, newIndex: -1 },
+    ]);
+  });
+
+  it("reports moved items as modified", () => {
+    expect(diffDocuments(docs("a", "b"), docs("b", "a"), new Set())).toEqual([
+      { type: "modified", doc: { id: "b" }, oldIndex: 1, newIndex: 0 },
+    ]);
+  });
+
+  it("reports items in `modifiedIds` even when they stay in place", () => {
+    const next = [{ id: "a", name: "New" }];
+    expect(
+      diffDocuments([{ id: "a", name: "Old" }], next, new Set(["a"])),
+    ).toEqual([{ type: "modified", doc: next[0], oldIndex: 0, newIndex: 0 }]);
+  });
+
+  it("reports nothing when nothing changed", () => {
+    expect(diffDocuments(docs("a", "b"), docs("a", "b"), new Set())).toEqual(
+      [],
+    );
+  });
+});
+
+describe("applyDocumentChanges", () => {
+  it("rebuilds the new list from the changes", () => {
+    const cases: [string[], string[]][] = [
+      [[], ["a", "b", "c"]],
+      [["a", "b", "c"], []],
+      [
+        ["a", "b", "c"],
+        ["c", "b", "a"],
+      ],
+      [
+        ["a", "b", "c", "d"],
+        ["e", "c", "a", "f"],
+      ],
+      [
+        ["a", "b"],
+        ["b", "c", "a"],
+      ],
+    ];
+    for (const [before, after] of cases) {
+      const previous = docs(...before);
+      const next = docs(...after);
+      const changes = diffDocuments(previous, next, new Set());
+      expect(applyDocumentChanges(previous, changes)).toEqual(next);
+    }
+  });
+
+  it("keeps the identity of untouched items", () => {
+    const previous = docs("a", "b", "c");
+    const next = [previous[0], { id: "b" }, previous[2]];
+    const updated = applyDocumentChanges(
+      previous,
+      diffDocuments(previous, next, new Set(["b"])),
+    );
+    expect(updated[0]).toBe(previous[0]);
+    expect(updated[1]).toBe(next[1]);
+    expect(updated[2]).toBe(previous[2]);
+  });
+});
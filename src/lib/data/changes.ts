@@ -0,0 +1,63 @@
+// changes.ts
+
+import type { DocumentChange, Entity } from "./types";
+
+/**
+ * Applies subscriber changes to a previously received list, in order, the
+ * way Firestore documents `docChanges()`. Untouched items keep their object
+ * identity, so memoized rows don't re-render.
+ */
+export function applyDocumentChanges<T extends Entity>(
+  items: T[],
+  changes: DocumentChange<T>[],
+): T[] {
+  const next = [...items];
+  for (const change of changes) {
+    if (change.oldIndex !== -1) next.splice(change.oldIndex, 1);
+    if (change.newIndex !== -1) next.splice(change.newIndex, 0, change.doc);
+  }
+  return next;
+}
+
+/**
+ * Computes the changes that turn `previous` into `next`. Items whose ID is
+ * in `modifiedIds` are reported as "modified" even if they did not move.
+ * Used by backends that only know before/after lists (the local store).
+ */
+export function diffDocuments<T extends Entity>(
+  previous: T[],
+  next: T[],
+  modifiedIds: ReadonlySet<string>,
+): DocumentChange<T>[] {
+  const changes: DocumentChange<T>[] = [];
+  const nextIds = new Set(next.map((item) => item.id));
+  const working = [...previous];
+
+  // Removals first, with indices relative to the list as it shrinks.
+  for (let i = working.length - 1; i >= 0; i--) {
+    if (!nextIds.has(working[i].id)) {
+      changes.push({
+        type: "removed",
+        doc: working[i],
+        oldIndex: i,
+        newIndex: -1,
+      });
+      working.splice(i, 1);
+    }
+  }
+
+  // Then walk the target order, inserting or moving items into place.
+  next.forEach((item, newIndex) => {
+    const oldIndex = working.findIndex((w) => w.id === item.id);
+    if (oldIndex === -1) {
+      changes.push({ type: "added", doc: item, oldIndex: -1, newIndex });
+      working.splice(newIndex, 0, item);
+    } else if (oldIndex !== newIndex || modifiedIds.has(item.id)) {
+      changes.push({ type: "modified", doc: item, oldIndex, newIndex });
+      working.splice(oldIndex, 1);
+      working.splice(newIndex, 0, item);
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,294 @@
+// firestore.ts
+
+import { db, storage } from "@/lib/firebase";
+import {
+  type DocumentData,
+  type DocumentSnapshot,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+  Timestamp,
+  addDoc,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  endBefore,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  limit,
+  limitToLast,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  startAfter,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import {
+  deleteObject,
+  getDownloadURL,
+  ref as storageRef,
+  uploadBytes,
+} from "firebase/storage";
+import type {
+  CollectionQuery,
+  DataSource,
+  DocumentChange,
+  Entity,
+  FileStore,
+  PageCursor,
+  Repository,
+  Transaction,
+  WriteBatch,
+} from "./types";
+
+/**
+ * Recursively converts Firestore `Timestamp`s into plain `Date`s so both
+ * backends hand the UI the same shapes.
+ */
+const fromFirestoreValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toDate();
+  if (Array.isArray(value)) return value.map(fromFirestoreValue);
+  if (value && typeof value === "object" && value.constructor === Object) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, fromFirestoreValue(v)]),
+    );
+  }
+  return value;
+};
+
+const toEntity = <T extends Entity>(
+  snapshot: DocumentSnapshot<DocumentData>,
+): T =>
+  ({
+    id: snapshot.id,
+    ...(fromFirestoreValue(snapshot.data()) as Omit<T, "id">),
+  }) as T;
+
+/**
+ * Firestore rejects `undefined`: drop it on create, delete the field on update.
+ */
+const withoutUndefined = (data: object) =>
+  Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined),
+  );
+
+const toFieldUpdates = (data: object) =>
+  Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      value === undefined ? deleteField() : value,
+    ]),
+  );
+
+/**
+ * Translates a backend-agnostic query into Firestore constraints.
+ */
+const toConstraints = <T>({
+  where: filters = [],
+  orderBy: ordering = [],
+}: CollectionQuery<T>): QueryConstraint[] => [
+  ...filters.map((clause) => where(clause.field, clause.op, clause.value)),
+  ...ordering.map((clause) => orderBy(clause.field, clause.direction ?? "asc")),
+];
+
+const toCursor = (snapshot: QueryDocumentSnapshot | undefined) =>
+  (snapshot ?? null) as unknown as PageCursor | null;
+
+const fromCursor = (cursor: PageCursor) =>
+  cursor as unknown as QueryDocumentSnapshot;
+
+function createFirestoreRepository<T extends Entity>(
+  collectionName: string,
+): Repository<T> {
+  const collectionRef = collection(db, collectionName);
+
+  return {
+    async list(collectionQuery = {}) {
+      const snapshot = await getDocs(
+        query(collectionRef, ...toConstraints(collectionQuery)),
+      );
+      return snapshot.docs.map((d) => toEntity<T>(d));
+    },
+
+    async count(collectionQuery = {}) {
+      const snapshot = await getCountFromServer(
+        query(collectionRef, ...toConstraints(collectionQuery)),
+      );
+      return snapshot.data().count;
+    },
+
+    async get(id) {
+      const snapshot = await getDoc(doc(collectionRef, id));
+      return snapshot.exists() ? toEntity<T>(snapshot) : null;
+    },
+
+    async create(data) {
+      const ref = await addDoc(collectionRef, {
+        ...withoutUndefined(data),
+        createdAt: new Date(),
+      });
+      return ref.id;
+    },
+
+    async update(id, data) {
+      await updateDoc(doc(collectionRef, id), {
+        ...toFieldUpdates(data),
+        updatedAt: new Date(),
+      });
+    },
+
+    async delete(id) {
+      await deleteDoc(doc(collectionRef, id));
+    },
+
+    async paginate({ pageSize, after, before, ...collectionQuery }) {
+      // Going backward means "the last pageSize items before the cursor".
+      const backward = !after && !!before;
+      const q = query(
+        collectionRef,
+        ...toConstraints(collectionQuery),
+        ...(after
+          ? [startAfter(fromCursor(after))]
+          : before
+            ? [endBefore(fromCursor(before))]
+            : []),
+        backward ? limitToLast(pageSize) : limit(pageSize),
+      );
+      const snapshot = await getDocs(q);
+
+      return {
+        items: snapshot.docs.map((d) => toEntity<T>(d)),
+        startCursor: toCursor(snapshot.docs[0]),
+        endCursor: toCursor(snapshot.docs[snapshot.docs.length - 1]),
+        hasMore: snapshot.docs.length === pageSize,
+      };
+    },
+
+    subscribe({ limit: maxDocs, ...collectionQuery }, onNext, onError) {
+      const q = query(
+        collectionRef,
+        ...toConstraints(collectionQuery),
+        ...(maxDocs ? [limit(maxDocs)] : []),
+      );
+      return onSnapshot(
+        q,
+        (snapshot) => {
+          const changes: DocumentChange<T>[] = snapshot
+            .docChanges()
+            .map((change) => ({
+              type: change.type,
+              doc: toEntity<T>(change.doc),
+              oldIndex: change.oldIndex,
+              newIndex: change.newIndex,
+            }));
+          onNext(
+            snapshot.docs.map((d) => toEntity<T>(d)),
+            changes,
+          );
+        },
+        onError,
+      );
+    },
+  };
+}
+
+function createFirestoreBatch(): WriteBatch {
+  const batch = writeBatch(db);
+
+  return {
+    create(collectionName, data, id) {
+      const collectionRef = collection(db, collectionName);
+      const ref = id ? doc(collectionRef, id) : doc(collectionRef);
+      batch.set(ref, { ...withoutUndefined(data), createdAt: new Date() });
+      return ref.id;
+    },
+
+    update(collectionName, id, data) {
+      batch.update(doc(db, collectionName, id), {
+        ...toFieldUpdates(data),
+        updatedAt: new Date(),
+      });
+    },
+
+    delete(collectionName, id) {
+      batch.delete(doc(db, collectionName, id));
+    },
+
+    commit: () => batch.commit(),
+  };
+}
+
+/**
+ * Firestore retries `update` itself when a document it read has changed.
+ */
+function runFirestoreTransaction<R>(
+  update: (transaction: Transaction) => Promise<R>,
+): Promise<R> {
+  return runTransaction(db, (firestoreTransaction) =>
+    update({
+      async get<T extends Entity>(collectionName: string, id: string) {
+        const snapshot = await firestoreTransaction.get(
+          doc(db, collectionName, id),
+        );
+        return snapshot.exists() ? toEntity<T>(snapshot) : null;
+      },
+
+      create(collectionName, data, id) {
+        const collectionRef = collection(db, collectionName);
+        const ref = id ? doc(collectionRef, id) : doc(collectionRef);
+        firestoreTransaction.set(ref, {
+          ...withoutUndefined(data),
+          createdAt: new Date(),
+        });
+        return ref.id;
+      },
+
+      update(collectionName, id, data) {
+        firestoreTransaction.update(doc(db, collectionName, id), {
+          ...toFieldUpdates(data),
+          updatedAt: new Date(),
+        });
+      },
+
+      delete(collectionName, id) {
+        firestoreTransaction.delete(doc(db, collectionName, id));
+      },
+    }),
+  );
+}
+
+const firebaseFileStore: FileStore = {
+  async upload(path, blob) {
+    const fileRef = storageRef(storage, path);
+    await uploadBytes(fileRef, blob, { contentType: blob.type });
+    return getDownloadURL(fileRef);
+  },
+
+  async remove(path) {
+    try {
+      await deleteObject(storageRef(storage, path));
+    } catch (error) {
+      if ((error as { code?: string }).code !== "storage/object-not-found") {
+        throw error;
+      }
+    }
+  },
+};
+
+/**
+ * Data source backed by the Cloud Firestore and Storage instances from
+ * `@/lib/firebase`.
+ */
+export function createFirestoreDataSource(): DataSource {
+  return {
+    kind: "firestore",
+    collection: createFirestoreRepository,
+    batch: createFirestoreBatch,
+    runTransaction: runFirestoreTransaction,
+    files: firebaseFileStore,
+  };
+}
@@ -0,0 +1,124 @@
+// --- DATA SOURCE SELECTION ---
+// `VITE_DATA_SOURCE=local` swaps Firestore for the in-memory + IndexedDB
+// backend. Anything else (including unset) uses Firestore.
+
+import { createFirestoreDataSource } from "./firestore";
+import { createLocalDataSource } from "./local";
+import type {
+  DataSourceKind,
+  Entity,
+  Repository,
+  WriteBatch,
+} from "./types";
+
+export type * from "./types";
+export { applyDocumentChanges } from "./changes";
+
+const dataSourceKind: DataSourceKind =
+  import.meta.env.VITE_DATA_SOURCE === "local" ? "local" : "firestore";
+
+export const dataSource =
+  dataSourceKind === "local"
+    ? createLocalDataSource()
+    : createFirestoreDataSource();
+
+const repositories = new Map<string, Repository<Entity>>();
+
+/**
+ * Returns the (cached) repository for a collection on the active data source.
+ */
+export function getRepository<T extends Entity>(
+  collectionName: string,
+): Repository<T> {
+  let repository = repositories.get(collectionName);
+  if (!repository) {
+    repository = dataSource.collection<Entity>(collectionName);
+    repositories.set(collectionName, repository);
+  }
+  return repository as unknown as Repository<T>;
+}
+
+// --- BATCHED WRITES ---
+
+/** Firestore's limit on operations in a single batch. */
+export const MAX_BATCH_WRITES = 500;
+
+export interface BatchProgress {
+  done: number; // Items handled so far, including failed ones
+  total: number;
+  failed: number;
+}
+
+export interface BatchResult<I> {
+  succeeded: I[];
+  failed: { items: I[]; error: Error }[]; // One entry per failed batch
+}
+
+/**
+ * Splits `items` into consecutive chunks of at most `batchSize` writes. An
+ * item that alone needs more than that gets a chunk of its own.
+ */
+const chunkByWrites = <I>(
+  items: I[],
+  batchSize: number,
+  writesPerItem: (item: I) => number,
+): I[][] => {
+  const chunks: I[][] = [];
+  let chunk: I[] = [];
+  let writes = 0;
+  for (const item of items) {
+    const itemWrites = writesPerItem(item);
+    if (chunk.length > 0 && writes + itemWrites > batchSize) {
+      chunks.push(chunk);
+      chunk = [];
+      writes = 0;
+    }
+    chunk.push(item);
+    writes += itemWrites;
+  }
+  if (chunk.length > 0) chunks.push(chunk);
+  return chunks;
+};
+
+/**
+ * Writes `items` in consecutive batches of `batchSize`. Each batch is atomic;
+ * a failed batch is reported and the remaining ones still run, so callers
+ * can show exactly which items didn't make it.
+ *
+ * `batchSize` counts writes. Pass `writesPerItem` when `write` queues more
+ * than one operation per item.
+ */
+export async function writeInBatches<I>(
+  items: I[],
+  write: (batch: WriteBatch, item: I) => void,
+  {
+    batchSize = MAX_BATCH_WRITES,
+    writesPerItem = () => 1,
+    onProgress,
+  }: {
+    batchSize?: number;
+    writesPerItem?: (item: I) => number;
+    onProgress?: (progress: BatchProgress) => void;
+  } = {},
+): Promise<BatchResult<I>> {
+  const result: BatchResult<I> = { succeeded: [], failed: [] };
+  const progress: BatchProgress = { done: 0, total: items.length, failed: 0 };
+  onProgress?.({ ...progress });
+
+  for (const chunk of chunkByWrites(items, batchSize, writesPerItem)) {
+    try {
+      const batch = dataSource.batch();
+      for (const item of chunk) write(batch, item);
+      await batch.commit();
+      result.succeeded.push(...chunk);
+    } catch (error) {
+      console.error("Batched write failed: ", error);
+      result.failed.push({ items: chunk, error: error as Error });
+      progress.failed += chunk.length;
+    }
+    progress.done += chunk.length;
+    onProgress?.({ ...progress });
+  }
+
+  return result;
+}
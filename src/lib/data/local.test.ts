@@ -0,0 +1,376 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createLocalDataSource } from "./local";
+import type { DataSource, DocumentChange, Entity } from "./types";
+
+interface Item extends Entity {
+  name: string;
+  price?: number;
+  tags?: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+let source: DataSource;
+
+const items = () => source.collection<Item>("items");
+
+const seed = async (...data: Omit<Item, "createdAt" | "updatedAt">[]) => {
+  const batch = source.batch();
+  for (const { id, ...fields } of data) batch.create("items", fields, id);
+  await batch.commit();
+};
+
+const ids = (list: Entity[]) => list.map((item) => item.id);
+
+beforeEach(() => {
+  source = createLocalDataSource();
+});
+
+describe("repository", () => {
+  it("creates documents with a generated ID and a creation date", async () => {
+    const id = await items().create({ name: "Tea", price: 3 });
+    expect(id).toMatch(/^[A-Za-z0-9]{20}$/);
+    const stored = await items().get(id);
+    expect(stored).toMatchObject({ id, name: "Tea", price: 3 });
+    expect(stored?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it("returns null for documents that don't exist", async () => {
+    expect(await items().get("missing")).toBeNull();
+  });
+
+  it("merges updates and removes fields set to undefined", async () => {
+    await seed({ id: "a", name: "Tea", price: 3, tags: ["hot"] });
+    await items().update("a", { price: 4, tags: undefined });
+    const stored = await items().get("a");
+    expect(stored).toMatchObject({ name: "Tea", price: 4 });
+    expect(stored).not.toHaveProperty("tags");
+    expect(stored?.updatedAt).toBeInstanceOf(Date);
+  });
+
+  it("refuses to update documents that don't exist", async () => {
+    await expect(items().update("missing", { name: "x" })).rejects.toThrow(
+      "No document to update: items/missing",
+    );
+  });
+
+  it("deletes documents", async () => {
+    await seed({ id: "a", name: "Tea" });
+    await items().delete("a");
+    expect(await items().get("a")).toBeNull();
+  });
+
+  it("hands out copies, not the stored documents", async () => {
+    await seed({ id: "a", name: "Tea", tags: ["hot"] });
+    const first = await items().get("a");
+    first?.tags?.push("cold");
+    expect((await items().get("a"))?.tags).toEqual(["hot"]);
+  });
+});
+
+describe("queries", () => {
+  beforeEach(() =>
+    seed(
+      { id: "a", name: "Tea", price: 3, tags: ["hot"] },
+      { id: "b", name: "Coffee", price: 5, tags: ["hot", "strong"] },
+      { id: "c", name: "Juice", price: 5 },
+      { id: "d", name: "Water" },
+    ),
+  );
+
+  it("orders by ID when no order is given", async () => {
+    expect(ids(await items().list())).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("filters with comparison operators", async () => {
+    const where = async (
+      op: "==" | "!=" | "<" | "<=" | ">" | ">=",
+      value: number,
+    ) => ids(await items().list({ where: [{ field: "price", op, value }] }));
+
+    expect(await where("==", 5)).toEqual(["b", "c"]);
+    expect(await where("!=", 5)).toEqual(["a"]);
+    expect(await where("<", 5)).toEqual(["a"]);
+    expect(await where("<=", 5)).toEqual(["a", "b", "c"]);
+    expect(await where(">", 3)).toEqual(["b", "c"]);
+    expect(await where(">=", 3)).toEqual(["a", "b", "c"]);
+  });
+
+  it("filters with in, not-in and array-contains", async () => {
+    expect(
+      ids(
+        await items().list({
+          where: [{ field: "name", op: "in", value: ["Tea", "Water"] }],
+        }),
+      ),
+    ).toEqual(["a", "d"]);
+    expect(
+      ids(
+        await items().list({
+          where: [{ field: "price", op: "not-in", value: [3] }],
+        }),
+      ),
+    ).toEqual(["b", "c"]);
+    expect(
+      ids(
+        await items().list({
+          where: [{ field: "tags", op: "array-contains", value: "strong" }],
+        }),
+      ),
+    ).toEqual(["b"]);
+  });
+
+  it("combines filters", async () => {
+    const result = await items().list({
+      where: [
+        { field: "price", op: "==", value: 5 },
+        { field: "tags", op: "array-contains", value: "hot" },
+      ],
+    });
+    expect(ids(result)).toEqual(["b"]);
+  });
+
+  it("leaves out documents missing an ordered field", async () => {
+    const result = await items().list({ orderBy: [{ field: "price" }] });
+    expect(ids(result)).toEqual(["a", "b", "c"]);
+  });
+
+  it("breaks ties by ID in the direction of the last ordering", async () => {
+    const result = await items().list({
+      orderBy: [{ field: "price", direction: "desc" }],
+    });
+    expect(ids(result)).toEqual(["c", "b", "a"]);
+  });
+
+  it("counts matching documents", async () => {
+    expect(await items().count()).toBe(4);
+    expect(
+      await items().count({ where: [{ field: "price", op: "==", value: 5 }] }),
+    ).toBe(2);
+  });
+});
+
+describe("paginate", () => {
+  beforeEach(() =>
+    seed(
+      { id: "a", name: "A", price: 1 },
+      { id: "b", name: "B", price: 2 },
+      { id: "c", name: "C", price: 3 },
+      { id: "d", name: "D", price: 4 },
+      { id: "e", name: "E", price: 5 },
+    ),
+  );
+
+  const orderBy = [{ field: "price" as const, direction: "desc" as const }];
+
+  it("pages forward from the end cursor", async () => {
+    const first = await items().paginate({ orderBy, pageSize: 2 });
+    expect(ids(first.items)).toEqual(["e", "d"]);
+    expect(first.hasMore).toBe(true);
+
+    const second = await items().paginate({
+      orderBy,
+      pageSize: 2,
+      after: first.endCursor,
+    });
+    expect(ids(second.items)).toEqual(["c", "b"]);
+
+    const last = await items().paginate({
+      orderBy,
+      pageSize: 2,
+      after: second.endCursor,
+    });
+    expect(ids(last.items)).toEqual(["a"]);
+    expect(last.hasMore).toBe(false);
+  });
+
+  it("pages back from the start cursor", async () => {
+    const first = await items().paginate({ orderBy, pageSize: 2 });
+    const second = await items().paginate({
+      orderBy,
+      pageSize: 2,
+      after: first.endCursor,
+    });
+    const back = await items().paginate({
+      orderBy,
+      pageSize: 2,
+      before: second.startCursor,
+    });
+    expect(ids(back.items)).toEqual(["e", "d"]);
+  });
+
+  it("returns null cursors for an empty page", async () => {
+    const page = await items().paginate({
+      where: [{ field: "price", op: ">", value: 10 }],
+      pageSize: 2,
+    });
+    expect(page).toEqual({
+      items: [],
+      startCursor: null,
+      endCursor: null,
+      hasMore: false,
+    });
+  });
+});
+
+describe("subscribe", () => {
+  // Resolves once the listener has been called `count` times
+  const listen = (limit?: number) => {
+    const calls: { items: Item[]; changes: DocumentChange<Item>[] }[] = [];
+    const unsubscribe = items().subscribe(
+      { orderBy: [{ field: "price" }], limit },
+      (list, changes) => calls.push({ items: list, changes }),
+    );
+    const next = (count: number) =>
+      vi.waitFor(() => {
+        if (calls.length < count) throw new Error("Not called yet");
+        return calls[count - 1];
+      });
+    return { calls, next, unsubscribe };
+  };
+
+  it("delivers the matching documents, then each change", async () => {
+    await seed({ id: "a", name: "A", price: 2 });
+    const { next, unsubscribe } = listen();
+
+    const initial = await next(1);
+    expect(ids(initial.items)).toEqual(["a"]);
+    expect(initial.changes.map((change) => change.type)).toEqual(["added"]);
+
+    await items().create({ name: "B", price: 1 });
+    const added = await next(2);
+    expect(added.items.map((item) => item.name)).toEqual(["B", "A"]);
+    expect(added.changes).toMatchObject([{ type: "added", newIndex: 0 }]);
+
+    await items().update("a", { name: "A2" });
+    const modified = await next(3);
+    expect(modified.changes).toMatchObject([
+      { type: "modified", doc: { id: "a", name: "A2" } },
+    ]);
+
+    await items().delete("a");
+    const removed = await next(4);
+    expect(removed.changes).toMatchObject([
+      { type: "removed", doc: { id: "a" } },
+    ]);
+    unsubscribe();
+  });
+
+  it("only listens to the first `limit` documents", async () => {
+    await seed(
+      { id: "a", name: "A", price: 1 },
+      { id: "b", name: "B", price: 2 },
+    );
+    const { next, unsubscribe } = listen(1);
+    expect(ids((await next(1)).items)).toEqual(["a"]);
+
+    await items().create({ name: "C", price: 0 });
+    const changed = await next(2);
+    expect(changed.items.map((item) => item.name)).toEqual(["C"]);
+    expect(changed.changes.map((change) => change.type)).toEqual([
+      "removed",
+      "added",
+    ]);
+    unsubscribe();
+  });
+
+  it("stops after unsubscribing", async () => {
+    const { calls, next, unsubscribe } = listen();
+    await next(1);
+    unsubscribe();
+    await items().create({ name: "A", price: 1 });
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe("batch", () => {
+  it("applies every operation together", async () => {
+    await seed({ id: "a", name: "A" }, { id: "b", name: "B" });
+    const batch = source.batch();
+    const id = batch.create<Item>("items", { name: "C" });
+    batch.update<Item>("items", "a", { name: "A2" });
+    batch.delete("items", "b");
+    await batch.commit();
+
+    expect(
+      (await items().list()).map(({ id, name }) => ({ id, name })),
+    ).toEqual(
+      [
+        { id: "a", name: "A2" },
+        { id, name: "C" },
+      ].sort((x, y) => (x.id < y.id ? -1 : 1)),
+    );
+  });
+
+  it("writes nothing if any operation is invalid", async () => {
+    await seed({ id: "a", name: "A" });
+    const batch = source.batch();
+    batch.update<Item>("items", "a", { name: "A2" });
+    batch.update<Item>("items", "missing", { name: "X" });
+    await expect(batch.commit()).rejects.toThrow("No document to update");
+    expect((await items().get("a"))?.name).toBe("A");
+  });
+
+  it("lets later operations see earlier ones", async () => {
+    const batch = source.batch();
+    batch.create<Item>("items", { name: "A" }, "a");
+    batch.update<Item>("items", "a", { price: 1 });
+    await batch.commit();
+    expect(await items().get("a")).toMatchObject({ name: "A", price: 1 });
+  });
+});
+
+describe("runTransaction", () => {
+  beforeEach(() => seed({ id: "a", name: "A", price: 1 }));
+
+  it("commits its writes and resolves with its result", async () => {
+    const result = await source.runTransaction(async (transaction) => {
+      const item = await transaction.get<Item>("items", "a");
+      transaction.update<Item>("items", "a", { price: (item?.price ?? 0) + 1 });
+      return "done";
+    });
+    expect(result).toBe("done");
+    expect((await items().get("a"))?.price).toBe(2);
+  });
+
+  it("runs again when a document it read changed", async () => {
+    let attempts = 0;
+    await source.runTransaction(async (transaction) => {
+      attempts++;
+      const item = await transaction.get<Item>("items", "a");
+      // Someone else writes between this attempt's read and its commit
+      if (attempts === 1) await items().update("a", { price: 10 });
+      transaction.update<Item>("items", "a", { price: (item?.price ?? 0) + 1 });
+    });
+    expect(attempts).toBe(2);
+    expect((await items().get("a"))?.price).toBe(11);
+  });
+
+  it("writes nothing when the update throws", async () => {
+    await expect(
+      source.runTransaction(async (transaction) => {
+        transaction.update<Item>("items", "a", { price: 5 });
+        throw new Error("Not enough stock");
+      }),
+    ).rejects.toThrow("Not enough stock");
+    expect((await items().get("a"))?.price).toBe(1);
+  });
+
+  it("requires every read to come before the first write", async () => {
+    await expect(
+      source.runTransaction(async (transaction) => {
+        transaction.update<Item>("items", "a", { price: 5 });
+        await transaction.get<Item>("items", "a");
+      }),
+    ).rejects.toThrow("Transactions must read before they write");
+  });
+
+  it("gives up after too many conflicts", async () => {
+    await expect(
+      source.runTransaction(async (transaction) => {
+        await transaction.get<Item>("items", "a");
+        await items().update("a", { price: Math.random() });
+      }),
+    ).rejects.toThrow("too much contention");
+  });
+});
@@ -0,0 +1,586 @@
+// local.ts
+
+import { diffDocuments } from "./changes";
+import type {
+  CollectionQuery,
+  DataSource,
+  DocumentChange,
+  Entity,
+  FileStore,
+  OrderByClause,
+  PageCursor,
+  Repository,
+  SubscribeRequest,
+  Transaction,
+  WhereClause,
+  WriteBatch,
+} from "./types";
+
+// --- INDEXEDDB PERSISTENCE ---
+// Every collection lives in a single object store keyed by
+// [collection, id]. When IndexedDB is unavailable (e.g. jsdom tests) the
+// store silently degrades to memory only.
+
+const DB_NAME = "vite-university-task";
+const DB_VERSION = 1;
+const STORE_NAME = "documents";
+const COLLECTION_INDEX = "by-collection";
+
+// Other tabs hear about writes through this channel, so subscribers stay
+// live across tabs the same way Firestore listeners do.
+const CHANNEL_NAME = "vite-university-task:local-data";
+
+interface StoredDocument {
+  collection: string;
+  id: string;
+  data: Record<string, unknown>;
+}
+
+interface DocumentWrite {
+  collection: string;
+  id: string;
+  data: Record<string, unknown> | null; // null for deletes
+}
+
+// Every write of one commit, so other tabs apply them together too
+type WriteMessage = DocumentWrite[];
+
+const requestToPromise = <R>(request: IDBRequest<R>) =>
+  new Promise<R>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE_NAME, {
+      keyPath: ["collection", "id"],
+    });
+    store.createIndex(COLLECTION_INDEX, "collection");
+  };
+  return requestToPromise(request).catch((error) => {
+    console.error("Local data source: IndexedDB unavailable", error);
+    return null;
+  });
+};
+
+// --- HELPERS ---
+
+const AUTO_ID_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+/**
+ * Generates a 20-character ID in the same alphabet Firestore uses.
+ */
+const generateId = () =>
+  Array.from(
+    crypto.getRandomValues(new Uint8Array(20)),
+    (byte) => AUTO_ID_CHARS[byte % AUTO_ID_CHARS.length],
+  ).join("");
+
+const withoutUndefined = (data: object): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined),
+  );
+
+/**
+ * Merges an update into a stored document. Spreading then dropping
+ * `undefined` removes those fields.
+ */
+const mergeUpdate = (
+  existing: Record<string, unknown>,
+  data: object,
+): Record<string, unknown> => ({
+  ...withoutUndefined({ ...existing, ...data }),
+  updatedAt: new Date(),
+});
+
+// Same as Firestore's default
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+// Firestore orders by document ID when no ordering is given; so do we.
+const compareIds = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+// --- QUERY EVALUATION ---
+// Mirrors the subset of Firestore semantics the app relies on: documents
+// missing a filtered or ordered field are excluded, and ties are broken by
+// document ID in the direction of the last ordering.
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a == null || b == null) return a == null ? (b == null ? 0 : -1) : 1;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const fieldOf = (item: Entity, field: string) =>
+  (item as unknown as Record<string, unknown>)[field];
+
+const matches = <T extends Entity>(item: T, clause: WhereClause<T>) => {
+  const value = fieldOf(item, clause.field);
+  if (value === undefined) return false;
+
+  switch (clause.op) {
+    case "==":
+      return compareValues(value, clause.value) === 0;
+    case "!=":
+      return compareValues(value, clause.value) !== 0;
+    case "<":
+      return compareValues(value, clause.value) < 0;
+    case "<=":
+      return compareValues(value, clause.value) <= 0;
+    case ">":
+      return compareValues(value, clause.value) > 0;
+    case ">=":
+      return compareValues(value, clause.value) >= 0;
+    case "in":
+      return clause.value.some((v) => compareValues(value, v) === 0);
+    case "not-in":
+      return !clause.value.some((v) => compareValues(value, v) === 0);
+    case "array-contains":
+      return (
+        Array.isArray(value) &&
+        value.some((v) => compareValues(v, clause.value) === 0)
+      );
+  }
+};
+
+const createComparator =
+  <T extends Entity>(ordering: OrderByClause<T>[] = []) =>
+  (a: T, b: T) => {
+    for (const { field, direction = "asc" } of ordering) {
+      const result = compareValues(fieldOf(a, field), fieldOf(b, field));
+      if (result !== 0) return direction === "asc" ? result : -result;
+    }
+    const idResult = compareIds(a.id, b.id);
+    return ordering.at(-1)?.direction === "desc" ? -idResult : idResult;
+  };
+
+const runQuery = <T extends Entity>(
+  items: T[],
+  { where = [], orderBy = [] }: CollectionQuery<T>,
+) =>
+  items
+    .filter(
+      (item) =>
+        where.every((clause) => matches(item, clause)) &&
+        orderBy.every(({ field }) => fieldOf(item, field) !== undefined),
+    )
+    .sort(createComparator(orderBy));
+
+interface Listener {
+  request: SubscribeRequest<Entity>;
+  items: Entity[]; // What the subscriber received last
+  onNext: (items: Entity[], changes: DocumentChange<Entity>[]) => void;
+  onError?: (error: Error) => void;
+}
+
+interface LocalCollection {
+  docs: Map<string, Record<string, unknown>>;
+  ready: Promise<void>;
+  listeners: Set<Listener>;
+}
+
+// --- FILES ---
+// Uploads are inlined as data URLs, so they live inside the documents that
+// reference them and need no separate storage or cleanup.
+
+const localFileStore: FileStore = {
+  upload: (_path, blob) =>
+    new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    }),
+
+  remove: async () => {},
+};
+
+/**
+ * Data source that keeps every collection in memory and mirrors writes to
+ * IndexedDB, so the app runs with no Firebase project and no network.
+ */
+export function createLocalDataSource(): DataSource {
+  const database = openDatabase();
+  const collections = new Map<string, LocalCollection>();
+  const channel =
+    typeof BroadcastChannel === "undefined"
+      ? null
+      : new BroadcastChannel(CHANNEL_NAME);
+
+  const getCollection = (name: string): LocalCollection => {
+    const existing = collections.get(name);
+    if (existing) return existing;
+
+    const docs = new Map<string, Record<string, unknown>>();
+    const ready = database.then(async (idb) => {
+      if (!idb) return;
+      const index = idb
+        .transaction(STORE_NAME, "readonly")
+        .objectStore(STORE_NAME)
+        .index(COLLECTION_INDEX);
+      const stored = await requestToPromise<StoredDocument[]>(
+        index.getAll(name),
+      );
+      for (const { id, data } of stored) docs.set(id, data);
+    });
+
+    const created = { docs, ready, listeners: new Set<Listener>() };
+    collections.set(name, created);
+    return created;
+  };
+
+  const persist = async (writes: DocumentWrite[]) => {
+    const idb = await database;
+    if (!idb) return;
+    const transaction = idb.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    for (const { collection, id, data } of writes) {
+      if (data) {
+        store.put({ collection, id, data } satisfies StoredDocument);
+      } else {
+        store.delete([collection, id]);
+      }
+    }
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  const toEntity = <T extends Entity>(
+    id: string,
+    data: Record<string, unknown>,
+  ) => ({ id, ...structuredClone(data) }) as T;
+
+  const snapshot = <T extends Entity>(local: LocalCollection) =>
+    [...local.docs.keys()]
+      .sort(compareIds)
+      .map((id) =>
+        toEntity<T>(id, local.docs.get(id) as Record<string, unknown>),
+      );
+
+  const evaluate = <T extends Entity>(
+    local: LocalCollection,
+    { limit, ...collectionQuery }: SubscribeRequest<T>,
+  ) => {
+    const items = runQuery(snapshot<T>(local), collectionQuery);
+    return limit ? items.slice(0, limit) : items;
+  };
+
+  /**
+   * Re-runs every subscriber's query and sends it whatever changed.
+   */
+  const notify = (local: LocalCollection, modifiedIds: Set<string>) => {
+    for (const listener of local.listeners) {
+      const items = evaluate(local, listener.request);
+      const changes = diffDocuments(listener.items, items, modifiedIds);
+      listener.items = items;
+      if (changes.length > 0) listener.onNext(items, changes);
+    }
+  };
+
+  /**
+   * Applies writes to memory, then notifies each affected collection's
+   * subscribers once.
+   */
+  const applyToMemory = (writes: DocumentWrite[]) => {
+    const modified = new Map<LocalCollection, Set<string>>();
+    for (const { collection, id, data } of writes) {
+      const local = getCollection(collection);
+      if (data) local.docs.set(id, data);
+      else local.docs.delete(id);
+      const ids = modified.get(local) ?? new Set<string>();
+      modified.set(local, ids.add(id));
+    }
+    for (const [local, ids] of modified) notify(local, ids);
+  };
+
+  const whenReady = (collectionNames: string[]) =>
+    Promise.all(collectionNames.map((name) => getCollection(name).ready));
+
+  /**
+   * Applies writes to loaded collections, notifies subscribers, persists
+   * them and finally tells the other tabs.
+   */
+  const publish = async (writes: DocumentWrite[]) => {
+    applyToMemory(writes);
+    await persist(writes);
+    channel?.postMessage(writes satisfies WriteMessage);
+  };
+
+  const write = async (...writes: DocumentWrite[]) => {
+    await whenReady(writes.map((w) => w.collection));
+    await publish(writes);
+  };
+
+  // The sender already persisted the writes, so only memory needs updating.
+  channel?.addEventListener("message", (event: MessageEvent<WriteMessage>) => {
+    const writes = event.data;
+    whenReady(writes.map((w) => w.collection)).then(() =>
+      applyToMemory(writes),
+    );
+  });
+
+  const createRepository = <T extends Entity>(
+    name: string,
+  ): Repository<T> => {
+    const local = getCollection(name);
+
+    return {
+      async list(collectionQuery = {}) {
+        await local.ready;
+        return runQuery(snapshot<T>(local), collectionQuery);
+      },
+
+      async count(collectionQuery = {}) {
+        await local.ready;
+        return runQuery(snapshot<T>(local), collectionQuery).length;
+      },
+
+      async get(id) {
+        await local.ready;
+        const data = local.docs.get(id);
+        return data ? toEntity<T>(id, data) : null;
+      },
+
+      async create(data) {
+        const id = generateId();
+        await write({
+          collection: name,
+          id,
+          data: { ...withoutUndefined(data), createdAt: new Date() },
+        });
+        return id;
+      },
+
+      async update(id, data) {
+        await local.ready;
+        const existing = local.docs.get(id);
+        if (!existing) {
+          throw new Error(`No document to update: ${name}/${id}`);
+        }
+        await write({
+          collection: name,
+          id,
+          data: mergeUpdate(existing, data),
+        });
+      },
+
+      async delete(id) {
+        await write({ collection: name, id, data: null });
+      },
+
+      async paginate({ pageSize, after, before, ...collectionQuery }) {
+        await local.ready;
+        const all = runQuery(snapshot<T>(local), collectionQuery);
+        const compare = createComparator(collectionQuery.orderBy);
+
+        // Cursors are the boundary documents themselves.
+        let items: T[];
+        if (after) {
+          const boundary = after as unknown as T;
+          items = all
+            .filter((item) => compare(item, boundary) > 0)
+            .slice(0, pageSize);
+        } else if (before) {
+          const boundary = before as unknown as T;
+          items = all
+            .filter((item) => compare(item, boundary) < 0)
+            .slice(-pageSize);
+        } else {
+          items = all.slice(0, pageSize);
+        }
+
+        return {
+          items,
+          startCursor: (items[0] ?? null) as unknown as PageCursor | null,
+          endCursor: (items[items.length - 1] ?? null) as unknown as
+            | PageCursor
+            | null,
+          hasMore: items.length === pageSize,
+        };
+      },
+
+      subscribe(request, onNext, onError) {
+        const listener: Listener = {
+          request: request as unknown as SubscribeRequest<Entity>,
+          items: [],
+          onNext: onNext as Listener["onNext"],
+          onError,
+        };
+        let active = true;
+
+        local.ready
+          .then(() => {
+            if (!active) return;
+            const items = evaluate(local, listener.request);
+            listener.items = items;
+            local.listeners.add(listener);
+            onNext(
+              items as T[],
+              items.map((doc, newIndex) => ({
+                type: "added",
+                doc: doc as T,
+                oldIndex: -1,
+                newIndex,
+              })),
+            );
+          })
+          .catch((error) => onError?.(error));
+
+        return () => {
+          active = false;
+          local.listeners.delete(listener);
+        };
+      },
+    };
+  };
+
+  // --- BATCHES AND TRANSACTIONS ---
+
+  type Operation =
+    | { type: "set"; collection: string; id: string; data: object }
+    | { type: "update"; collection: string; id: string; data: object }
+    | { type: "delete"; collection: string; id: string };
+
+  /**
+   * Queues operations the way `WriteBatch` and `Transaction` describe them.
+   */
+  const createOperationQueue = () => {
+    const operations: Operation[] = [];
+    const queue: Omit<WriteBatch, "commit"> = {
+      create(collectionName, data, id = generateId()) {
+        operations.push({ type: "set", collection: collectionName, id, data });
+        return id;
+      },
+
+      update(collectionName, id, data) {
+        operations.push({
+          type: "update",
+          collection: collectionName,
+          id,
+          data,
+        });
+      },
+
+      delete(collectionName, id) {
+        operations.push({ type: "delete", collection: collectionName, id });
+      },
+    };
+    return { operations, queue };
+  };
+
+  /**
+   * Resolves queued operations against the current (loaded) documents.
+   * Throws without side effects if any of them is invalid.
+   */
+  const resolveOperations = (operations: Operation[]) => {
+    // Later operations see the result of earlier ones
+    const pending = new Map<string, DocumentWrite>();
+    const current = (collection: string, id: string) => {
+      const key = `${collection}/${id}`;
+      return pending.has(key)
+        ? pending.get(key)?.data
+        : getCollection(collection).docs.get(id);
+    };
+
+    for (const operation of operations) {
+      const { collection, id } = operation;
+      let data: Record<string, unknown> | null = null;
+      if (operation.type === "set") {
+        data = {
+          ...withoutUndefined(operation.data),
+          createdAt: new Date(),
+        };
+      } else if (operation.type === "update") {
+        const existing = current(collection, id);
+        if (!existing) {
+          throw new Error(`No document to update: ${collection}/${id}`);
+        }
+        data = mergeUpdate(existing, operation.data);
+      }
+      pending.set(`${collection}/${id}`, { collection, id, data });
+    }
+    return [...pending.values()];
+  };
+
+  /**
+   * Batches are resolved against the current documents only on commit, and
+   * nothing is applied unless every operation is valid.
+   */
+  const createBatch = (): WriteBatch => {
+    const { operations, queue } = createOperationQueue();
+
+    return {
+      ...queue,
+
+      async commit() {
+        await whenReady(operations.map((op) => op.collection));
+        await write(...resolveOperations(operations));
+      },
+    };
+  };
+
+  /**
+   * Optimistic, like Firestore's: the documents read are remembered and
+   * the attempt starts over if any of them was replaced before the commit.
+   * Stored documents are never mutated in place, so identity tells.
+   */
+  const runTransaction = async <R>(
+    update: (transaction: Transaction) => Promise<R>,
+  ): Promise<R> => {
+    for (let attempt = 1; ; attempt++) {
+      const reads = new Map<string, Record<string, unknown> | undefined>();
+      const { operations, queue } = createOperationQueue();
+
+      const result = await update({
+        ...queue,
+
+        async get<T extends Entity>(collectionName: string, id: string) {
+          if (operations.length > 0) {
+            throw new Error("Transactions must read before they write");
+          }
+          const local = getCollection(collectionName);
+          await local.ready;
+          const data = local.docs.get(id);
+          reads.set(`${collectionName}/${id}`, data);
+          return data ? toEntity<T>(id, data) : null;
+        },
+      });
+
+      await whenReady(operations.map((op) => op.collection));
+      // From here to applying the writes nothing else can run
+      const unchanged = [...reads].every(([key, data]) => {
+        const separator = key.lastIndexOf("/");
+        return (
+          getCollection(key.slice(0, separator)).docs.get(
+            key.slice(separator + 1),
+          ) === data
+        );
+      });
+      if (unchanged) {
+        await publish(resolveOperations(operations));
+        return result;
+      }
+      if (attempt === MAX_TRANSACTION_ATTEMPTS) {
+        throw new Error("Transaction failed: too much contention");
+      }
+    }
+  };
+
+  return {
+    kind: "local",
+    collection: createRepository,
+    batch: createBatch,
+    runTransaction,
+    files: localFileStore,
+  };
+}
@@ -0,0 +1,187 @@
+// --- DATA SOURCE TYPES ---
+// Shared contract between the Firestore and local (in-memory + IndexedDB)
+// backends. Pages and hooks only ever talk to these interfaces.
+
+/**
+ * Every stored document exposes its ID alongside its fields.
+ */
+export interface Entity {
+  id: string;
+}
+
+/**
+ * Fields a caller may write. The ID and timestamps are managed by the
+ * repository itself.
+ */
+export type DocumentInput<T extends Entity> = Omit<
+  T,
+  "id" | "createdAt" | "updatedAt"
+>;
+
+declare const cursorBrand: unique symbol;
+
+/**
+ * Opaque pagination cursor. Each backend stores whatever it needs to resume
+ * a query (a snapshot for Firestore, the boundary document for the local
+ * store). Cursors are only valid for the query that produced them.
+ */
+export type PageCursor = { readonly [cursorBrand]: true };
+
+// --- QUERIES ---
+
+export type ComparisonOperator = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+type ArrayElement<V> = V extends readonly (infer E)[] ? E : never;
+
+/**
+ * A filter on one field. The value type follows the field's type, so
+ * `{ field: "price", op: ">", value: "10" }` does not compile.
+ */
+export type WhereClause<T> = {
+  [K in keyof T & string]:
+    | { field: K; op: ComparisonOperator; value: T[K] }
+    | { field: K; op: "in" | "not-in"; value: T[K][] }
+    | { field: K; op: "array-contains"; value: ArrayElement<T[K]> };
+}[keyof T & string];
+
+export type SortDirection = "asc" | "desc";
+
+export interface OrderByClause<T> {
+  field: keyof T & string;
+  direction?: SortDirection; // Defaults to "asc"
+}
+
+/**
+ * Filters and ordering shared by every read. Results are always ordered by
+ * the given fields first and then by document ID, like Firestore.
+ */
+export interface CollectionQuery<T> {
+  where?: WhereClause<T>[];
+  orderBy?: OrderByClause<T>[];
+}
+
+export interface PageRequest<T> extends CollectionQuery<T> {
+  pageSize: number;
+  after?: PageCursor | null; // Page forward, starting after this cursor
+  before?: PageCursor | null; // Page backward, ending before this cursor
+}
+
+export interface SubscribeRequest<T> extends CollectionQuery<T> {
+  limit?: number; // Only listen to the first `limit` matching documents
+}
+
+export interface Page<T> {
+  items: T[];
+  startCursor: PageCursor | null; // Cursor of the first item, null when empty
+  endCursor: PageCursor | null; // Cursor of the last item, null when empty
+  hasMore: boolean; // True if the page came back full (in its direction)
+}
+
+export type ChangeType = "added" | "modified" | "removed";
+
+/**
+ * A single change delivered to a subscriber, mirroring Firestore's
+ * `DocumentChange` so both backends can be applied the same way.
+ */
+export interface DocumentChange<T> {
+  type: ChangeType;
+  doc: T;
+  oldIndex: number; // -1 for "added"
+  newIndex: number; // -1 for "removed"
+}
+
+export type Unsubscribe = () => void;
+
+export interface Repository<T extends Entity> {
+  /** Fetches every document matching the query. */
+  list(query?: CollectionQuery<T>): Promise<T[]>;
+  /** Counts the documents matching the query without downloading them. */
+  count(query?: CollectionQuery<T>): Promise<number>;
+  /** Fetches a single document, or `null` if it does not exist. */
+  get(id: string): Promise<T | null>;
+  /** Creates a document with a generated ID and returns that ID. */
+  create(data: DocumentInput<T>): Promise<string>;
+  /**
+   * Merges the given fields into an existing document. Fields set to
+   * `undefined` are removed from it.
+   */
+  update(id: string, data: Partial<DocumentInput<T>>): Promise<void>;
+  delete(id: string): Promise<void>;
+  /**
+   * Fetches one page of documents matching the query. Pass `after` with the
+   * previous page's `endCursor` to go forward, or `before` with its
+   * `startCursor` to go back.
+   */
+  paginate(request: PageRequest<T>): Promise<Page<T>>;
+  /**
+   * Listens to the documents matching the query. `onNext` receives the full
+   * ordered list plus the changes since the previous call (all "added" the
+   * first time).
+   */
+  subscribe(
+    request: SubscribeRequest<T>,
+    onNext: (items: T[], changes: DocumentChange<T>[]) => void,
+    onError?: (error: Error) => void,
+  ): Unsubscribe;
+}
+
+/**
+ * Binary storage for uploads (product images). Paths are slash-separated,
+ * like Storage object names.
+ */
+export interface FileStore {
+  /** Stores the blob and returns a URL the browser can load it from. */
+  upload(path: string, blob: Blob): Promise<string>;
+  /** Removes a stored file. Missing files are ignored. */
+  remove(path: string): Promise<void>;
+}
+
+/**
+ * Queues writes across collections and applies them atomically: either all
+ * of them succeed or none does. Firestore accepts at most
+ * `MAX_BATCH_WRITES` operations per batch.
+ */
+export interface WriteBatch {
+  /**
+   * Queues a new document and returns its ID. Pass `id` to choose the ID
+   * (an existing document with that ID is replaced).
+   */
+  create<T extends Entity>(
+    collectionName: string,
+    data: DocumentInput<T>,
+    id?: string,
+  ): string;
+  /** Queues a merge into an existing document, like `Repository.update`. */
+  update<T extends Entity>(
+    collectionName: string,
+    id: string,
+    data: Partial<DocumentInput<T>>,
+  ): void;
+  delete(collectionName: string, id: string): void;
+  commit(): Promise<void>;
+}
+
+/**
+ * Reads and writes that succeed or fail together. Every read must come
+ * before the first write, as in Firestore. If a document that was read
+ * changes before the commit, the whole transaction runs again.
+ */
+export interface Transaction extends Omit<WriteBatch, "commit"> {
+  /** Reads a document, or `null` if it does not exist. */
+  get<T extends Entity>(collectionName: string, id: string): Promise<T | null>;
+}
+
+export interface DataSource {
+  kind: DataSourceKind;
+  collection<T extends Entity>(collectionName: string): Repository<T>;
+  batch(): WriteBatch;
+  /**
+   * Runs `update` in a transaction, retrying it on conflicts, and resolves
+   * with its result once the writes are committed. Errors thrown by
+   * `update` abort the transaction without writing anything.
+   */
+  runTransaction<R>(update: (transaction: Transaction) => Promise<R>): Promise<R>;
+  files: FileStore;
+}
+
+export type DataSourceKind = "firestore" | "local";
@@ -1,3 +1,10 @@
+import {
+  BASE_PRICE_FORMAT,
+  CURRENCIES,
+  type PriceFormat,
+  convertPrice,
+} from "@/lib/currency";
+import { isOutOfStock } from "@/lib/inventory";
 import { toast } from "sonner";
 import * as XLSX from "xlsx";
 import {
@@ -8,7 +15,6 @@ import {
   StyleSheet,
   Image,
 } from "@react-pdf/renderer";
-import type React from "react";
 
 // --- TYPE DEFINITIONS ---
 // Moved here to be shared between files
@@ -18,67 +24,503 @@ export interface Category {
   id: string;
   name: string;
   description: string;
+  parentId?: string; // Unset for top-level categories
+  createdAt?: Date; // Set by the data source on create
+  updatedAt?: Date; // Set by the data source on update
+}
+
+// Sizes generated for every uploaded product image
+export type ImageSize = "thumbnail" | "medium" | "original";
+
+// Where each size of an uploaded image lives in storage
+export interface ProductImage {
+  urls: Record<ImageSize, string>; // Download URLs
+  paths: Record<ImageSize, string>; // Storage paths (for deleting)
 }
 
-// Product interface updated with imageBase64
+// An option customers choose, e.g. Size with the values S, M and L
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+// One combination of option values. Unset fields fall back to the product's
+export interface ProductVariant {
+  id: string; // Stable across edits of the options
+  options: Record<string, string>; // Option name → value
+  price?: number;
+  sku?: string;
+  stock?: number; // Only changed through stock movements, like the product's
+}
+
+// Product interface: images live in storage, only their URLs are stored here
 export interface Product {
   id: string;
   name: string;
   description: string;
   price: number;
   categoryId: string; // The connection
-  imageBase64?: string; // New field for the image
+  sku?: string; // Stock keeping unit, unique among products
+  barcode?: string; // EAN/UPC as printed on the package
+  stock?: number; // Units on hand; only changed through stock movements
+  lowStockThreshold?: number; // Low at or below this; a default when unset
+  options?: ProductOption[]; // Variant dimensions, in display order
+  variants?: ProductVariant[]; // Combinations of `options`; `stock` sums them
+  images?: ProductImage[]; // In display order; the first one is the primary
+  /** @deprecated Single image from before products had several. */
+  image?: ProductImage;
+  /** @deprecated Inline data URL from before images moved to storage. */
+  imageBase64?: string;
+  createdAt?: Date; // Set by the data source on create
+  updatedAt?: Date; // Set by the data source on update
 }
 
 // --- HELPER FUNCTIONS ---
 
+type ProductImageFields = Pick<Product, "images" | "image" | "imageBase64">;
+
+/**
+ * Returns a product's uploaded images in display order, including the single
+ * `image` of older documents.
+ */
+export const getProductImages = (product: ProductImageFields): ProductImage[] =>
+  product.images ?? (product.image ? [product.image] : []);
+
+/**
+ * Returns the URLs of all of a product's images at the requested size,
+ * falling back to the legacy inline image for products that haven't been
+ * migrated.
+ */
+export const getProductImageUrls = (
+  product: ProductImageFields,
+  size: ImageSize,
+): string[] => {
+  const images = getProductImages(product);
+  if (images.length > 0) return images.map((image) => image.urls[size]);
+  return product.imageBase64 ? [product.imageBase64] : [];
+};
+
 /**
- * Formats a number as a USD currency string.
+ * Returns the URL of a product's primary image at the requested size.
  */
-export const formatPrice = (price: number) => {
-  return new Intl.NumberFormat("en-US", {
+export const getProductImageUrl = (
+  product: ProductImageFields,
+  size: ImageSize,
+): string | undefined => getProductImageUrls(product, size)[0];
+
+/**
+ * Formats a base-currency price in the display currency and its locale,
+ * e.g. "$1,234.50" or "C$45,196.39".
+ */
+export const formatPrice = (
+  price: number,
+  priceFormat: PriceFormat = BASE_PRICE_FORMAT,
+) => {
+  return new Intl.NumberFormat(CURRENCIES[priceFormat.currency].locale, {
     style: "currency",
-    currency: "USD",
-  }).format(price || 0);
+    currency: priceFormat.currency,
+  }).format(convertPrice(price, priceFormat));
+};
+
+/**
+ * Triggers a browser download of `blob`.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 };
 
+// --- EXPORT DEFINITIONS ---
+// One definition per exportable entity lists its columns in output order.
+// Every format (CSV, JSON, XLSX, PDF) is rendered from it, so adding a column
+// here adds it everywhere.
+
+export type ExportFormat = "csv" | "json" | "xlsx" | "pdf";
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "xlsx", label: "Excel (XLSX)" },
+  { format: "csv", label: "CSV" },
+  { format: "json", label: "JSON" },
+  { format: "pdf", label: "PDF" },
+];
+
+export type CellValue = string | number | null;
+
+export interface ExportColumn<T> {
+  key: string; // Stable identifier, also the JSON property name
+  header: string;
+  value: (item: T) => CellValue; // Raw value: numbers stay numbers in XLSX/JSON
+  format?: (item: T) => string; // Display text for CSV and PDF
+  numberFormat?: string; // XLSX number format of numeric cells, e.g. "0.00"
+  width: number; // In characters; PDF columns share the page proportionally
+  image?: (item: T) => string | undefined; // PDF renders this URL instead
+  defaultSelected?: boolean; // Defaults to true
+}
+
+// A number shown with an XLSX number format, e.g. a price in a currency
+export interface FormattedNumber {
+  value: number;
+  numberFormat: string;
+}
+
+// An additional XLSX sheet, as rows of cells (the first row is the header)
+export interface ExportSheet {
+  name: string;
+  rows: (CellValue | FormattedNumber)[][];
+  widths?: number[];
+}
+
+const isFormattedNumber = (
+  cell: CellValue | FormattedNumber,
+): cell is FormattedNumber => typeof cell === "object" && cell !== null;
+
+export interface ExportDefinition<T> {
+  name: string; // Main sheet name and PDF title, e.g. "Products"
+  columns: ExportColumn<T>[];
+  sort?: (a: T, b: T) => number; // Row order; input order when unset
+  extraSheets?: (items: T[]) => ExportSheet[]; // XLSX only
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns?: string[]; // Keys of the columns to include; all selected by default
+  fileName: string; // Without extension
+  title?: string; // PDF title; defaults to "<name> Report"
+}
+
+/**
+ * Returns the columns selected by default, in definition order.
+ */
+export const defaultColumnKeys = <T,>(definition: ExportDefinition<T>) =>
+  definition.columns
+    .filter((column) => column.defaultSelected !== false)
+    .map((column) => column.key);
+
 /**
- * Exports an array of products to an XLSX file using the xlsx library.
+ * Picks the selected columns of a definition, in definition order.
  */
-export const exportToXLSX = (
-  products: Product[],
+export const selectColumns = <T,>(
+  definition: ExportDefinition<T>,
+  keys: string[] = defaultColumnKeys(definition),
+) => definition.columns.filter((column) => keys.includes(column.key));
+
+const displayText = <T,>(column: ExportColumn<T>, item: T) =>
+  column.format ? column.format(item) : String(column.value(item) ?? "");
+
+const csvEscape = (text: string) =>
+  /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+/**
+ * Exports `items` in the chosen format and downloads the file.
+ */
+export async function exportData<T>(
+  definition: ExportDefinition<T>,
+  items: T[],
+  { format, columns: keys, fileName, title }: ExportOptions,
+) {
+  const selected = keys ?? defaultColumnKeys(definition);
+  const columns = selectColumns(definition, selected);
+  const rows = definition.sort ? [...items].sort(definition.sort) : items;
+
+  switch (format) {
+    case "csv": {
+      const lines = [
+        columns.map((column) => csvEscape(column.header)),
+        ...rows.map((item) =>
+          columns.map((column) => csvEscape(displayText(column, item))),
+        ),
+      ].map((cells) => cells.join(","));
+      // The BOM makes Excel read the file as UTF-8
+      const blob = new Blob([`\uFEFF${lines.join("\r\n")}`], {
+        type: "text/csv;charset=utf-8",
+      });
+      downloadBlob(blob, `${fileName}.csv`);
+      break;
+    }
+
+    case "json": {
+      const data = rows.map((item) =>
+        Object.fromEntries(
+          columns.map((column) => [column.key, column.value(item)]),
+        ),
+      );
+      const blob = new Blob([JSON.stringify(data, null, 2)], {
+        type: "application/json",
+      });
+      downloadBlob(blob, `${fileName}.json`);
+      break;
+    }
+
+    case "xlsx": {
+      const wb = XLSX.utils.book_new();
+      const appendSheet = ({ name, rows: sheetRows, widths }: ExportSheet) => {
+        // Numbers stay numeric cells; formatted ones get their number format
+        const ws = XLSX.utils.aoa_to_sheet(
+          sheetRows.map((cells) =>
+            cells.map((cell) =>
+              isFormattedNumber(cell)
+                ? { t: "n", v: cell.value, z: cell.numberFormat }
+                : cell,
+            ),
+          ),
+        );
+        if (widths) ws["!cols"] = widths.map((wch) => ({ wch }));
+        XLSX.utils.book_append_sheet(wb, ws, name);
+      };
+
+      appendSheet({
+        name: definition.name,
+        rows: [
+          columns.map((column) => column.header),
+          ...rows.map((item) =>
+            columns.map((column) => {
+              const value = column.value(item);
+              return column.numberFormat && typeof value === "number"
+                ? { value, numberFormat: column.numberFormat }
+                : value;
+            }),
+          ),
+        ],
+        widths: columns.map((column) => column.width),
+      });
+      for (const sheet of definition.extraSheets?.(rows) ?? []) {
+        appendSheet(sheet);
+      }
+      XLSX.writeFile(wb, `${fileName}.xlsx`);
+      break;
+    }
+
+    case "pdf": {
+      // Loaded on demand: the PDF renderer is large
+      const { pdf } = await import("@react-pdf/renderer");
+      const blob = await pdf(
+        <TablePDF
+          definition={definition}
+          items={rows}
+          columns={selected}
+          title={title}
+        />,
+      ).toBlob();
+      downloadBlob(blob, `${fileName}.pdf`);
+      break;
+    }
+  }
+
+  toast.success(`${definition.name} exported to ${format.toUpperCase()}`);
+}
+
+// --- DEFINITIONS ---
+
+/**
+ * Lowest, average and highest of a list of prices (all 0 when empty).
+ */
+export const priceStats = (prices: number[]) => ({
+  min: prices.length ? Math.min(...prices) : 0,
+  max: prices.length ? Math.max(...prices) : 0,
+  avg: prices.length
+    ? prices.reduce((sum, price) => sum + price, 0) / prices.length
+    : 0,
+});
+
+/**
+ * Products, with Categories and Summary sheets in XLSX. Prices are in the
+ * currency of `priceFormat`.
+ */
+export const productExportDefinition = (
   categoryMap: Map<string, string>,
-  fileName: string,
-) => {
-  // Format data for export
-  const dataToExport = products.map((prod) => ({
-    ID: prod.id,
-    Name: prod.name,
-    Category: categoryMap.get(prod.categoryId) || "Uncategorized",
-    Price: prod.price,
-    Description: prod.description,
-    // We explicitly omit the large imageBase64 string
-  }));
-
-  // Create worksheet and workbook
-  const ws = XLSX.utils.json_to_sheet(dataToExport);
-  const wb = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(wb, ws, "Products");
-
-  // Set column widths
-  ws["!cols"] = [
-    { wch: 30 }, // ID
-    { wch: 40 }, // Name
-    { wch: 25 }, // Category
-    { wch: 15 }, // Price
-    { wch: 60 }, // Description
-  ];
-
-  // Trigger file download
-  XLSX.writeFile(wb, `${fileName}.xlsx`);
-  toast.success("Products exported to XLSX");
+  priceFormat: PriceFormat = BASE_PRICE_FORMAT,
+): ExportDefinition<Product> => {
+  const categoryName = (prod: Product) =>
+    categoryMap.get(prod.categoryId) || "Uncategorized";
+  const { xlsxFormat } = CURRENCIES[priceFormat.currency];
+  const money = (price: number): FormattedNumber => ({
+    value: convertPrice(price, priceFormat),
+    numberFormat: xlsxFormat,
+  });
+
+  return {
+    name: "Products",
+    columns: [
+      {
+        key: "image",
+        header: "Image",
+        // Storage URL of the primary image; legacy inline images are skipped
+        value: (prod) => getProductImages(prod)[0]?.urls.original ?? null,
+        image: (prod) => getProductImageUrl(prod, "thumbnail"),
+        width: 10,
+      },
+      { key: "id", header: "ID", value: (prod) => prod.id, width: 30 },
+      { key: "name", header: "Name", value: (prod) => prod.name, width: 40 },
+      { key: "sku", header: "SKU", value: (prod) => prod.sku ?? null, width: 18 },
+      {
+        key: "barcode",
+        header: "Barcode",
+        value: (prod) => prod.barcode ?? null,
+        width: 18,
+        defaultSelected: false,
+      },
+      {
+        key: "category",
+        header: "Category",
+        value: categoryName,
+        width: 25,
+      },
+      {
+        key: "price",
+        header: `Price (${priceFormat.currency})`,
+        value: (prod) => convertPrice(prod.price, priceFormat),
+        format: (prod) => formatPrice(prod.price, priceFormat),
+        numberFormat: xlsxFormat,
+        width: 15,
+      },
+      {
+        key: "stock",
+        header: "Stock",
+        // Empty for products whose stock isn't tracked
+        value: (prod) => prod.stock ?? null,
+        width: 10,
+      },
+      {
+        key: "description",
+        header: "Description",
+        value: (prod) => prod.description,
+        width: 60,
+      },
+      {
+        key: "createdAt",
+        header: "Created",
+        value: (prod) => prod.createdAt?.toISOString() ?? null,
+        format: (prod) => prod.createdAt?.toLocaleDateString() ?? "",
+        width: 20,
+        defaultSelected: false,
+      },
+    ],
+    extraSheets: (products) => {
+      const byCategory = new Map<string, Product[]>();
+      for (const prod of products) {
+        const name = categoryName(prod);
+        byCategory.set(name, [...(byCategory.get(name) ?? []), prod]);
+      }
+      const overall = priceStats(products.map((prod) => prod.price));
+
+      return [
+        {
+          name: "Categories",
+          rows: [
+            ["Category", "Products", "Min Price", "Avg Price", "Max Price"],
+            ...[...byCategory]
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([name, items]) => {
+                const stats = priceStats(items.map((prod) => prod.price));
+                return [
+                  name,
+                  items.length,
+                  money(stats.min),
+                  money(stats.avg),
+                  money(stats.max),
+                ];
+              }),
+          ],
+          widths: [25, 10, 12, 12, 12],
+        },
+        {
+          name: "Summary",
+          rows: [
+            ["Metric", "Value"],
+            ["Products", products.length],
+            ["Categories", byCategory.size],
+            ["Currency", priceFormat.currency],
+            ["Min Price", money(overall.min)],
+            ["Avg Price", money(overall.avg)],
+            ["Max Price", money(overall.max)],
+            [
+              "Units in Stock",
+              products.reduce((sum, prod) => sum + (prod.stock ?? 0), 0),
+            ],
+            [
+              "Out of Stock",
+              products.filter(isOutOfStock).length,
+            ],
+            ["Generated", new Date().toLocaleString()],
+          ],
+          widths: [20, 25],
+        },
+      ];
+    },
+  };
 };
 
+/**
+ * Categories, with their product counts.
+ */
+export const categoryExportDefinition = (
+  productCounts: Map<string, number>,
+  categoryPaths: Map<string, string> = new Map(), // ID → full path
+): ExportDefinition<Category> => ({
+  name: "Categories",
+  columns: [
+    { key: "id", header: "ID", value: (cat) => cat.id, width: 30 },
+    { key: "name", header: "Name", value: (cat) => cat.name, width: 30 },
+    {
+      key: "path",
+      header: "Path",
+      value: (cat) => categoryPaths.get(cat.id) ?? cat.name,
+      width: 45,
+    },
+    {
+      key: "parentId",
+      header: "Parent ID",
+      value: (cat) => cat.parentId ?? null,
+      width: 30,
+      defaultSelected: false,
+    },
+    {
+      key: "description",
+      header: "Description",
+      value: (cat) => cat.description,
+      width: 60,
+    },
+    {
+      key: "products",
+      header: "Products",
+      value: (cat) => productCounts.get(cat.id) ?? 0,
+      width: 10,
+    },
+  ],
+  // Parents right before their children
+  sort: (a, b) =>
+    (categoryPaths.get(a.id) ?? a.name).localeCompare(
+      categoryPaths.get(b.id) ?? b.name,
+    ),
+  extraSheets: (categories) => [
+    {
+      name: "Summary",
+      rows: [
+        ["Metric", "Value"],
+        ["Categories", categories.length],
+        [
+          "Products",
+          categories.reduce(
+            (sum, cat) => sum + (productCounts.get(cat.id) ?? 0),
+            0,
+          ),
+        ],
+        [
+          "Empty Categories",
+          categories.filter((cat) => !productCounts.get(cat.id)).length,
+        ],
+        ["Generated", new Date().toLocaleString()],
+      ],
+      widths: [20, 25],
+    },
+  ],
+});
+
 // --- PDF EXPORT COMPONENT ---
 
 const pdfStyles = StyleSheet.create({
@@ -127,15 +569,16 @@ const pdfStyles = StyleSheet.create({
     fontSize: 8,
     textAlign: "left",
   },
+  // Same 16:9 frame as the catalog cards
   image: {
-    width: 25,
-    height: 25,
+    width: 40,
+    height: 22.5,
     objectFit: "cover",
     borderRadius: 3,
   },
   noImage: {
-    width: 25,
-    height: 25,
+    width: 40,
+    height: 22.5,
     backgroundColor: "#f0f0f0",
     justifyContent: "center",
     alignItems: "center",
@@ -147,75 +590,110 @@ const pdfStyles = StyleSheet.create({
   },
 });
 
-interface ProductPDFProps {
-  products: Product[];
-  categoryMap: Map<string, string>;
+interface PdfTableProps<T> {
+  columns: ExportColumn<T>[];
+  items: T[];
+  repeatHeader?: boolean; // Repeat the header row on every page
 }
 
-export const ProductPDF: React.FC<ProductPDFProps> = ({
-  products,
-  categoryMap,
-}) => (
-  <Document>
-    <Page size="A4" style={pdfStyles.page}>
-      <Text style={pdfStyles.title}> Product Report </Text>
-      <View style={pdfStyles.table}>
-        {/* Table Header */}
-        <View style={[pdfStyles.tableRow, pdfStyles.tableHeader]} fixed>
-          <View style={[pdfStyles.tableCol, { width: "10%" }]}>
-            <Text style={pdfStyles.tableColHeader}> Image </Text>
-          </View>
-          <View style={[pdfStyles.tableCol, { width: "25%" }]}>
-            <Text style={pdfStyles.tableColHeader}> Name </Text>
-          </View>
-          <View style={[pdfStyles.tableCol, { width: "20%" }]}>
-            <Text style={pdfStyles.tableColHeader}> Category </Text>
-          </View>
-          <View style={[pdfStyles.tableCol, { width: "15%" }]}>
-            <Text style={pdfStyles.tableColHeader}> Price </Text>
-          </View>
-          <View style={[pdfStyles.tableCol, { width: "30%" }]}>
-            <Text style={pdfStyles.tableColHeader}> Description </Text>
-          </View>
-        </View>
+/**
+ * Table body shared by the PDF documents. Column widths are the columns'
+ * widths, scaled to fill the available space.
+ */
+export function PdfTable<T>({
+  columns,
+  items,
+  repeatHeader = true,
+}: PdfTableProps<T>) {
+  const totalWidth = columns.reduce((sum, column) => sum + column.width, 0);
+  const widthOf = (column: ExportColumn<T>) =>
+    `${(column.width / totalWidth) * 100}%`;
 
-        {/* Table Body */}
-        {products.map((prod) => (
-          <View key={prod.id} style={pdfStyles.tableRow} wrap={false}>
-            {/* Image */}
-            <View style={[pdfStyles.tableCol, { width: "10%" }]}>
-              {prod.imageBase64 ? (
-                <Image style={pdfStyles.image} src={prod.imageBase64} />
-              ) : (
-                <View style={pdfStyles.noImage}>
-                  <Text style={pdfStyles.noImageText}> N / A </Text>
-                </View>
-              )}
-            </View>
-            {/* Name */}
-            <View style={[pdfStyles.tableCol, { width: "25%" }]}>
-              <Text style={pdfStyles.cellText}> {prod.name} </Text>
-            </View>
-            {/* Category */}
-            <View style={[pdfStyles.tableCol, { width: "20%" }]}>
-              <Text style={pdfStyles.cellText}>
-                {categoryMap.get(prod.categoryId) || "Uncategorized"}
-              </Text>
-            </View>
-            {/* Price */}
-            <View style={[pdfStyles.tableCol, { width: "15%" }]}>
-              <Text style={pdfStyles.cellText}>
-                {" "}
-                {formatPrice(prod.price)}{" "}
-              </Text>
-            </View>
-            {/* Description */}
-            <View style={[pdfStyles.tableCol, { width: "30%" }]}>
-              <Text style={pdfStyles.cellTextSmall}> {prod.description} </Text>
-            </View>
+  return (
+    <View style={pdfStyles.table}>
+      {/* Table Header */}
+      <View
+        style={[pdfStyles.tableRow, pdfStyles.tableHeader]}
+        fixed={repeatHeader}
+      >
+        {columns.map((column) => (
+          <View
+            key={column.key}
+            style={[pdfStyles.tableCol, { width: widthOf(column) }]}
+          >
+            <Text style={pdfStyles.tableColHeader}> {column.header} </Text>
           </View>
         ))}
       </View>
-    </Page>
-  </Document>
-);
+
+      {/* Table Body */}
+      {items.map((item, index) => (
+        <View
+          // biome-ignore lint/suspicious/noArrayIndexKey: rows have no common ID field
+          key={index}
+          style={pdfStyles.tableRow}
+          wrap={false}
+        >
+          {columns.map((column) => {
+            const imageUrl = column.image?.(item);
+            return (
+              <View
+                key={column.key}
+                style={[pdfStyles.tableCol, { width: widthOf(column) }]}
+              >
+                {column.image ? (
+                  imageUrl ? (
+                    <Image style={pdfStyles.image} src={imageUrl} />
+                  ) : (
+                    <View style={pdfStyles.noImage}>
+                      <Text style={pdfStyles.noImageText}> N / A </Text>
+                    </View>
+                  )
+                ) : (
+                  <Text
+                    style={
+                      column.width >= 40
+                        ? pdfStyles.cellTextSmall
+                        : pdfStyles.cellText
+                    }
+                  >
+                    {displayText(column, item)}
+                  </Text>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+interface TablePDFProps<T> {
+  definition: ExportDefinition<T>;
+  items: T[];
+  columns?: string[]; // Keys of the columns to include
+  title?: string;
+}
+
+/**
+ * Renders any export definition as a paginated table.
+ */
+export function TablePDF<T>({
+  definition,
+  items,
+  columns,
+  title = `${definition.name} Report`,
+}: TablePDFProps<T>) {
+  return (
+    <Document>
+      <Page size="A4" style={pdfStyles.page}>
+        <Text style={pdfStyles.title}> {title} </Text>
+        <PdfTable
+          columns={selectColumns(definition, columns)}
+          items={items}
+        />
+      </Page>
+    </Document>
+  );
+}
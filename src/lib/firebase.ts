@@ -1,11 +1,14 @@
 // Import the functions you need from the SDKs you need
 import { initializeApp } from "firebase/app";
 import { getFirestore } from "firebase/firestore";
-import { getAuth } from "firebase/auth";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
+import { connectStorageEmulator, getStorage } from "firebase/storage";
 
 // Your web app's Firebase configuration
 const firebaseConfig = {
-	apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+	// The SDK refuses to initialize without an API key, even when it never
+	// talks to Firebase (local data source). Any placeholder works there.
+	apiKey: import.meta.env.VITE_FIREBASE_API_KEY || "local-placeholder-key",
 	authDomain: "vite-university-task.firebaseapp.com",
 	projectId: "vite-university-task",
 	storageBucket: "vite-university-task.firebasestorage.app",
@@ -17,5 +20,20 @@ const firebaseConfig = {
 const app = initializeApp(firebaseConfig);
 const db = getFirestore(app);
 const auth = getAuth(app);
+const storage = getStorage(app);
 
-export { app, db, auth };
+// Point at the local emulators when configured (e.g. "127.0.0.1:9099")
+const authEmulatorHost = import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_HOST;
+if (authEmulatorHost) {
+	connectAuthEmulator(auth, `http://${authEmulatorHost}`, {
+		disableWarnings: true,
+	});
+}
+
+const storageEmulatorHost = import.meta.env.VITE_FIREBASE_STORAGE_EMULATOR_HOST;
+if (storageEmulatorHost) {
+	const [host, port] = storageEmulatorHost.split(":");
+	connectStorageEmulator(storage, host, Number(port));
+}
+
+export { app, db, auth, storage };
@@ -1,26 +1,23 @@
 // useFirestoreCollection.ts
 
-import { db } from "@/lib/firebase";
 import {
-  type DocumentData,
-  type QueryDocumentSnapshot,
-  type QuerySnapshot,
-  collection,
-  getDocs,
-  limit,
-  query,
-  startAfter,
-} from "firebase/firestore";
-import { useCallback, useEffect, useState } from "react";
-
-// Define a common interface for data fetched from a collection
-interface FirestoreDocument extends DocumentData {
-  id: string; // The required document ID
-}
+  type CollectionQuery,
+  type Entity,
+  type OrderByClause,
+  type PageCursor,
+  type WhereClause,
+  applyDocumentChanges,
+  getRepository,
+} from "@/lib/data";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 // Define the shape of the hook's options
-interface FirestoreCollectionOptions {
+interface FirestoreCollectionOptions<T> {
   pageSize: number;
+  where?: WhereClause<T>[]; // Server-side filters
+  orderBy?: OrderByClause<T>[]; // Server-side ordering (ID is the tiebreaker)
+  enabled?: boolean; // Set to false to skip fetching (defaults to true)
+  live?: boolean; // Subscribe to real-time updates instead of fetching once
 }
 
 // Define the shape of the hook's return value
@@ -29,117 +26,347 @@ interface HookState<T> {
   loading: boolean; // True during initial load (page 1)
   loadingMore: boolean; // True when loading subsequent pages
   error: string | null;
-  hasMore: boolean; // True if more documents might exist
-  loadMore: () => Promise<void>; // Function to load the next page
+  hasMore: boolean; // True if more documents might exist after `data`
+  hasPrevious: boolean; // True if documents exist before `data`
+  page: number; // 1-based page number when using nextPage/previousPage
+  totalCount: number | null; // Total matching documents, once counted
+  loadMore: () => Promise<void>; // Function to append the next page
+  nextPage: () => Promise<void>; // Replace `data` with the next page
+  previousPage: () => Promise<void>; // Replace `data` with the previous page
   reload: () => Promise<void>; // Function to clear data and reload page 1
 }
 
 /**
- * Custom hook to fetch documents from a Firestore collection with pagination.
- * @param collectionName The name of the Firestore collection (e.g., 'category').
- * @param options An object containing pagination options, like `pageSize`.
+ * Custom hook to fetch documents from a collection with pagination.
+ * Reads go through the active data source (Firestore or local), see `@/lib/data`.
+ *
+ * Use `loadMore` for "infinite" lists that keep growing, or `nextPage` /
+ * `previousPage` to show one page at a time. Changing `where`, `orderBy` or
+ * `pageSize` resets the hook to page 1.
+ *
+ * With `live: true` the hook listens to the first `pages × pageSize` matching
+ * documents and applies added/modified/removed changes to `data` as they
+ * happen, so callers never need to `reload()` after a write. The listener is
+ * removed on unmount.
+ * @param collectionName The name of the collection (e.g., 'category').
+ * @param options Pagination, filtering and ordering options.
  * @returns An object containing the data, loading states, error, and pagination functions.
  */
-export function useFirestoreCollection<T extends FirestoreDocument>(
+export function useFirestoreCollection<T extends Entity>(
   collectionName: string,
-  options: FirestoreCollectionOptions,
+  options: FirestoreCollectionOptions<T>,
 ): HookState<T> {
-  const { pageSize } = options;
+  const { pageSize, enabled = true, live = false } = options;
+
+  // Callers usually pass inline arrays, so compare the query by value.
+  const queryKey = JSON.stringify({
+    where: options.where ?? [],
+    orderBy: options.orderBy ?? [],
+  });
+  const collectionQuery = useMemo(
+    () => JSON.parse(queryKey) as CollectionQuery<T>,
+    [queryKey],
+  );
 
   const [data, setData] = useState<T[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
+  const [loading, setLoading] = useState<boolean>(enabled);
   const [loadingMore, setLoadingMore] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [lastDoc, setLastDoc] = useState<QueryDocumentSnapshot | null>(null);
+  const [firstDoc, setFirstDoc] = useState<PageCursor | null>(null);
+  const [lastDoc, setLastDoc] = useState<PageCursor | null>(null);
   const [hasMore, setHasMore] = useState<boolean>(true);
+  const [hasPrevious, setHasPrevious] = useState<boolean>(false);
+  const [page, setPage] = useState<number>(1);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
 
-  // Helper to process a QuerySnapshot and extract data + last doc
-  const processSnapshot = (
-    snapshot: QuerySnapshot<DocumentData>,
-  ): { processedData: T[]; lastVisibleDoc: QueryDocumentSnapshot | null } => {
-    const fetchedData = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...(doc.data() as Omit<T, "id">),
-    })) as T[];
-
-    const lastVisibleDoc = snapshot.docs[snapshot.docs.length - 1] || null;
-    return { processedData: fetchedData, lastVisibleDoc };
-  };
+  // Incremented on every reset so responses for an old query are dropped.
+  const requestId = useRef(0);
+
+  // --- Live mode state ---
+  const [liveItems, setLiveItems] = useState<T[]>([]);
+  const [subscribedPages, setSubscribedPages] = useState<number>(1);
+  const [windowed, setWindowed] = useState<boolean>(false); // One page shown
+  const [subscriptionKey, setSubscriptionKey] = useState<number>(0);
+
+  // Reset live paging during render when the query changes, so the listener
+  // below never subscribes with the previous query's page count.
+  const pagingKey = `${collectionName}|${queryKey}|${pageSize}`;
+  const [lastPagingKey, setLastPagingKey] = useState(pagingKey);
+  if (live && lastPagingKey !== pagingKey) {
+    setLastPagingKey(pagingKey);
+    setSubscribedPages(1);
+    setWindowed(false);
+    setPage(1);
+  }
 
   // Function to fetch the FIRST page (or reload)
-  // biome-ignore lint/correctness/useExhaustiveDependencies: <explanation>
   const reload = useCallback(async () => {
+    if (live) {
+      // Re-subscribing delivers a fresh snapshot.
+      setLoading(true);
+      setSubscribedPages(1);
+      setWindowed(false);
+      setPage(1);
+      setSubscriptionKey((prev) => prev + 1);
+      return;
+    }
+
+    const currentRequest = ++requestId.current;
     setLoading(true);
     setError(null);
     setHasMore(true); // Assume there's more until proven otherwise
-    setLastDoc(null); // Reset cursor
+    setHasPrevious(false);
+    setFirstDoc(null); // Reset cursors
+    setLastDoc(null);
+    setPage(1);
+    setTotalCount(null);
 
     try {
-      const collectionRef = collection(db, collectionName);
-      const q = query(collectionRef, limit(pageSize));
-      const querySnapshot = await getDocs(q);
-
-      const { processedData, lastVisibleDoc } = processSnapshot(querySnapshot);
+      const repository = getRepository<T>(collectionName);
+      const [firstPage, count] = await Promise.all([
+        repository.paginate({ ...collectionQuery, pageSize }),
+        repository.count(collectionQuery),
+      ]);
+      if (currentRequest !== requestId.current) return;
 
-      setData(processedData);
-      setLastDoc(lastVisibleDoc);
+      setData(firstPage.items);
+      setFirstDoc(firstPage.startCursor);
+      setLastDoc(firstPage.endCursor);
       // If we fetched *less* than the page size, we're at the end.
-      setHasMore(processedData.length === pageSize);
+      setHasMore(firstPage.hasMore && firstPage.items.length < count);
+      setTotalCount(count);
     } catch (err) {
+      if (currentRequest !== requestId.current) return;
       console.error(`Error fetching collection '${collectionName}':`, err);
       setError(`Failed to load data from '${collectionName}'.`);
       setData([]);
       setHasMore(false); // Can't fetch more if first load failed
     } finally {
-      setLoading(false);
+      if (currentRequest === requestId.current) setLoading(false);
     }
-  }, [collectionName, pageSize]); // Re-run if collection or page size changes
+  }, [collectionName, collectionQuery, pageSize, live]);
 
-  // Function to fetch the NEXT page
-  // biome-ignore lint/correctness/useExhaustiveDependencies: <explanation>
-  const loadMore = useCallback(async () => {
-    // Don't fetch if already loading, or if there are no more docs, or if we don't have a cursor
-    if (loadingMore || !hasMore || !lastDoc) {
-      if (!lastDoc && hasMore) {
-        // This case means reload() returned 0 docs.
-        setHasMore(false);
+  /**
+   * Fetches the page adjacent to the current window. `append` keeps the
+   * existing data (loadMore); otherwise the window is replaced.
+   */
+  const fetchAdjacent = useCallback(
+    async (direction: "forward" | "backward", append: boolean) => {
+      const cursor = direction === "forward" ? lastDoc : firstDoc;
+      const canMove = direction === "forward" ? hasMore : hasPrevious;
+
+      if (live) {
+        // Live lists grow the listener instead of fetching with cursors.
+        setWindowed(!append);
+        if (direction === "backward") {
+          setPage((prev) => Math.max(prev - 1, 1));
+          return;
+        }
+        const targetPage = append ? subscribedPages + 1 : page + 1;
+        const alreadyLoaded = liveItems.length > page * pageSize;
+        if (!append && !alreadyLoaded && !hasMore) return;
+        if (!append) setPage(targetPage);
+        if (targetPage > subscribedPages && hasMore && !loadingMore) {
+          setLoadingMore(true);
+          setSubscribedPages(targetPage);
+        }
+        return;
       }
-      return;
-    }
 
-    setLoadingMore(true);
-    setError(null);
+      // Don't fetch if already loading, if there is nothing left, or if we don't have a cursor
+      if (loadingMore || !canMove || !cursor) {
+        if (!cursor && canMove) {
+          // This case means reload() returned 0 docs.
+          setHasMore(false);
+        }
+        return;
+      }
 
-    try {
-      const collectionRef = collection(db, collectionName);
-      const q = query(collectionRef, startAfter(lastDoc), limit(pageSize));
-      const querySnapshot = await getDocs(q);
-
-      const { processedData, lastVisibleDoc } = processSnapshot(querySnapshot);
-
-      if (processedData.length > 0) {
-        setData((prevData) => [...prevData, ...processedData]);
-        setLastDoc(lastVisibleDoc);
-        setHasMore(processedData.length === pageSize);
-      } else {
-        // We loaded a page and got 0 docs, so we're at the end.
-        setHasMore(false);
+      const currentRequest = requestId.current;
+      setLoadingMore(true);
+      setError(null);
+
+      try {
+        const result = await getRepository<T>(collectionName).paginate({
+          ...collectionQuery,
+          pageSize,
+          ...(direction === "forward" ? { after: cursor } : { before: cursor }),
+        });
+        if (currentRequest !== requestId.current) return;
+
+        if (result.items.length === 0) {
+          // We loaded a page and got 0 docs, so we're at the end.
+          if (direction === "forward") setHasMore(false);
+          else setHasPrevious(false);
+          return;
+        }
+
+        if (append) {
+          setData((prevData) => [...prevData, ...result.items]);
+          setLastDoc(result.endCursor);
+          setHasMore(result.hasMore);
+          return;
+        }
+
+        setData(result.items);
+        setFirstDoc(result.startCursor);
+        setLastDoc(result.endCursor);
+        if (direction === "forward") {
+          setPage((prev) => prev + 1);
+          setHasMore(result.hasMore);
+          setHasPrevious(true);
+        } else {
+          setPage((prev) => Math.max(prev - 1, 1));
+          setHasMore(true);
+          setHasPrevious(result.hasMore);
+        }
+      } catch (err) {
+        if (currentRequest !== requestId.current) return;
+        console.error(`Error loading more data from '${collectionName}':`, err);
+        setError(`Failed to load more data from '${collectionName}'.`);
+        // Don't clear existing data, just report the error
+      } finally {
+        if (currentRequest === requestId.current) setLoadingMore(false);
       }
-    } catch (err) {
-      console.error(`Error loading more data from '${collectionName}':`, err);
-      setError(`Failed to load more data from '${collectionName}'.`);
-      // Don't clear existing data, just report the error
-    } finally {
-      setLoadingMore(false);
-    }
-  }, [collectionName, pageSize, lastDoc, hasMore, loadingMore]);
+    },
+    [
+      collectionName,
+      collectionQuery,
+      pageSize,
+      firstDoc,
+      lastDoc,
+      hasMore,
+      hasPrevious,
+      loadingMore,
+      live,
+      liveItems.length,
+      page,
+      subscribedPages,
+    ],
+  );
+
+  // Function to fetch the NEXT page
+  const loadMore = useCallback(
+    () => fetchAdjacent("forward", true),
+    [fetchAdjacent],
+  );
+  const nextPage = useCallback(
+    () => fetchAdjacent("forward", false),
+    [fetchAdjacent],
+  );
+  const previousPage = useCallback(
+    () => fetchAdjacent("backward", false),
+    [fetchAdjacent],
+  );
 
   // Initial fetch (runs reload)
   useEffect(() => {
+    if (!enabled) {
+      // Drop whatever an earlier query left behind.
+      requestId.current++;
+      setData([]);
+      setLiveItems([]);
+      setLoading(false);
+      return;
+    }
+    if (live) {
+      // The listener below takes care of it; its first snapshot ends this
+      setLoading(true);
+      return;
+    }
     reload();
     // We pass `reload` in the dependency array.
-    // This ensures it re-runs if collectionName or pageSize changes.
-  }, [reload]);
+    // This ensures it re-runs if the collection, query or page size changes.
+  }, [reload, enabled, live]);
+
+  // Real-time listener (live mode only)
+  // biome-ignore lint/correctness/useExhaustiveDependencies: subscriptionKey forces a re-subscribe on reload()
+  useEffect(() => {
+    if (!live || !enabled) return;
+
+    const repository = getRepository<T>(collectionName);
+    const limitCount = subscribedPages * pageSize;
+    let active = true;
+    let firstSnapshot = true;
+    setError(null);
 
-  return { data, loading, loadingMore, error, hasMore, loadMore, reload };
+    const refreshCount = () => {
+      repository
+        .count(collectionQuery)
+        .then((count) => active && setTotalCount(count))
+        .catch((err) => console.error("Error counting documents:", err));
+    };
+
+    const unsubscribe = repository.subscribe(
+      { ...collectionQuery, limit: limitCount },
+      (items, changes) => {
+        // A new listener starts from a full snapshot; after that, patch.
+        const isFirst = firstSnapshot;
+        firstSnapshot = false;
+        setLiveItems((prev) =>
+          isFirst ? items : applyDocumentChanges(prev, changes),
+        );
+        setHasMore(items.length === limitCount);
+        setLoading(false);
+        setLoadingMore(false);
+        if (isFirst || changes.some((change) => change.type !== "modified")) {
+          refreshCount();
+        }
+      },
+      (err) => {
+        console.error(`Error listening to '${collectionName}':`, err);
+        setError(`Failed to load data from '${collectionName}'.`);
+        setLoading(false);
+        setLoadingMore(false);
+      },
+    );
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [
+    live,
+    enabled,
+    collectionName,
+    collectionQuery,
+    pageSize,
+    subscribedPages,
+    subscriptionKey,
+  ]);
+
+  if (live) {
+    const start = (page - 1) * pageSize;
+    return {
+      data: windowed ? liveItems.slice(start, start + pageSize) : liveItems,
+      loading,
+      loadingMore,
+      error,
+      hasMore: windowed
+        ? liveItems.length > start + pageSize || hasMore
+        : hasMore,
+      hasPrevious: windowed && page > 1,
+      page,
+      totalCount,
+      loadMore,
+      nextPage,
+      previousPage,
+      reload,
+    };
+  }
+
+  return {
+    data,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    hasPrevious,
+    page,
+    totalCount,
+    loadMore,
+    nextPage,
+    previousPage,
+    reload,
+  };
 }
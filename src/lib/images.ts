@@ -0,0 +1,155 @@
+// images.ts
+
+// Catalog cards show images as `aspect-video`, so uploads are cropped to it
+export const CATALOG_IMAGE_ASPECT = 16 / 9;
+
+// Formats the pipeline can encode to
+export type ImageFormat = "image/webp" | "image/jpeg";
+
+// A rectangle in the source image's own pixels
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ProcessImageOptions {
+  crop?: CropRect; // Defaults to the whole image
+  maxDimension: number; // Longest side of the output, never upscaled
+  format?: ImageFormat;
+  quality?: number; // 0..1, ignored by lossless formats
+}
+
+/**
+ * Decodes an image file. Throws if the browser can't read it.
+ */
+export async function decodeImage(source: Blob): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(source);
+  } catch {
+    throw new Error("This file could not be read as an image.");
+  }
+}
+
+/**
+ * Returns the largest rectangle with the given aspect ratio, centered in a
+ * `width` × `height` image.
+ */
+export function centeredCrop(
+  width: number,
+  height: number,
+  aspect: number,
+): CropRect {
+  const cropWidth = Math.min(width, height * aspect);
+  const cropHeight = cropWidth / aspect;
+  return {
+    x: (width - cropWidth) / 2,
+    y: (height - cropHeight) / 2,
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+/**
+ * Crops, scales down and re-encodes an image. Runs entirely in the browser.
+ */
+export async function processImage(
+  source: Blob | ImageBitmap,
+  {
+    crop,
+    maxDimension,
+    format = "image/webp",
+    quality = 0.85,
+  }: ProcessImageOptions,
+): Promise<Blob> {
+  const bitmap = source instanceof Blob ? await decodeImage(source) : source;
+  try {
+    const area = crop ?? {
+      x: 0,
+      y: 0,
+      width: bitmap.width,
+      height: bitmap.height,
+    };
+    const scale = Math.min(1, maxDimension / Math.max(area.width, area.height));
+    const width = Math.max(1, Math.round(area.width * scale));
+    const height = Math.max(1, Math.round(area.height * scale));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas 2D context is not available");
+    // JPEG has no alpha: paint transparent areas white instead of black
+    if (format === "image/jpeg") {
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, width, height);
+    }
+    context.imageSmoothingQuality = "high";
+    context.drawImage(
+      bitmap,
+      area.x,
+      area.y,
+      area.width,
+      area.height,
+      0,
+      0,
+      width,
+      height,
+    );
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("Failed to encode image")),
+        format,
+        quality,
+      );
+    });
+  } finally {
+    // Only close bitmaps decoded here; callers own the ones they pass in
+    if (source instanceof Blob) bitmap.close();
+  }
+}
+
+/**
+ * Scales an image down so its longest side is at most `maxDimension`
+ * (never up) and re-encodes it.
+ */
+export function resizeImage(
+  source: Blob,
+  maxDimension: number,
+  format: ImageFormat = "image/webp",
+  quality = 0.85,
+): Promise<Blob> {
+  return processImage(source, { maxDimension, format, quality });
+}
+
+/**
+ * Converts a data URL (e.g. a legacy `imageBase64` field) back into a Blob.
+ */
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+/**
+ * Reads a Blob as a data URL, e.g. to embed an image in a generated PDF.
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Formats a byte count for display, e.g. `1.4 MB`.
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
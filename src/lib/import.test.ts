@@ -0,0 +1,208 @@
+import { getRepository } from "@/lib/data";
+import type { Category, Product } from "@/lib/export";
+import {
+  clearCollections,
+  makeCategory,
+  makeProduct,
+  seed,
+} from "@/test/fixtures";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  type ImportOptions,
+  autoMapColumns,
+  buildCategoryLookup,
+  commitImport,
+  findCategoryId,
+  parsePrice,
+  validateRows,
+} from "./import";
+
+const categoryMap = new Map([
+  ["c1", "Beverages"],
+  ["c2", "Beverages > Coffee"],
+  ["c3", "Beverages > Coffee > Beans"],
+  ["c4", "Beans"],
+]);
+
+const mapping = autoMapColumns(["ID", "Name", "Category", "Price (USD)"]);
+
+const validate = (
+  rows: Record<string, unknown>[],
+  options: Partial<ImportOptions> = {},
+) =>
+  validateRows(rows, mapping, {
+    categoryMap,
+    existingIds: new Set(["p1"]),
+    options: { upsert: true, createCategories: false, ...options },
+  });
+
+describe("autoMapColumns", () => {
+  it("matches export labels and aliases, ignoring case", () => {
+    expect(
+      autoMapColumns([" product name ", "CATEGORY", "Unit price", "Notes"]),
+    ).toEqual({
+      id: null,
+      name: " product name ",
+      category: "CATEGORY",
+      price: "Unit price",
+      description: null,
+    });
+  });
+
+  it("doesn't take prices exported in another currency", () => {
+    expect(autoMapColumns(["Price (NIO)"]).price).toBeNull();
+  });
+});
+
+describe("parsePrice", () => {
+  it("reads prices as people write them", () => {
+    expect(parsePrice(12.5)).toBe(12.5);
+    expect(parsePrice(" $1,234.50 ")).toBe(1234.5);
+    expect(parsePrice("7")).toBe(7);
+  });
+
+  it("returns NaN for blanks and text", () => {
+    expect(parsePrice("")).toBeNaN();
+    expect(parsePrice(undefined)).toBeNaN();
+    expect(parsePrice("free")).toBeNaN();
+  });
+});
+
+describe("findCategoryId", () => {
+  const lookup = buildCategoryLookup(categoryMap);
+
+  it("finds categories by path, ignoring case and spaces", () => {
+    expect(findCategoryId(lookup, " beverages > coffee ")).toBe("c2");
+  });
+
+  it("finds subcategories by their own name", () => {
+    expect(findCategoryId(lookup, "Coffee")).toBe("c2");
+  });
+
+  it("prefers a top-level category with the same name", () => {
+    expect(findCategoryId(lookup, "Beans")).toBe("c4");
+  });
+
+  it("returns undefined for unknown categories", () => {
+    expect(findCategoryId(lookup, "Snacks")).toBeUndefined();
+  });
+});
+
+describe("validateRows", () => {
+  it("creates new products and updates existing ones", () => {
+    const [created, updated] = validate([
+      { Name: "Latte", Category: "Coffee", "Price (USD)": "4" },
+      { ID: "p1", Name: "Espresso", Category: "Coffee", "Price (USD)": 3 },
+    ]);
+    expect(created).toMatchObject({
+      rowNumber: 2,
+      id: undefined,
+      categoryId: "c2",
+      price: 4,
+      action: "create",
+      errors: [],
+    });
+    expect(updated).toMatchObject({ rowNumber: 3, action: "update" });
+  });
+
+  it("ignores IDs unless updating existing products", () => {
+    const [row] = validate(
+      [{ ID: "p1", Name: "Espresso", Category: "Coffee", "Price (USD)": 3 }],
+      { upsert: false },
+    );
+    expect(row).toMatchObject({ id: undefined, action: "create" });
+  });
+
+  it("reports every problem of a row", () => {
+    const [row] = validate([{ ID: "a/b", "Price (USD)": "-1" }]);
+    expect(row.errors).toEqual([
+      "Name is required",
+      "Category is required",
+      "Price can't be negative",
+      "ID can't contain '/'",
+    ]);
+  });
+
+  it("rejects unknown categories unless they may be created", () => {
+    const rows = [{ Name: "Chips", Category: "Snacks", "Price (USD)": 1 }];
+    expect(validate(rows)[0].errors).toEqual(['Unknown category "Snacks"']);
+    expect(validate(rows, { createCategories: true })[0].errors).toEqual([]);
+  });
+
+  it("rejects duplicate IDs and rows exported per variant", () => {
+    const rows = validate([
+      { ID: "p2", Name: "A", Category: "Coffee", "Price (USD)": 1 },
+      { ID: "p2", Name: "B", Category: "Coffee", "Price (USD)": 1 },
+      { ID: "p1:v1", Name: "C", Category: "Coffee", "Price (USD)": 1 },
+    ]);
+    expect(rows.map((row) => row.errors)).toEqual([
+      [],
+      ["Duplicate ID in file"],
+      ["Rows exported per variant can't be imported"],
+    ]);
+  });
+});
+
+describe("commitImport", () => {
+  beforeEach(() => clearCollections("products", "categories"));
+
+  const products = async () =>
+    (
+      await getRepository<Product>("products").list({
+        orderBy: [{ field: "name" }],
+      })
+    ).map(({ name, price, categoryId }) => ({ name, price, categoryId }));
+
+  it("creates missing categories once and writes only valid rows", async () => {
+    await seed("products", [
+      makeProduct("p1", { name: "Espresso", price: 2, categoryId: "c2" }),
+    ]);
+
+    const rows = validate(
+      [
+        { ID: "p1", Name: "Espresso", Category: "Coffee", "Price (USD)": 3 },
+        { Name: "Chips", Category: "Snacks", "Price (USD)": 1 },
+        { Name: "Crisps", Category: "Snacks", "Price (USD)": 1 },
+        { Name: "", Category: "Coffee", "Price (USD)": 1 },
+      ],
+      { createCategories: true },
+    );
+    const result = await commitImport(rows, categoryMap);
+
+    expect(result.createdCategories).toBe(1);
+    expect(result.succeeded).toHaveLength(3);
+
+    const [snacks] = await getRepository<Category>("categories").list();
+    expect(snacks.name).toBe("Snacks");
+    expect(await products()).toEqual([
+      { name: "Chips", price: 1, categoryId: snacks.id },
+      { name: "Crisps", price: 1, categoryId: snacks.id },
+      { name: "Espresso", price: 3, categoryId: "c2" },
+    ]);
+  });
+
+  it("creates each missing level of a category path", async () => {
+    await seed("categories", [makeCategory("c1", "Beverages")]);
+    const rows = validate(
+      [
+        { Name: "Green tea", Category: "Beverages > Tea", "Price (USD)": 2 },
+        { Name: "Black tea", Category: "beverages>tea", "Price (USD)": 2 },
+        { Name: "Gum", Category: "Sweets > Chewing", "Price (USD)": 1 },
+      ],
+      { createCategories: true },
+    );
+    const result = await commitImport(rows, new Map([["c1", "Beverages"]]));
+
+    expect(result.createdCategories).toBe(3);
+    const created = await getRepository<Category>("categories").list();
+    const byName = new Map(created.map((cat) => [cat.name, cat]));
+    expect(byName.get("Tea")?.parentId).toBe("c1");
+    expect(byName.get("Sweets")?.parentId).toBeUndefined();
+    expect(byName.get("Chewing")?.parentId).toBe(byName.get("Sweets")?.id);
+    expect(await products()).toEqual([
+      { name: "Black tea", price: 2, categoryId: byName.get("Tea")?.id },
+      { name: "Green tea", price: 2, categoryId: byName.get("Tea")?.id },
+      { name: "Gum", price: 1, categoryId: byName.get("Chewing")?.id },
+    ]);
+  });
+});
@@ -0,0 +1,299 @@
+// import.ts
+
+import {
+  type BatchProgress,
+  type BatchResult,
+  dataSource,
+  writeInBatches,
+} from "@/lib/data";
+import { CATEGORY_PATH_SEPARATOR } from "@/lib/category-tree";
+import { BASE_CURRENCY } from "@/lib/currency";
+import type { Category, Product } from "@/lib/export";
+import { VARIANT_ID_SEPARATOR } from "@/lib/variants";
+import * as XLSX from "xlsx";
+
+// --- COLUMN MAPPING ---
+
+// Product fields a spreadsheet column can be mapped to
+export type ImportField = "id" | "name" | "category" | "price" | "description";
+
+// Column header mapped to each field, or null when the file has no such column
+export type ColumnMapping = Record<ImportField, string | null>;
+
+export const IMPORT_FIELDS: {
+  field: ImportField;
+  label: string; // The header the product export writes
+  aliases: string[];
+  required: boolean;
+}[] = [
+  { field: "id", label: "ID", aliases: ["product id"], required: false },
+  {
+    field: "name",
+    label: "Name",
+    aliases: ["product", "product name", "title"],
+    required: true,
+  },
+  {
+    field: "category",
+    label: "Category",
+    aliases: ["category name", "categoryid"],
+    required: true,
+  },
+  {
+    field: "price",
+    // Prices are imported in the base currency; exports in other
+    // currencies are deliberately not matched
+    label: `Price (${BASE_CURRENCY})`,
+    aliases: ["price", "unit price", "cost"],
+    required: true,
+  },
+  {
+    field: "description",
+    label: "Description",
+    aliases: ["details"],
+    required: false,
+  },
+];
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Maps each field to the first header matching its export label or an alias.
+ */
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const mapping = {} as ColumnMapping;
+  for (const { field, label, aliases } of IMPORT_FIELDS) {
+    const names = [label, ...aliases].map(normalize);
+    mapping[field] =
+      headers.find((header) => names.includes(normalize(header))) ?? null;
+  }
+  return mapping;
+}
+
+// --- PARSING ---
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, unknown>[]; // Keyed by header
+}
+
+/**
+ * Reads the first sheet of a CSV or XLSX file. The first row is the header.
+ */
+export async function parseSpreadsheet(file: File): Promise<ParsedSheet> {
+  const workbook = XLSX.read(await file.arrayBuffer());
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const [headerRow = [], ...dataRows] = XLSX.utils.sheet_to_json<unknown[]>(
+    sheet,
+    { header: 1, defval: "", blankrows: false },
+  );
+  const headers = headerRow.map((cell) => String(cell).trim());
+
+  return {
+    headers,
+    rows: dataRows.map((cells) =>
+      Object.fromEntries(headers.map((header, i) => [header, cells[i]])),
+    ),
+  };
+}
+
+// --- VALIDATION ---
+
+export interface ImportOptions {
+  upsert: boolean; // Update products whose ID already exists
+  createCategories: boolean; // Create categories that don't exist yet
+}
+
+export interface ImportRow {
+  rowNumber: number; // As shown in the spreadsheet (header is row 1)
+  id?: string;
+  name: string;
+  categoryName: string;
+  categoryId?: string; // Unset for categories that will be created
+  price: number;
+  description: string;
+  action: "create" | "update";
+  errors: string[];
+}
+
+const cellText = (value: unknown) =>
+  value === undefined || value === null ? "" : String(value).trim();
+
+/**
+ * Parses prices as written by people: "1,234.50", "$12", " 7 ".
+ */
+export const parsePrice = (value: unknown): number => {
+  if (typeof value === "number") return value;
+  const text = cellText(value).replace(/[$\s,]/g, "");
+  return text === "" ? Number.NaN : Number(text);
+};
+
+/**
+ * Inverts the `categoryMap` (ID → path) used across the app into a
+ * case-insensitive path → ID lookup. Subcategories can also be matched by
+ * their own name ("Beans" for "Beverages > Coffee > Beans") unless a
+ * category path already uses it.
+ */
+export function buildCategoryLookup(
+  categoryMap: Map<string, string>,
+): Map<string, string> {
+  const lookup = new Map<string, string>();
+  for (const [id, path] of categoryMap) lookup.set(normalize(path), id);
+  for (const [id, path] of categoryMap) {
+    const name = normalize(path.split(CATEGORY_PATH_SEPARATOR).at(-1) ?? "");
+    if (!lookup.has(name)) lookup.set(name, id);
+  }
+  return lookup;
+}
+
+/**
+ * The ID of the category written as `name` (a path or a name), if any.
+ */
+export const findCategoryId = (lookup: Map<string, string>, name: string) =>
+  lookup.get(normalize(name));
+
+/**
+ * Turns spreadsheet rows into products, checking each one. Rows with errors
+ * are kept (for the preview) but never written.
+ */
+export function validateRows(
+  rows: Record<string, unknown>[],
+  mapping: ColumnMapping,
+  {
+    categoryMap,
+    existingIds,
+    options,
+  }: {
+    categoryMap: Map<string, string>;
+    existingIds: Set<string>;
+    options: ImportOptions;
+  },
+): ImportRow[] {
+  const categoryLookup = buildCategoryLookup(categoryMap);
+  const seenIds = new Set<string>();
+  const read = (row: Record<string, unknown>, field: ImportField) => {
+    const header = mapping[field];
+    return header ? row[header] : undefined;
+  };
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const id = options.upsert ? cellText(read(row, "id")) : "";
+    const name = cellText(read(row, "name"));
+    const categoryName = cellText(read(row, "category"));
+    const price = parsePrice(read(row, "price"));
+    const categoryId = findCategoryId(categoryLookup, categoryName);
+
+    if (!name) errors.push("Name is required");
+    if (!categoryName) {
+      errors.push("Category is required");
+    } else if (!categoryId && !options.createCategories) {
+      errors.push(`Unknown category "${categoryName}"`);
+    }
+    if (Number.isNaN(price)) {
+      errors.push("Price must be a number");
+    } else if (price < 0) {
+      errors.push("Price can't be negative");
+    }
+    if (id) {
+      if (id.includes("/")) errors.push("ID can't contain '/'");
+      // A row of a per-variant export; it would update or create the
+      // wrong product
+      if (id.includes(VARIANT_ID_SEPARATOR)) {
+        errors.push("Rows exported per variant can't be imported");
+      }
+      if (seenIds.has(id)) errors.push("Duplicate ID in file");
+      seenIds.add(id);
+    }
+
+    return {
+      rowNumber: index + 2,
+      id: id || undefined,
+      name,
+      categoryName,
+      categoryId,
+      price: Number.isNaN(price) ? 0 : price,
+      description: cellText(read(row, "description")),
+      action: id && existingIds.has(id) ? "update" : "create",
+      errors,
+    };
+  });
+}
+
+// --- COMMIT ---
+
+export interface ImportResult extends BatchResult<ImportRow> {
+  createdCategories: number;
+}
+
+/**
+ * Writes the valid rows: first any missing categories (with their missing
+ * parents), then the products in batches. Rows with an existing ID update
+ * that product; the rest are created (keeping their ID, if they have one).
+ */
+export async function commitImport(
+  rows: ImportRow[],
+  categoryMap: Map<string, string>,
+  onProgress?: (progress: BatchProgress) => void,
+): Promise<ImportResult> {
+  const valid = rows.filter((row) => row.errors.length === 0);
+  const categoryLookup = buildCategoryLookup(categoryMap);
+
+  // Categories are created in one batch so products can reference them.
+  // A path ("Beverages > Tea") creates each missing level under the one
+  // before it.
+  const batch = dataSource.batch();
+  let createdCategories = 0;
+  for (const row of valid) {
+    if (row.categoryId || categoryLookup.has(normalize(row.categoryName))) {
+      continue;
+    }
+    const names = row.categoryName
+      .split(CATEGORY_PATH_SEPARATOR.trim())
+      .map((name) => name.trim());
+    let parentId: string | undefined;
+    names.forEach((name, level) => {
+      const key = normalize(
+        names.slice(0, level + 1).join(CATEGORY_PATH_SEPARATOR),
+      );
+      let id = categoryLookup.get(key);
+      if (!id) {
+        id = batch.create<Category>("categories", {
+          name,
+          description: "",
+          parentId,
+        });
+        categoryLookup.set(key, id);
+        createdCategories++;
+      }
+      parentId = id;
+    });
+    // However the row spaced its path, its products go in the last level
+    categoryLookup.set(normalize(row.categoryName), parentId as string);
+  }
+  if (createdCategories > 0) await batch.commit();
+
+  const result = await writeInBatches(
+    valid,
+    (batch, row) => {
+      const data = {
+        name: row.name,
+        description: row.description,
+        price: row.price,
+        categoryId:
+          row.categoryId ??
+          (findCategoryId(categoryLookup, row.categoryName) as string),
+      };
+      if (row.action === "update" && row.id) {
+        batch.update<Product>("products", row.id, data);
+      } else {
+        batch.create<Product>("products", data, row.id);
+      }
+    },
+    { onProgress },
+  );
+
+  return { ...result, createdCategories };
+}
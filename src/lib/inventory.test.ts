@@ -0,0 +1,299 @@
+import { MAX_BATCH_WRITES, dataSource, getRepository } from "@/lib/data";
+import type { Product } from "@/lib/export";
+import {
+  clearProducts,
+  makeProduct,
+  seed,
+  seedMovements,
+} from "@/test/fixtures";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type StockMovement,
+  createProduct,
+  deleteProduct,
+  listMovementIds,
+  newProductDocument,
+  recordStockMovement,
+  saveProductVariants,
+  stockMovementsCollection,
+  stockStatus,
+} from "./inventory";
+
+const user = { id: "u1", email: "staff@example.com" };
+const options = [{ name: "Size", values: ["S", "M"] }];
+
+const getProduct = (id: string) => getRepository<Product>("products").get(id);
+
+// Movements without the fields the data source adds, by change (their
+// IDs are random, so listing order is not insertion order)
+const movements = async (productId: string) =>
+  (
+    await getRepository<StockMovement>(
+      stockMovementsCollection(productId),
+    ).list()
+  )
+    .map(({ type, change, stockAfter, variantId, variantLabel, reason }) => ({
+      type,
+      change,
+      stockAfter,
+      variantId,
+      variantLabel,
+      reason,
+    }))
+    .sort((a, b) => a.change - b.change);
+
+beforeEach(clearProducts);
+
+describe("stockStatus", () => {
+  it("uses the product's threshold or the default one", () => {
+    expect(stockStatus({})).toBe("untracked");
+    expect(stockStatus({ stock: 0 })).toBe("out");
+    expect(stockStatus({ stock: 5 })).toBe("low");
+    expect(stockStatus({ stock: 5, lowStockThreshold: 2 })).toBe("in-stock");
+  });
+});
+
+describe("recordStockMovement", () => {
+  it("applies the movement and records it", async () => {
+    await seed("products", [makeProduct("p1", { stock: 3 })]);
+    await expect(
+      recordStockMovement(
+        "p1",
+        { type: "sold", quantity: 2, reason: " Order 12 " },
+        user,
+      ),
+    ).resolves.toBe(1);
+    expect((await getProduct("p1"))?.stock).toBe(1);
+    expect(await movements("p1")).toEqual([
+      {
+        type: "sold",
+        change: -2,
+        stockAfter: 1,
+        variantId: undefined,
+        variantLabel: undefined,
+        reason: "Order 12",
+      },
+    ]);
+  });
+
+  it("rejects stock below zero and fractional quantities", async () => {
+    await seed("products", [makeProduct("p1", { stock: 1 })]);
+    await expect(
+      recordStockMovement(
+        "p1",
+        { type: "sold", quantity: 2, reason: "" },
+        user,
+      ),
+    ).rejects.toThrow("Only 1 in stock");
+    await expect(
+      recordStockMovement(
+        "p1",
+        { type: "received", quantity: 1.5, reason: "" },
+        user,
+      ),
+    ).rejects.toThrow("whole number");
+    expect((await getProduct("p1"))?.stock).toBe(1);
+    expect(await movements("p1")).toEqual([]);
+  });
+
+  it("updates a variant and the product's total", async () => {
+    await seed("products", [
+      makeProduct("p1", {
+        options,
+        variants: [
+          { id: "v1", options: { Size: "S" }, stock: 1 },
+          { id: "v2", options: { Size: "M" }, stock: 2 },
+        ],
+        stock: 3,
+      }),
+    ]);
+    await expect(
+      recordStockMovement(
+        "p1",
+        { type: "received", quantity: 1, reason: "" },
+        user,
+      ),
+    ).rejects.toThrow("Choose which variant");
+    await recordStockMovement(
+      "p1",
+      { type: "adjusted", quantity: 4, reason: "", variantId: "v2" },
+      user,
+    );
+    const product = await getProduct("p1");
+    expect(product?.variants?.map((v) => v.stock)).toEqual([1, 6]);
+    expect(product?.stock).toBe(7);
+    expect((await movements("p1"))[0]).toMatchObject({
+      variantId: "v2",
+      variantLabel: "M",
+      stockAfter: 6,
+    });
+  });
+});
+
+describe("saveProductVariants", () => {
+  it("moves the product's stock to its new variants", async () => {
+    await seed("products", [makeProduct("p1", { stock: 4 })]);
+    await saveProductVariants(
+      "p1",
+      options,
+      [
+        { id: "v1", options: { Size: "S" }, stock: 99 },
+        { id: "v2", options: { Size: "M" } },
+      ],
+      new Map([["v1", 3]]),
+      user,
+    );
+    const product = await getProduct("p1");
+    expect(product?.variants?.map((v) => v.stock)).toEqual([3, 0]);
+    expect(product?.stock).toBe(3);
+    expect(await movements("p1")).toEqual([
+      expect.objectContaining({
+        change: -4,
+        reason: "Stock moved to variants",
+      }),
+      expect.objectContaining({
+        change: 3,
+        variantId: "v1",
+        variantLabel: "S",
+      }),
+    ]);
+  });
+
+  it("keeps stored stock and adjusts removed variants away", async () => {
+    await seed("products", [
+      makeProduct("p1", {
+        options,
+        variants: [
+          { id: "v1", options: { Size: "S" }, stock: 1 },
+          { id: "v2", options: { Size: "M" }, stock: 2 },
+        ],
+        stock: 3,
+      }),
+    ]);
+    await saveProductVariants(
+      "p1",
+      options,
+      [{ id: "v1", options: { Size: "S" }, stock: 10 }],
+      new Map(),
+      user,
+    );
+    const product = await getProduct("p1");
+    expect(product?.variants).toEqual([
+      { id: "v1", options: { Size: "S" }, stock: 1 },
+    ]);
+    expect(product?.stock).toBe(1);
+    expect(await movements("p1")).toEqual([
+      expect.objectContaining({
+        change: -2,
+        variantId: "v2",
+        reason: "Variant removed",
+      }),
+    ]);
+  });
+
+  it("restarts the stock from 0 once the last variant is removed", async () => {
+    await seed("products", [
+      makeProduct("p1", {
+        options,
+        variants: [{ id: "v1", options: { Size: "S" }, stock: 0 }],
+        stock: 0,
+      }),
+    ]);
+    await saveProductVariants("p1", [], [], new Map(), user);
+    const product = await getProduct("p1");
+    expect(product?.variants).toBeUndefined();
+    expect(product?.options).toBeUndefined();
+    expect(product?.stock).toBe(0);
+  });
+});
+
+describe("newProductDocument", () => {
+  const data = { name: "Shirt", description: "", price: 10, categoryId: "" };
+
+  it("uses the opening stock without variants", () => {
+    expect(newProductDocument(data, [], [], new Map(), 2.7)).toEqual({
+      ...data,
+      stock: 2,
+    });
+  });
+
+  it("sums the variants' initial stock", () => {
+    const product = newProductDocument(
+      data,
+      options,
+      [
+        { id: "v1", options: { Size: "S" } },
+        { id: "v2", options: { Size: "M" }, sku: " " },
+      ],
+      new Map([["v2", 5]]),
+      9,
+    );
+    expect(product.variants).toEqual([
+      { id: "v1", options: { Size: "S" }, stock: 0 },
+      { id: "v2", options: { Size: "M" }, stock: 5 },
+    ]);
+    expect(product.stock).toBe(5);
+  });
+});
+
+describe("createProduct", () => {
+  it("writes the product and its opening stock in one batch", async () => {
+    const batch = vi.spyOn(dataSource, "batch");
+    const id = await createProduct(
+      { name: "Shirt", description: "", price: 10, categoryId: "" },
+      options,
+      [
+        { id: "v1", options: { Size: "S" } },
+        { id: "v2", options: { Size: "M" } },
+      ],
+      new Map([
+        ["v1", 1],
+        ["v2", 2],
+      ]),
+      0,
+      user,
+    );
+    expect(batch).toHaveBeenCalledTimes(1);
+    batch.mockRestore();
+
+    expect((await getProduct(id))?.stock).toBe(3);
+    expect(await movements(id)).toEqual([
+      expect.objectContaining({ change: 1, variantId: "v1" }),
+      expect.objectContaining({ change: 2, variantId: "v2" }),
+    ]);
+  });
+
+  it("records no movement without opening stock", async () => {
+    const id = await createProduct(
+      { name: "Mug", description: "", price: 5, categoryId: "" },
+      [],
+      [],
+      new Map(),
+      0,
+      user,
+    );
+    expect((await getProduct(id))?.stock).toBe(0);
+    expect(await movements(id)).toEqual([]);
+  });
+});
+
+describe("deleteProduct", () => {
+  it("deletes the product with its movements", async () => {
+    await seed("products", [makeProduct("p1", { stock: 2 })]);
+    await seedMovements("p1", 2);
+    await deleteProduct("p1");
+    expect(await getProduct("p1")).toBeNull();
+    expect(await listMovementIds("p1")).toEqual([]);
+  });
+
+  it("splits a long history over several batches", async () => {
+    await seed("products", [makeProduct("p1")]);
+    await seedMovements("p1", MAX_BATCH_WRITES);
+    const batch = vi.spyOn(dataSource, "batch");
+    await deleteProduct("p1");
+    expect(batch).toHaveBeenCalledTimes(2);
+    batch.mockRestore();
+    expect(await getProduct("p1")).toBeNull();
+    expect(await listMovementIds("p1")).toEqual([]);
+  });
+});
@@ -0,0 +1,406 @@
+// inventory.ts
+// Stock levels and their history. A product's `stock` is never written
+// directly: every change is a movement in `products/{id}/movements`, and
+// the movement and the new count are written in one transaction, so the
+// count always equals the sum of its movements. Products are created and
+// deleted together with their movements, too.
+
+import {
+  type DocumentInput,
+  MAX_BATCH_WRITES,
+  type WriteBatch,
+  dataSource,
+  getRepository,
+} from "@/lib/data";
+import type { Product, ProductOption, ProductVariant } from "@/lib/export";
+import { toStoredVariant, variantLabel } from "@/lib/variants";
+
+// --- TYPES ---
+
+export type StockMovementType = "received" | "sold" | "adjusted";
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  received: "Received",
+  sold: "Sold",
+  adjusted: "Adjusted",
+};
+
+export interface StockMovement {
+  id: string;
+  type: StockMovementType;
+  change: number; // Signed: positive adds stock, negative removes it
+  stockAfter: number; // The product's (or variant's) stock once applied
+  variantId?: string; // Set for products with variants
+  variantLabel?: string; // As it was when recorded, e.g. "M / Red"
+  reason: string;
+  userId: string;
+  userEmail?: string; // For display; the ID is what identifies the user
+  createdAt?: Date; // Set by the data source on create
+}
+
+// Who recorded a movement
+export type MovementUser = { id: string; email?: string };
+
+export interface StockMovementInput {
+  type: StockMovementType;
+  // Units received or sold; for adjustments, the signed change
+  quantity: number;
+  reason: string;
+  variantId?: string; // Required for products with variants
+}
+
+/**
+ * Collection holding the movements of one product.
+ */
+export const stockMovementsCollection = (productId: string) =>
+  `products/${productId}/movements`;
+
+// --- STATUS ---
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+// "untracked" is a product created before inventory existed
+export type StockStatus = "in-stock" | "low" | "out" | "untracked";
+
+export const stockStatus = (
+  product: Pick<Product, "stock" | "lowStockThreshold">,
+): StockStatus => {
+  if (product.stock === undefined) return "untracked";
+  if (product.stock <= 0) return "out";
+  const threshold = product.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+  return product.stock <= threshold ? "low" : "in-stock";
+};
+
+/**
+ * True when customers can't order the product. Untracked products are
+ * assumed to be available.
+ */
+export const isOutOfStock = (product: Pick<Product, "stock">) =>
+  product.stock !== undefined && product.stock <= 0;
+
+// --- MOVEMENTS ---
+
+/**
+ * The signed change a movement makes to the stock.
+ */
+export const movementChange = ({ type, quantity }: StockMovementInput) =>
+  type === "received"
+    ? Math.abs(quantity)
+    : type === "sold"
+      ? -Math.abs(quantity)
+      : quantity;
+
+const sumStock = (variants: ProductVariant[]) =>
+  variants.reduce((sum, variant) => sum + (variant.stock ?? 0), 0);
+
+// Units of opening stock, from whatever was typed
+const toUnits = (value: number | undefined) =>
+  Math.max(0, Math.floor(value ?? 0));
+
+/**
+ * Queues the movement document of a change already applied to the stock.
+ */
+const queueMovement = (
+  transaction: Omit<WriteBatch, "commit">,
+  productId: string,
+  movement: Omit<StockMovement, "id" | "userId" | "userEmail" | "createdAt">,
+  user: MovementUser,
+) =>
+  transaction.create<StockMovement>(stockMovementsCollection(productId), {
+    ...movement,
+    reason: movement.reason.trim(),
+    userId: user.id,
+    userEmail: user.email,
+  });
+
+/**
+ * Applies a movement to a product's (or one of its variants') stock and
+ * records it, atomically. Rejects movements that would take the stock
+ * below zero. Resolves with the new stock.
+ */
+export async function recordStockMovement(
+  productId: string,
+  input: StockMovementInput,
+  user: MovementUser,
+): Promise<number> {
+  const change = movementChange(input);
+  if (!Number.isInteger(change) || change === 0) {
+    throw new Error("The quantity must be a whole number other than 0.");
+  }
+
+  return dataSource.runTransaction(async (transaction) => {
+    const product = await transaction.get<Product>("products", productId);
+    if (!product) throw new Error("This product no longer exists.");
+
+    const variants = product.variants ?? [];
+    const variant = variants.find((v) => v.id === input.variantId);
+    if (variants.length > 0 && !variant) {
+      throw new Error("Choose which variant the movement is for.");
+    }
+
+    const current = (variant ? variant.stock : product.stock) ?? 0;
+    const stockAfter = current + change;
+    if (stockAfter < 0) {
+      throw new Error(`Only ${current} in stock; can't remove ${-change}.`);
+    }
+
+    if (variant) {
+      const updated = variants.map((v) =>
+        v.id === variant.id ? { ...v, stock: stockAfter } : v,
+      );
+      transaction.update<Product>("products", productId, {
+        variants: updated,
+        stock: sumStock(updated),
+      });
+    } else {
+      transaction.update<Product>("products", productId, { stock: stockAfter });
+    }
+    queueMovement(
+      transaction,
+      productId,
+      {
+        type: input.type,
+        change,
+        stockAfter,
+        reason: input.reason,
+        variantId: variant?.id,
+        variantLabel: variant && variantLabel(variant, product.options),
+      },
+      user,
+    );
+    return stockAfter;
+  });
+}
+
+/**
+ * Saves a product's options and variants. Stock is kept from the stored
+ * variants, never from `variants`, and every stock change the new layout
+ * causes is recorded as a movement in the same transaction:
+ * - `initialStock` of new variants is "received";
+ * - the stock of removed variants is "adjusted" away;
+ * - a product that gets variants moves its own stock out the same way,
+ *   to be received again per variant.
+ */
+export async function saveProductVariants(
+  productId: string,
+  options: ProductOption[],
+  variants: ProductVariant[],
+  initialStock: Map<string, number>, // Variant ID → units, for new variants
+  user: MovementUser,
+): Promise<void> {
+  await dataSource.runTransaction(async (transaction) => {
+    const product = await transaction.get<Product>("products", productId);
+    if (!product) throw new Error("This product no longer exists.");
+
+    const stored = new Map(product.variants?.map((v) => [v.id, v]));
+    const kept = new Set(variants.map((v) => v.id));
+
+    // Stock that no longer has a place to live
+    if (stored.size === 0 && variants.length > 0 && (product.stock ?? 0) > 0) {
+      queueMovement(
+        transaction,
+        productId,
+        {
+          type: "adjusted",
+          change: -(product.stock ?? 0),
+          stockAfter: 0,
+          reason: "Stock moved to variants",
+        },
+        user,
+      );
+    }
+    for (const variant of stored.values()) {
+      if (kept.has(variant.id) || !variant.stock) continue;
+      queueMovement(
+        transaction,
+        productId,
+        {
+          type: "adjusted",
+          change: -variant.stock,
+          stockAfter: 0,
+          reason: "Variant removed",
+          variantId: variant.id,
+          variantLabel: variantLabel(variant, product.options),
+        },
+        user,
+      );
+    }
+
+    const saved = variants.map((draft) => {
+      const variant = toStoredVariant(draft);
+      const previous = stored.get(variant.id);
+      if (previous) return { ...variant, stock: previous.stock ?? 0 };
+
+      const units = toUnits(initialStock.get(variant.id));
+      if (units > 0) {
+        queueMovement(
+          transaction,
+          productId,
+          {
+            type: "received",
+            change: units,
+            stockAfter: units,
+            reason: "Initial stock",
+            variantId: variant.id,
+            variantLabel: variantLabel(variant, options),
+          },
+          user,
+        );
+      }
+      return { ...variant, stock: units };
+    });
+
+    transaction.update<Product>("products", productId, {
+      options: saved.length > 0 ? options : undefined,
+      variants: saved.length > 0 ? saved : undefined,
+      // Without variants the product keeps its own stock; once its last
+      // variant is removed that starts again from 0
+      stock:
+        saved.length > 0
+          ? sumStock(saved)
+          : stored.size > 0
+            ? 0
+            : product.stock,
+    });
+  });
+}
+
+// --- CREATING AND DELETING ---
+
+// A new product's own fields; stock and variants come separately
+export type NewProduct = Omit<
+  DocumentInput<Product>,
+  "stock" | "options" | "variants"
+>;
+
+/**
+ * The document `createProduct` writes: the variants with their opening
+ * stock and the product's stock as their sum, or `openingStock` for a
+ * product without variants.
+ */
+export function newProductDocument(
+  data: NewProduct,
+  options: ProductOption[],
+  variants: ProductVariant[],
+  initialStock: Map<string, number>, // Variant ID → units
+  openingStock: number,
+): DocumentInput<Product> {
+  if (variants.length === 0) {
+    return { ...data, stock: toUnits(openingStock) };
+  }
+  const saved = variants.map((variant) => ({
+    ...toStoredVariant(variant),
+    stock: toUnits(initialStock.get(variant.id)),
+  }));
+  return { ...data, options, variants: saved, stock: sumStock(saved) };
+}
+
+/**
+ * Creates a product with its variants and opening stock in one batch, so
+ * it never exists without the movements behind its stock. `openingStock`
+ * is for products without variants; variants take theirs from
+ * `initialStock`. Resolves with the new product's ID.
+ */
+export async function createProduct(
+  data: NewProduct,
+  options: ProductOption[],
+  variants: ProductVariant[],
+  initialStock: Map<string, number>, // Variant ID → units
+  openingStock: number,
+  user: MovementUser,
+): Promise<string> {
+  const batch = dataSource.batch();
+  const product = newProductDocument(
+    data,
+    options,
+    variants,
+    initialStock,
+    openingStock,
+  );
+  const productId = batch.create<Product>("products", product);
+
+  // The opening stock is a movement like any other, so it shows in the
+  // history
+  const units = product.stock ?? 0;
+  if (!product.variants && units > 0) {
+    queueMovement(
+      batch,
+      productId,
+      {
+        type: "received",
+        change: units,
+        stockAfter: units,
+        reason: "Initial stock",
+      },
+      user,
+    );
+  }
+  for (const variant of product.variants ?? []) {
+    const stock = variant.stock ?? 0;
+    if (stock === 0) continue;
+    queueMovement(
+      batch,
+      productId,
+      {
+        type: "received",
+        change: stock,
+        stockAfter: stock,
+        reason: "Initial stock",
+        variantId: variant.id,
+        variantLabel: variantLabel(variant, options),
+      },
+      user,
+    );
+  }
+
+  await batch.commit();
+  return productId;
+}
+
+/**
+ * The IDs of a product's movements. Firestore keeps a subcollection when
+ * its document is deleted, so they have to be deleted one by one.
+ */
+export const listMovementIds = async (productId: string) =>
+  (
+    await getRepository<StockMovement>(
+      stockMovementsCollection(productId),
+    ).list()
+  ).map((movement) => movement.id);
+
+/**
+ * Queues the delete of a product and the movements listed for it.
+ */
+export const queueProductDelete = (
+  batch: WriteBatch,
+  productId: string,
+  movementIds: string[],
+) => {
+  for (const id of movementIds) {
+    batch.delete(stockMovementsCollection(productId), id);
+  }
+  batch.delete("products", productId);
+};
+
+/**
+ * Deletes a product with its stock history. A long history is deleted in
+ * several batches, with the product in the last one, so a failure leaves
+ * the product in place to delete again.
+ */
+export async function deleteProduct(productId: string): Promise<void> {
+  const movementIds = await listMovementIds(productId);
+  // Leaves room in the last batch for the product
+  const batchSize = MAX_BATCH_WRITES - 1;
+  let start = 0;
+  while (movementIds.length - start > batchSize) {
+    const batch = dataSource.batch();
+    for (const id of movementIds.slice(start, start + batchSize)) {
+      batch.delete(stockMovementsCollection(productId), id);
+    }
+    await batch.commit();
+    start += batchSize;
+  }
+  const batch = dataSource.batch();
+  queueProductDelete(batch, productId, movementIds.slice(start));
+  await batch.commit();
+}
@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { safeSetItem } from "./local-storage";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("safeSetItem", () => {
+  it("stores the value", () => {
+    const setItem = vi.fn();
+    vi.stubGlobal("localStorage", { setItem });
+    safeSetItem("key", "value");
+    expect(setItem).toHaveBeenCalledWith("key", "value");
+  });
+
+  it("ignores full or blocked storage", () => {
+    vi.stubGlobal("localStorage", {
+      setItem: () => {
+        throw new DOMException("Quota exceeded", "QuotaExceededError");
+      },
+    });
+    expect(() => safeSetItem("key", "value")).not.toThrow();
+  });
+});
@@ -0,0 +1,16 @@
+// local-storage.ts
+// Settings remembered per browser: recent palette items, the display
+// currency and table layouts. None of them is worth failing over.
+
+/**
+ * Stores `value` under `key`, ignoring storage that is full or blocked
+ * (e.g. Safari private mode). The setting then lasts until the page is
+ * reloaded.
+ */
+export function safeSetItem(key: string, value: string) {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // Nothing to do; the in-memory state is still up to date
+  }
+}
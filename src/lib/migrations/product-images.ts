@@ -0,0 +1,57 @@
+// product-images.ts
+
+import { getRepository } from "@/lib/data";
+import { type Product, getProductImages } from "@/lib/export";
+import { uploadLegacyProductImage } from "@/lib/product-images";
+
+export interface MigrationProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+/**
+ * Moves every inline `imageBase64` image into storage: uploads it with its
+ * generated sizes, stores it as the product's only entry in `images`, and
+ * removes `imageBase64`.
+ * Products are processed one at a time and failures don't stop the run, so
+ * it is safe to re-run until nothing is left.
+ */
+export async function migrateProductImages(
+  onProgress?: (progress: MigrationProgress) => void,
+): Promise<MigrationProgress> {
+  const repository = getRepository<Product>("products");
+  const pending = (await repository.list()).filter(
+    (product) => product.imageBase64,
+  );
+  const progress: MigrationProgress = {
+    done: 0,
+    total: pending.length,
+    failed: 0,
+  };
+  onProgress?.({ ...progress });
+
+  for (const product of pending) {
+    try {
+      // Products that already have uploaded images only need cleaning up
+      const images = [...getProductImages(product)];
+      if (images.length === 0) {
+        images.push(
+          await uploadLegacyProductImage(product.imageBase64 as string),
+        );
+      }
+      await repository.update(product.id, {
+        images,
+        image: undefined,
+        imageBase64: undefined,
+      });
+    } catch (error) {
+      console.error(`Error migrating image of product ${product.id}: `, error);
+      progress.failed++;
+    }
+    progress.done++;
+    onProgress?.({ ...progress });
+  }
+
+  return progress;
+}
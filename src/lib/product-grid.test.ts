@@ -0,0 +1,107 @@
+import { buildCategoryLookup } from "@/lib/import";
+import { makeProduct } from "@/test/fixtures";
+import { describe, expect, it } from "vitest";
+import {
+  GRID_COLUMNS,
+  type GridContext,
+  type GridField,
+  cellState,
+  changedFields,
+  parseClipboard,
+} from "./product-grid";
+
+const categoryMap = new Map([
+  ["c1", "Beverages"],
+  ["c2", "Beverages > Coffee"],
+]);
+
+const context: GridContext = {
+  categoryMap,
+  categoryLookup: buildCategoryLookup(categoryMap),
+};
+
+const product = makeProduct("p1", {
+  name: "Latte",
+  price: 12.5,
+  categoryId: "c2",
+});
+
+const column = (field: GridField) =>
+  GRID_COLUMNS.find((col) => col.field === field) as (typeof GRID_COLUMNS)[0];
+
+const cell = (field: GridField, text?: string) =>
+  cellState(
+    product,
+    column(field),
+    text === undefined ? {} : { p1: { [field]: text } },
+    context,
+  );
+
+describe("cellState", () => {
+  it("shows the stored value until the cell is edited", () => {
+    expect(cell("categoryId")).toEqual({
+      text: "Beverages > Coffee",
+      dirty: false,
+    });
+  });
+
+  it("doesn't count text for the stored value as a change", () => {
+    expect(cell("price", "12.50")).toEqual({ text: "12.50", dirty: false });
+    expect(cell("categoryId", "coffee")).toEqual({
+      text: "coffee",
+      dirty: false,
+    });
+  });
+
+  it("keeps invalid text along with the error", () => {
+    expect(cell("price", "abc")).toEqual({
+      text: "abc",
+      error: "Price must be a number",
+      dirty: true,
+    });
+    expect(cell("name", " ").error).toBe("Name is required");
+    expect(cell("categoryId", "Snacks").error).toBe(
+      'Unknown category "Snacks"',
+    );
+  });
+});
+
+describe("changedFields", () => {
+  it("returns the parsed values that differ", () => {
+    expect(
+      changedFields(
+        product,
+        { p1: { name: " Latte ", price: "$13.999", categoryId: "Beverages" } },
+        context,
+      ),
+    ).toEqual({ price: 14, categoryId: "c1" });
+  });
+
+  it("returns null without changes or with any invalid cell", () => {
+    expect(changedFields(product, { p1: { name: "Latte" } }, context)).toBe(
+      null,
+    );
+    expect(
+      changedFields(product, { p1: { name: "Mocha", price: "-1" } }, context),
+    ).toBe(null);
+  });
+});
+
+describe("parseClipboard", () => {
+  it("splits rows by newlines and cells by tabs", () => {
+    expect(parseClipboard("a\tb\r\nc\td\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  it("unquotes cells containing tabs, newlines or quotes", () => {
+    expect(parseClipboard('"two\nlines"\t"say ""hi"""\tplain')).toEqual([
+      ["two\nlines", 'say "hi"', "plain"],
+    ]);
+  });
+
+  it("keeps empty cells", () => {
+    expect(parseClipboard("\tb\t")).toEqual([["", "b", ""]]);
+  });
+});
@@ -0,0 +1,165 @@
+// product-grid.ts
+// The editable grid on `/products`: which fields it edits, how typed or
+// pasted text becomes a field value, and which fields actually changed.
+// Edits are kept as raw text per cell until they're saved, so invalid
+// input stays visible (and fixable) instead of being thrown away.
+
+import { BASE_CURRENCY } from "@/lib/currency";
+import type { Product } from "@/lib/export";
+import { findCategoryId, parsePrice } from "@/lib/import";
+
+export type GridField = "name" | "categoryId" | "price" | "description";
+
+type GridValue = Product[GridField];
+
+// What parsing a cell needs to know
+export interface GridContext {
+  categoryMap: Map<string, string>; // Category ID → path
+  categoryLookup: Map<string, string>; // Path or name → category ID
+}
+
+export interface GridColumn {
+  field: GridField;
+  label: string;
+  // The cell's text for the stored value
+  format: (product: Product, context: GridContext) => string;
+  parse: (
+    text: string,
+    context: GridContext,
+  ) => { value: GridValue } | { error: string };
+}
+
+export const GRID_COLUMNS: GridColumn[] = [
+  {
+    field: "name",
+    label: "Name",
+    format: (product) => product.name,
+    parse: (text) =>
+      text.trim() ? { value: text.trim() } : { error: "Name is required" },
+  },
+  {
+    field: "categoryId",
+    label: "Category",
+    format: (product, { categoryMap }) =>
+      categoryMap.get(product.categoryId) ?? "",
+    parse: (text, { categoryLookup }) => {
+      if (!text.trim()) return { error: "Category is required" };
+      const id = findCategoryId(categoryLookup, text);
+      return id ? { value: id } : { error: `Unknown category "${text}"` };
+    },
+  },
+  {
+    field: "price",
+    label: `Price (${BASE_CURRENCY})`,
+    format: (product) => String(product.price),
+    parse: (text) => {
+      const price = parsePrice(text);
+      if (Number.isNaN(price)) return { error: "Price must be a number" };
+      if (price < 0) return { error: "Price can't be negative" };
+      return { value: Math.round(price * 100) / 100 };
+    },
+  },
+  {
+    field: "description",
+    label: "Description",
+    format: (product) => product.description,
+    parse: (text) => ({ value: text.trim() }),
+  },
+];
+
+// Product ID → field → the text typed or pasted into that cell
+export type GridDrafts = Record<string, Partial<Record<GridField, string>>>;
+
+export interface CellState {
+  text: string; // What the cell shows
+  error?: string;
+  dirty: boolean; // Would change the stored value
+}
+
+/**
+ * The cell's text, whether it's valid, and whether saving would change
+ * the product. Text that parses back to the stored value (e.g. "12.50"
+ * for 12.5) isn't a change.
+ */
+export function cellState(
+  product: Product,
+  column: GridColumn,
+  drafts: GridDrafts,
+  context: GridContext,
+): CellState {
+  const draft = drafts[product.id]?.[column.field];
+  if (draft === undefined) {
+    return { text: column.format(product, context), dirty: false };
+  }
+  const parsed = column.parse(draft, context);
+  if ("error" in parsed) {
+    return { text: draft, error: parsed.error, dirty: true };
+  }
+  return { text: draft, dirty: parsed.value !== product[column.field] };
+}
+
+/**
+ * The fields of `product` its drafts change, or `null` if there are none
+ * or any of them is invalid.
+ */
+export function changedFields(
+  product: Product,
+  drafts: GridDrafts,
+  context: GridContext,
+): Partial<Product> | null {
+  const changes: Partial<Record<GridField, GridValue>> = {};
+  for (const column of GRID_COLUMNS) {
+    const draft = drafts[product.id]?.[column.field];
+    if (draft === undefined) continue;
+    const parsed = column.parse(draft, context);
+    if ("error" in parsed) return null;
+    if (parsed.value !== product[column.field]) {
+      changes[column.field] = parsed.value;
+    }
+  }
+  return Object.keys(changes).length > 0
+    ? (changes as Partial<Product>)
+    : null;
+}
+
+/**
+ * Splits text copied from a spreadsheet into rows of cells. Excel and
+ * Google Sheets separate cells with tabs and rows with newlines, and quote
+ * cells that contain either.
+ */
+export function parseClipboard(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === "\t") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  // Copied ranges usually end with a newline; that's not another row
+  if (cell !== "" || row.length > 0) rows.push([...row, cell]);
+  return rows;
+}
@@ -0,0 +1,160 @@
+// product-images.ts
+
+import { dataSource } from "@/lib/data";
+import {
+  type ImageSize,
+  type Product,
+  type ProductImage,
+  getProductImages,
+} from "@/lib/export";
+import {
+  CATALOG_IMAGE_ASPECT,
+  type ImageFormat,
+  centeredCrop,
+  dataUrlToBlob,
+  decodeImage,
+  processImage,
+  resizeImage,
+} from "@/lib/images";
+
+// Longest side, in pixels, of each generated size
+const IMAGE_SIZES: Record<Exclude<ImageSize, "original">, number> = {
+  thumbnail: 160, // Table rows and PDF reports
+  medium: 800, // Catalog cards
+};
+
+// Originals are capped too, so a 48MP phone photo doesn't end up in storage
+export const ORIGINAL_MAX_DIMENSION = 2400;
+
+const EXTENSIONS: Record<ImageFormat, string> = {
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+};
+
+// An image in the product editor: already uploaded, a legacy inline image,
+// or a new upload waiting for the form to be saved
+export type ImageItem =
+  | { key: string; kind: "stored"; image: ProductImage }
+  | { key: string; kind: "legacy"; dataUrl: string }
+  | { key: string; kind: "pending"; file: File; processed: Blob | null };
+
+const newImageId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Uploads an image and its generated sizes to `product-images/{imageId}/`.
+ *
+ * `original` must already be processed (see `processImage`): it is stored
+ * as is, and the medium size keeps its format. Thumbnails are always JPEG
+ * because the PDF renderer can't draw WebP.
+ */
+export async function uploadProductImage(
+  original: Blob,
+): Promise<ProductImage> {
+  const basePath = `product-images/${newImageId()}`;
+  const format: ImageFormat =
+    original.type === "image/jpeg" ? "image/jpeg" : "image/webp";
+
+  const [medium, thumbnail] = await Promise.all([
+    resizeImage(original, IMAGE_SIZES.medium, format),
+    resizeImage(original, IMAGE_SIZES.thumbnail, "image/jpeg"),
+  ]);
+
+  const paths: Record<ImageSize, string> = {
+    original: `${basePath}/original.${EXTENSIONS[format]}`,
+    medium: `${basePath}/medium.${EXTENSIONS[format]}`,
+    thumbnail: `${basePath}/thumbnail.jpg`,
+  };
+
+  const [originalUrl, mediumUrl, thumbnailUrl] = await Promise.all([
+    dataSource.files.upload(paths.original, original),
+    dataSource.files.upload(paths.medium, medium),
+    dataSource.files.upload(paths.thumbnail, thumbnail),
+  ]);
+
+  return {
+    urls: { original: originalUrl, medium: mediumUrl, thumbnail: thumbnailUrl },
+    paths,
+  };
+}
+
+/**
+ * Processes an upload with the default settings: centered catalog crop,
+ * capped size, WebP. Used for images the user didn't adjust in the editor.
+ */
+export async function prepareProductImage(file: Blob): Promise<Blob> {
+  const bitmap = await decodeImage(file);
+  try {
+    return await processImage(bitmap, {
+      crop: centeredCrop(bitmap.width, bitmap.height, CATALOG_IMAGE_ASPECT),
+      maxDimension: ORIGINAL_MAX_DIMENSION,
+    });
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Deletes every size of an uploaded image. Failures are logged, not thrown:
+ * an orphaned file is better than a failed save.
+ */
+export async function deleteProductImage(image: ProductImage): Promise<void> {
+  const results = await Promise.allSettled(
+    Object.values(image.paths).map((path) => dataSource.files.remove(path)),
+  );
+  for (const result of results) {
+    if (result.status === "rejected") {
+      console.error("Error deleting product image: ", result.reason);
+    }
+  }
+}
+
+/**
+ * Uploads a legacy inline `imageBase64` data URL to storage.
+ */
+export async function uploadLegacyProductImage(
+  imageBase64: string,
+): Promise<ProductImage> {
+  const source = await dataUrlToBlob(imageBase64);
+  return uploadProductImage(await resizeImage(source, ORIGINAL_MAX_DIMENSION));
+}
+
+/**
+ * Lists a product's images as editor items, oldest document shapes included.
+ */
+export function toImageItems(
+  product: Pick<Product, "images" | "image" | "imageBase64">,
+): ImageItem[] {
+  const images = getProductImages(product);
+  if (images.length > 0) {
+    return images.map((image) => ({
+      key: image.paths.original,
+      kind: "stored",
+      image,
+    }));
+  }
+  return product.imageBase64
+    ? [{ key: "legacy", kind: "legacy", dataUrl: product.imageBase64 }]
+    : [];
+}
+
+/**
+ * Uploads every new (or legacy inline) item and returns the product's
+ * images in the same order.
+ */
+export function uploadImageItems(items: ImageItem[]): Promise<ProductImage[]> {
+  return Promise.all(
+    items.map(async (item) => {
+      switch (item.kind) {
+        case "stored":
+          return item.image;
+        case "legacy":
+          return uploadLegacyProductImage(item.dataUrl);
+        case "pending":
+          return uploadProductImage(
+            item.processed ?? (await prepareProductImage(item.file)),
+          );
+      }
+    }),
+  );
+}
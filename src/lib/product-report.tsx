@@ -0,0 +1,310 @@
+import { Document, Page, StyleSheet, Text, View } from "@react-pdf/renderer";
+import type React from "react";
+import {
+  PdfTable,
+  type Product,
+  formatPrice,
+  priceStats,
+  productExportDefinition,
+  selectColumns,
+} from "@/lib/export";
+import { BASE_PRICE_FORMAT, type PriceFormat } from "@/lib/currency";
+import {
+  VARIANT_ID_SEPARATOR,
+  expandVariants,
+  isVariantRow,
+} from "@/lib/variants";
+
+// --- REPORT OPTIONS ---
+
+export type ReportOrientation = "portrait" | "landscape";
+
+export interface ReportOptions {
+  groupByCategory: boolean; // One section per category, with subtotals
+  coverPage: boolean; // Title page with the filter and overall totals
+  orientation: ReportOrientation;
+  perVariant: boolean; // One row per variant instead of per product
+  columns?: string[]; // Keys from `productExportDefinition`
+}
+
+export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
+  groupByCategory: false,
+  coverPage: false,
+  orientation: "portrait",
+  perVariant: false,
+};
+
+// --- STYLES ---
+
+const styles = StyleSheet.create({
+  page: {
+    backgroundColor: "#FFFFFF",
+    paddingTop: 50,
+    paddingBottom: 50,
+    paddingHorizontal: 30,
+    fontFamily: "Helvetica",
+  },
+  header: {
+    position: "absolute",
+    top: 20,
+    left: 30,
+    right: 30,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    fontSize: 8,
+    color: "#6b7280",
+  },
+  footer: {
+    position: "absolute",
+    bottom: 20,
+    left: 30,
+    right: 30,
+    textAlign: "center",
+    fontSize: 8,
+    color: "#6b7280",
+  },
+  cover: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  coverTitle: {
+    fontSize: 32,
+    fontFamily: "Helvetica-Bold",
+    marginBottom: 10,
+  },
+  coverSubtitle: {
+    fontSize: 12,
+    color: "#4b5563",
+    marginBottom: 30,
+  },
+  coverFacts: {
+    width: 300,
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+  },
+  coverFact: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    fontSize: 10,
+  },
+  coverLabel: {
+    color: "#6b7280",
+  },
+  title: {
+    fontSize: 20,
+    textAlign: "center",
+    marginBottom: 20,
+    fontFamily: "Helvetica-Bold",
+  },
+  groupTitle: {
+    fontSize: 13,
+    fontFamily: "Helvetica-Bold",
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  subtotal: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 16,
+    paddingVertical: 4,
+    paddingHorizontal: 5,
+    backgroundColor: "#f4f4f4",
+    fontSize: 8,
+    fontFamily: "Helvetica-Bold",
+  },
+});
+
+// --- HELPERS ---
+
+interface ProductGroup {
+  name: string;
+  products: Product[];
+}
+
+/**
+ * Splits products by category name, sorted alphabetically.
+ */
+const groupByCategory = (
+  products: Product[],
+  categoryMap: Map<string, string>,
+): ProductGroup[] => {
+  const groups = new Map<string, Product[]>();
+  for (const prod of products) {
+    const name = categoryMap.get(prod.categoryId) || "Uncategorized";
+    groups.set(name, [...(groups.get(name) ?? []), prod]);
+  }
+  return [...groups]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, items]) => ({ name, products: items }));
+};
+
+/**
+ * "3 products", or "3 products, 7 variants" for per-variant rows.
+ */
+const countLabel = (rows: Product[]) => {
+  const products = new Set(
+    rows.map((row) => row.id.split(VARIANT_ID_SEPARATOR)[0]),
+  ).size;
+  const variants = rows.filter(isVariantRow).length;
+  return variants > 0
+    ? `${products} products, ${variants} variants`
+    : `${products} products`;
+};
+
+/**
+ * "N products · Min · Avg · Max" line under a table.
+ */
+const Totals = ({
+  label,
+  products,
+  priceFormat,
+}: {
+  label: string;
+  products: Product[];
+  priceFormat: PriceFormat;
+}) => {
+  const stats = priceStats(products.map((prod) => prod.price));
+  return (
+    <View style={styles.subtotal} wrap={false}>
+      <Text>
+        {label}: {countLabel(products)}
+      </Text>
+      <Text>Min {formatPrice(stats.min, priceFormat)}</Text>
+      <Text>Avg {formatPrice(stats.avg, priceFormat)}</Text>
+      <Text>Max {formatPrice(stats.max, priceFormat)}</Text>
+    </View>
+  );
+};
+
+// --- DOCUMENT ---
+
+interface ProductPDFProps {
+  products: Product[]; // Already filtered; the report shows exactly these
+  categoryMap: Map<string, string>;
+  filter?: string; // Active search, listed on the cover page
+  options?: ReportOptions;
+  priceFormat?: PriceFormat; // Currency the prices are shown in
+}
+
+/**
+ * Product report: an optional cover page, then the products as one table or
+ * one section per category with subtotals. Every page after the cover has
+ * a running header and a "Page X of Y" footer.
+ */
+export const ProductPDF: React.FC<ProductPDFProps> = ({
+  products,
+  categoryMap,
+  filter,
+  options = DEFAULT_REPORT_OPTIONS,
+  priceFormat = BASE_PRICE_FORMAT,
+}) => {
+  const generatedAt = new Date().toLocaleString();
+  const columns = selectColumns(
+    productExportDefinition(categoryMap, priceFormat),
+    options.columns,
+  );
+  const rows = options.perVariant ? expandVariants(products) : products;
+  const groups = groupByCategory(rows, categoryMap);
+  const overall = priceStats(rows.map((prod) => prod.price));
+  const coverPages = options.coverPage ? 1 : 0;
+
+  const coverFacts: [string, string][] = [
+    [
+      "Filter",
+      filter?.trim() ? `Search: "${filter.trim()}"` : "All products",
+    ],
+    ["Products", countLabel(rows)],
+    ["Categories", String(groups.length)],
+    [
+      "Price range",
+      `${formatPrice(overall.min, priceFormat)} – ${formatPrice(overall.max, priceFormat)}`,
+    ],
+    ["Average price", formatPrice(overall.avg, priceFormat)],
+    ["Generated", generatedAt],
+  ];
+
+  return (
+    <Document title="Product Report">
+      {options.coverPage && (
+        <Page size="A4" orientation={options.orientation} style={styles.page}>
+          <View style={styles.cover}>
+            <Text style={styles.coverTitle}>Product Report</Text>
+            <Text style={styles.coverSubtitle}>
+              {options.groupByCategory
+                ? "Grouped by category"
+                : "All products in one table"}
+            </Text>
+            <View style={styles.coverFacts}>
+              {coverFacts.map(([label, value]) => (
+                <View key={label} style={styles.coverFact}>
+                  <Text style={styles.coverLabel}>{label}</Text>
+                  <Text>{value}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        </Page>
+      )}
+
+      <Page size="A4" orientation={options.orientation} style={styles.page}>
+        {/* Running header and footer */}
+        <View style={styles.header} fixed>
+          <Text>
+            Product Report
+            {filter?.trim() ? ` · Search: "${filter.trim()}"` : ""}
+          </Text>
+          <Text>{generatedAt}</Text>
+        </View>
+        {/* The cover isn't numbered, so the body starts at page 1 */}
+        <Text
+          style={styles.footer}
+          fixed
+          render={({ pageNumber, totalPages }) =>
+            `Page ${pageNumber - coverPages} of ${totalPages - coverPages}`
+          }
+        />
+
+        {!options.coverPage && <Text style={styles.title}>Product Report</Text>}
+
+        {options.groupByCategory ? (
+          <>
+            {groups.map((group) => (
+              <View key={group.name}>
+                <Text style={styles.groupTitle} minPresenceAhead={60}>
+                  {group.name}
+                </Text>
+                {/* A repeated header would show up in every later group */}
+                <PdfTable
+                  columns={columns}
+                  items={group.products}
+                  repeatHeader={false}
+                />
+                <Totals
+                  label="Subtotal"
+                  products={group.products}
+                  priceFormat={priceFormat}
+                />
+              </View>
+            ))}
+            <View style={{ marginTop: 16 }}>
+              <Totals
+                label="Total"
+                products={rows}
+                priceFormat={priceFormat}
+              />
+            </View>
+          </>
+        ) : (
+          <>
+            <PdfTable columns={columns} items={rows} />
+            <Totals label="Total" products={rows} priceFormat={priceFormat} />
+          </>
+        )}
+      </Page>
+    </Document>
+  );
+};
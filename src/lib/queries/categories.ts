@@ -0,0 +1,16 @@
+// categories.ts
+
+import type { Category } from "@/lib/export";
+import { createCollectionQueries } from "./collection";
+
+const categoryQueries = createCollectionQueries<Category>("categories");
+
+export const categoryKeys = categoryQueries.keys;
+export const categoriesQueryOptions = categoryQueries.listQueryOptions;
+export const categoryQueryOptions = categoryQueries.detailQueryOptions;
+
+export const useCategories = categoryQueries.useList;
+export const useCategory = categoryQueries.useDetail;
+export const useAddCategory = categoryQueries.useCreate;
+export const useEditCategory = categoryQueries.useUpdate;
+export const useDeleteCategory = categoryQueries.useDelete;
@@ -0,0 +1,261 @@
+// collection.ts
+
+import {
+  type CollectionQuery,
+  type DocumentInput,
+  type Entity,
+  type Repository,
+  type Unsubscribe,
+  getRepository,
+} from "@/lib/data";
+import {
+  type QueryClient,
+  type QueryKey,
+  hashKey,
+  queryOptions,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useEffect } from "react";
+
+// --- LIVE CACHE SYNC ---
+// One repository listener per list key, shared by every component that
+// reads it. The listener writes straight into the query cache, so lists
+// stay fresh without refetching and `staleTime` can be infinite.
+
+const liveListeners = new Map<
+  string,
+  { subscribers: number; unsubscribe: Unsubscribe }
+>();
+
+function retainLiveList<T extends Entity>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  repository: Repository<T>,
+  collectionQuery: CollectionQuery<T>,
+): () => void {
+  const hash = hashKey(queryKey);
+  const existing = liveListeners.get(hash);
+
+  if (existing) {
+    existing.subscribers++;
+  } else {
+    const unsubscribe = repository.subscribe(
+      collectionQuery,
+      (items) => queryClient.setQueryData(queryKey, items),
+      (error) => console.error(`Live query ${hash} failed:`, error),
+    );
+    liveListeners.set(hash, { subscribers: 1, unsubscribe });
+  }
+
+  return () => {
+    const entry = liveListeners.get(hash);
+    if (!entry) return;
+    entry.subscribers--;
+    if (entry.subscribers === 0) {
+      entry.unsubscribe();
+      liveListeners.delete(hash);
+    }
+  };
+}
+
+// --- QUERY FACTORY ---
+
+interface MutationContext<T> {
+  previousLists: [QueryKey, T[] | undefined][];
+}
+
+/**
+ * Builds the query keys, query options and hooks for one collection.
+ *
+ * Keys follow the usual hierarchy so invalidation can be as broad or narrow
+ * as needed: `[name]` → `[name, "list"]` → `[name, "list", query]`, and
+ * `[name, "detail", id]`.
+ *
+ * Mutations update every cached list optimistically and roll back if the
+ * write fails. `create` replaces the plain create, e.g. to write related
+ * documents in the same batch; its `fields` are what cached lists show
+ * until the write lands. `remove` replaces the plain delete, e.g. to
+ * delete a document's subcollections along with it.
+ */
+export function createCollectionQueries<
+  T extends Entity,
+  C = DocumentInput<T>, // What the create mutation takes
+>(
+  collectionName: string,
+  { create, remove }: {
+    create?: {
+      write: (input: C) => Promise<string>;
+      fields: (input: C) => DocumentInput<T>;
+    };
+    remove?: (id: string) => Promise<void>;
+  } = {},
+) {
+  const repository = getRepository<T>(collectionName);
+  const { write, fields } = create ?? {
+    write: (input: C) => repository.create(input as DocumentInput<T>),
+    fields: (input: C) => input as DocumentInput<T>,
+  };
+
+  const keys = {
+    all: [collectionName] as const,
+    lists: () => [...keys.all, "list"] as const,
+    list: (collectionQuery: CollectionQuery<T> = {}) =>
+      [...keys.lists(), collectionQuery] as const,
+    details: () => [...keys.all, "detail"] as const,
+    detail: (id: string) => [...keys.details(), id] as const,
+  };
+
+  const listQueryOptions = (collectionQuery: CollectionQuery<T> = {}) =>
+    queryOptions({
+      queryKey: keys.list(collectionQuery),
+      queryFn: () => repository.list(collectionQuery),
+    });
+
+  const detailQueryOptions = (id: string) =>
+    queryOptions({
+      queryKey: keys.detail(id),
+      queryFn: () => repository.get(id),
+    });
+
+  /**
+   * Reads a list through the query cache. With `live` (the default) the
+   * cached list is kept up to date by a shared real-time listener. With
+   * `enabled: false` nothing is read or listened to.
+   */
+  function useList(
+    collectionQuery: CollectionQuery<T> = {},
+    { live = true, enabled = true }: { live?: boolean; enabled?: boolean } = {},
+  ) {
+    const queryClient = useQueryClient();
+    const options = listQueryOptions(collectionQuery);
+    const hash = hashKey(options.queryKey);
+
+    // biome-ignore lint/correctness/useExhaustiveDependencies: the key hash covers the query
+    useEffect(() => {
+      if (!live || !enabled) return;
+      return retainLiveList(
+        queryClient,
+        options.queryKey,
+        repository,
+        collectionQuery,
+      );
+    }, [queryClient, hash, live, enabled]);
+
+    return useQuery({
+      ...options,
+      enabled,
+      staleTime: live ? Number.POSITIVE_INFINITY : undefined,
+    });
+  }
+
+  function useDetail(id: string) {
+    return useQuery(detailQueryOptions(id));
+  }
+
+  /**
+   * Applies `update` to every cached list and remembers the previous data
+   * so `onError` can restore it.
+   */
+  const updateCachedLists = async (
+    queryClient: QueryClient,
+    update: (items: T[]) => T[],
+  ): Promise<MutationContext<T>> => {
+    await queryClient.cancelQueries({ queryKey: keys.lists() });
+    const previousLists = queryClient.getQueriesData<T[]>({
+      queryKey: keys.lists(),
+    });
+    queryClient.setQueriesData<T[]>({ queryKey: keys.lists() }, (items) =>
+      items ? update(items) : items,
+    );
+    return { previousLists };
+  };
+
+  /**
+   * Refetches cached lists after a write. Lists with a live listener are
+   * skipped: the listener already delivers the server's version.
+   */
+  const invalidateLists = (queryClient: QueryClient) =>
+    queryClient.invalidateQueries({
+      queryKey: keys.lists(),
+      predicate: (query) => !liveListeners.has(query.queryHash),
+    });
+
+  const rollback = (
+    queryClient: QueryClient,
+    context: MutationContext<T> | undefined,
+  ) => {
+    for (const [queryKey, items] of context?.previousLists ?? []) {
+      queryClient.setQueryData(queryKey, items);
+    }
+  };
+
+  function useCreate() {
+    const queryClient = useQueryClient();
+    return useMutation<string, Error, C, MutationContext<T>>({
+      mutationFn: write,
+      onMutate: (input) =>
+        updateCachedLists(queryClient, (items) => [
+          ...items,
+          {
+            ...fields(input),
+            id: `optimistic-${Date.now()}`,
+          } as unknown as T,
+        ]),
+      onError: (_error, _data, context) => rollback(queryClient, context),
+      onSettled: () => invalidateLists(queryClient),
+    });
+  }
+
+  function useUpdate() {
+    const queryClient = useQueryClient();
+    return useMutation<
+      void,
+      Error,
+      { id: string; data: Partial<DocumentInput<T>> },
+      MutationContext<T>
+    >({
+      mutationFn: ({ id, data }) => repository.update(id, data),
+      onMutate: ({ id, data }) =>
+        updateCachedLists(queryClient, (items) =>
+          items.map((item) => (item.id === id ? { ...item, ...data } : item)),
+        ),
+      onError: (_error, _variables, context) =>
+        rollback(queryClient, context),
+      onSettled: (_data, _error, { id }) =>
+        Promise.all([
+          invalidateLists(queryClient),
+          queryClient.invalidateQueries({ queryKey: keys.detail(id) }),
+        ]),
+    });
+  }
+
+  function useDelete() {
+    const queryClient = useQueryClient();
+    return useMutation<void, Error, string, MutationContext<T>>({
+      mutationFn: (id) => (remove ? remove(id) : repository.delete(id)),
+      onMutate: (id) =>
+        updateCachedLists(queryClient, (items) =>
+          items.filter((item) => item.id !== id),
+        ),
+      onError: (_error, _id, context) => rollback(queryClient, context),
+      onSettled: (_data, _error, id) => {
+        queryClient.removeQueries({ queryKey: keys.detail(id) });
+        return invalidateLists(queryClient);
+      },
+    });
+  }
+
+  return {
+    repository,
+    keys,
+    listQueryOptions,
+    detailQueryOptions,
+    useList,
+    useDetail,
+    useCreate,
+    useUpdate,
+    useDelete,
+  };
+}
@@ -0,0 +1,40 @@
+// exchange-rates.ts
+
+import {
+  type CurrencyCode,
+  type ExchangeRate,
+  exchangeRatesCollection,
+} from "@/lib/currency";
+import { getRepository } from "@/lib/data";
+import { useMutation } from "@tanstack/react-query";
+import { createCollectionQueries } from "./collection";
+
+const exchangeRateQueries = createCollectionQueries<ExchangeRate>(
+  exchangeRatesCollection,
+);
+
+export const exchangeRateKeys = exchangeRateQueries.keys;
+export const exchangeRatesQueryOptions = exchangeRateQueries.listQueryOptions;
+
+export const useExchangeRates = exchangeRateQueries.useList;
+
+/**
+ * Saves the rate of each given currency, creating its document the first
+ * time. The list picks the new rates up from its live listener.
+ */
+export function useSaveExchangeRates() {
+  return useMutation<void, Error, Partial<Record<CurrencyCode, number>>>({
+    mutationFn: async (rates) => {
+      const repository = getRepository<ExchangeRate>(exchangeRatesCollection);
+      const stored = await repository.list();
+      await Promise.all(
+        Object.entries(rates).map(([currency, rate]) => {
+          const existing = stored.find((doc) => doc.currency === currency);
+          return existing
+            ? repository.update(existing.id, { rate })
+            : repository.create({ currency: currency as CurrencyCode, rate });
+        }),
+      );
+    },
+  });
+}
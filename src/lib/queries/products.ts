@@ -0,0 +1,96 @@
+// products.ts
+
+import { getRepository } from "@/lib/data";
+import type { Product, ProductOption, ProductVariant } from "@/lib/export";
+import {
+  type MovementUser,
+  type NewProduct,
+  createProduct,
+  deleteProduct,
+  newProductDocument,
+} from "@/lib/inventory";
+import { queryOptions } from "@tanstack/react-query";
+import { createCollectionQueries } from "./collection";
+
+/**
+ * What adding a product takes (see `createProduct`).
+ */
+export interface NewProductInput {
+  data: NewProduct;
+  options: ProductOption[];
+  variants: ProductVariant[];
+  initialStock: Record<string, number>; // Variant ID → units
+  openingStock: number; // For products without variants
+  user: MovementUser;
+}
+
+// Creating a product writes its opening stock movements in the same batch;
+// deleting it deletes its movements too
+const productQueries = createCollectionQueries<Product, NewProductInput>(
+  "products",
+  {
+    create: {
+      write: (product) =>
+        createProduct(
+          product.data,
+          product.options,
+          product.variants,
+          new Map(Object.entries(product.initialStock)),
+          product.openingStock,
+          product.user,
+        ),
+      fields: (product) =>
+        newProductDocument(
+          product.data,
+          product.options,
+          product.variants,
+          new Map(Object.entries(product.initialStock)),
+          product.openingStock,
+        ),
+    },
+    remove: deleteProduct,
+  },
+);
+
+export const productKeys = productQueries.keys;
+export const productsQueryOptions = productQueries.listQueryOptions;
+export const productQueryOptions = productQueries.detailQueryOptions;
+
+export const useProducts = productQueries.useList;
+export const useProduct = productQueries.useDetail;
+export const useAddProduct = productQueries.useCreate;
+export const useEditProduct = productQueries.useUpdate;
+export const useDeleteProduct = productQueries.useDelete;
+
+/**
+ * What the catalog shows about every product while it reads them a page at
+ * a time: the products in each category (alone, not counting
+ * subcategories), the total, and the highest-priced product for the price
+ * slider. Counted and queried, never downloaded.
+ */
+export const productStatsQueryOptions = (categoryIds: string[]) =>
+  queryOptions({
+    queryKey: [...productKeys.all, "stats", categoryIds] as const,
+    queryFn: async () => {
+      const repository = getRepository<Product>("products");
+      const [total, counts, priciest] = await Promise.all([
+        repository.count(),
+        Promise.all(
+          categoryIds.map((id) =>
+            repository.count({
+              where: [{ field: "categoryId", op: "==", value: id }],
+            }),
+          ),
+        ),
+        repository.paginate({
+          orderBy: [{ field: "price", direction: "desc" }],
+          pageSize: 1,
+        }),
+      ]);
+      return {
+        total,
+        categoryCounts: new Map(categoryIds.map((id, i) => [id, counts[i]])),
+        priciest: priciest.items,
+      };
+    },
+  });
@@ -0,0 +1,106 @@
+// stock-movements.ts
+
+import { getRepository } from "@/lib/data";
+import type { ProductOption, ProductVariant } from "@/lib/export";
+import {
+  type MovementUser,
+  type StockMovement,
+  type StockMovementInput,
+  recordStockMovement,
+  saveProductVariants,
+  stockMovementsCollection,
+} from "@/lib/inventory";
+import {
+  queryOptions,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { productKeys } from "./products";
+
+// Movements live under each product, so they have their own keys:
+// `["stockMovements", productId]`
+export const stockMovementKeys = {
+  all: ["stockMovements"] as const,
+  list: (productId: string) => [...stockMovementKeys.all, productId] as const,
+};
+
+/**
+ * A product's movements, newest first.
+ */
+export const stockMovementsQueryOptions = (productId: string) =>
+  queryOptions({
+    queryKey: stockMovementKeys.list(productId),
+    queryFn: () =>
+      getRepository<StockMovement>(stockMovementsCollection(productId)).list({
+        orderBy: [{ field: "createdAt", direction: "desc" }],
+      }),
+  });
+
+export const useStockMovements = (productId: string) =>
+  useQuery(stockMovementsQueryOptions(productId));
+
+/**
+ * Records a movement. The product lists pick up the new stock from their
+ * live listeners; the history and the product's detail are refetched.
+ */
+export function useRecordStockMovement() {
+  const queryClient = useQueryClient();
+  return useMutation<
+    number,
+    Error,
+    {
+      productId: string;
+      input: StockMovementInput;
+      user: MovementUser;
+    }
+  >({
+    mutationFn: ({ productId, input, user }) =>
+      recordStockMovement(productId, input, user),
+    onSettled: (_stock, _error, { productId }) =>
+      Promise.all([
+        queryClient.invalidateQueries({
+          queryKey: stockMovementKeys.list(productId),
+        }),
+        queryClient.invalidateQueries({
+          queryKey: productKeys.detail(productId),
+        }),
+      ]),
+  });
+}
+
+/**
+ * Saves a product's options and variants (see `saveProductVariants`).
+ */
+export function useSaveProductVariants() {
+  const queryClient = useQueryClient();
+  return useMutation<
+    void,
+    Error,
+    {
+      productId: string;
+      options: ProductOption[];
+      variants: ProductVariant[];
+      initialStock: Record<string, number>; // New variants only, by ID
+      user: MovementUser;
+    }
+  >({
+    mutationFn: ({ productId, options, variants, initialStock, user }) =>
+      saveProductVariants(
+        productId,
+        options,
+        variants,
+        new Map(Object.entries(initialStock)),
+        user,
+      ),
+    onSettled: (_data, _error, { productId }) =>
+      Promise.all([
+        queryClient.invalidateQueries({
+          queryKey: stockMovementKeys.list(productId),
+        }),
+        queryClient.invalidateQueries({
+          queryKey: productKeys.detail(productId),
+        }),
+      ]),
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { validateCatalogSearch, validateQuerySearch } from "./search-params";
+
+describe("validateQuerySearch", () => {
+  it("keeps a search and drops a blank one", () => {
+    expect(validateQuerySearch({ q: "tea" })).toEqual({ q: "tea" });
+    expect(validateQuerySearch({ q: "  " })).toEqual({ q: undefined });
+    expect(validateQuerySearch({ q: 5 })).toEqual({ q: undefined });
+  });
+});
+
+describe("validateCatalogSearch", () => {
+  it("reads every param of a shared link", () => {
+    expect(
+      validateCatalogSearch({
+        q: "tea",
+        categories: ["c1", "c2", "c1"],
+        page: "3",
+        sort: "price-desc",
+        minPrice: 5,
+        maxPrice: "20",
+        product: "p1",
+      }),
+    ).toEqual({
+      q: "tea",
+      categories: ["c1", "c2"],
+      page: 3,
+      sort: "price-desc",
+      minPrice: 5,
+      maxPrice: 20,
+      product: "p1",
+    });
+  });
+
+  it("leaves defaults out so links stay short", () => {
+    expect(
+      validateCatalogSearch({ page: 1, sort: "name", minPrice: 0 }),
+    ).toEqual(validateCatalogSearch({}));
+  });
+
+  it("drops values that make no sense", () => {
+    expect(
+      validateCatalogSearch({
+        categories: [3, ""],
+        page: "two",
+        sort: "random",
+        minPrice: -5,
+        maxPrice: -1,
+      }),
+    ).toEqual({
+      q: undefined,
+      categories: undefined,
+      page: undefined,
+      sort: undefined,
+      minPrice: undefined,
+      maxPrice: undefined,
+      product: undefined,
+    });
+  });
+
+  it("accepts the single category of older links", () => {
+    expect(validateCatalogSearch({ category: "c1" }).categories).toEqual([
+      "c1",
+    ]);
+  });
+
+  it("rounds fractional pages down", () => {
+    expect(validateCatalogSearch({ page: 2.7 }).page).toBe(2);
+  });
+});
@@ -0,0 +1,100 @@
+// search-params.ts
+// Typed URL search params for the routes that keep their view in the URL.
+// Defaults are left out of the URL so links stay short.
+
+// --- PARSERS ---
+// Values arrive as whatever the router parsed from the URL (strings,
+// numbers, ...); anything unexpected is dropped rather than rejected.
+
+const stringParam = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() !== "" ? value : undefined;
+
+const numberParam = (value: unknown): number | undefined => {
+  const number =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : Number.NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const stringListParam = (value: unknown): string[] | undefined => {
+  const list = (Array.isArray(value) ? value : [value])
+    .map(stringParam)
+    .filter((item): item is string => item !== undefined);
+  return list.length > 0 ? [...new Set(list)] : undefined;
+};
+
+const enumParam = <T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+): T | undefined =>
+  allowed.includes(value as T) ? (value as T) : undefined;
+
+// --- ADMIN PAGES ---
+
+export interface QuerySearch {
+  q?: string; // Text typed in the search bar
+}
+
+export const validateQuerySearch = (
+  search: Record<string, unknown>,
+): QuerySearch => ({
+  q: stringParam(search.q),
+});
+
+export interface ProductsSearch extends QuerySearch {
+  edit?: string; // Open the edit form of this product (command palette)
+  create?: boolean; // Open the "Add New Product" form
+}
+
+export const validateProductsSearch = (
+  search: Record<string, unknown>,
+): ProductsSearch => ({
+  ...validateQuerySearch(search),
+  edit: stringParam(search.edit),
+  create: search.create === true || search.create === "true" || undefined,
+});
+
+// --- CATALOG ---
+
+export const CATALOG_SORTS = [
+  "name",
+  "price-asc",
+  "price-desc",
+  "newest",
+] as const;
+
+export type CatalogSort = (typeof CATALOG_SORTS)[number];
+
+export const DEFAULT_CATALOG_SORT: CatalogSort = "name";
+
+export interface CatalogSearch extends QuerySearch {
+  categories?: string[]; // Category IDs; all categories when unset
+  page?: number; // 1-based
+  sort?: CatalogSort;
+  minPrice?: number;
+  maxPrice?: number;
+  product?: string; // Product shown in the quick view
+}
+
+export const validateCatalogSearch = (
+  search: Record<string, unknown>,
+): CatalogSearch => {
+  const page = numberParam(search.page);
+  const minPrice = numberParam(search.minPrice);
+  const maxPrice = numberParam(search.maxPrice);
+  const sort = enumParam(search.sort, CATALOG_SORTS);
+
+  return {
+    ...validateQuerySearch(search),
+    // `category` is the single-category param of older links
+    categories: stringListParam(search.categories ?? search.category),
+    page: page && page > 1 ? Math.floor(page) : undefined,
+    sort: sort === DEFAULT_CATALOG_SORT ? undefined : sort,
+    minPrice: minPrice && minPrice > 0 ? minPrice : undefined,
+    maxPrice: maxPrice !== undefined && maxPrice >= 0 ? maxPrice : undefined,
+    product: stringParam(search.product),
+  };
+};
@@ -0,0 +1,166 @@
+import type { Category } from "@/lib/export";
+import { makeCategory, makeProduct } from "@/test/fixtures";
+import { describe, expect, it } from "vitest";
+import {
+  categorySearchDefinition,
+  createSearchIndex,
+  foldText,
+  parseQuery,
+  productSearchDefinition,
+  splitHighlights,
+} from "./search";
+
+const products = [
+  makeProduct("p1", { name: "Café Latte", price: 4, categoryId: "c1" }),
+  makeProduct("p2", { name: "Iced Tea", description: "With lemon", price: 3 }),
+  makeProduct("p3", { name: "Chocolate", price: 10, sku: "CH-01", stock: 0 }),
+  makeProduct("p4", { name: "Lemonade", price: 5, categoryId: "c2" }),
+];
+
+const categoryMap = new Map([
+  ["c1", "Coffee"],
+  ["c2", "Cold drinks"],
+]);
+
+const search = (query: string, rate = 1) =>
+  createSearchIndex(
+    products,
+    productSearchDefinition(categoryMap, { currency: "NIO", rate }),
+  )
+    .search(query)
+    .map((result) => result.item.id);
+
+describe("foldText", () => {
+  it("ignores accents and case", () => {
+    expect(foldText("Café CRÈME")).toBe("cafe creme");
+  });
+});
+
+describe("parseQuery", () => {
+  it("separates words, field-scoped words and numeric filters", () => {
+    expect(
+      parseQuery(
+        'Tea name:"iced tea" price:<10 stock:2..5 other:x',
+        ["name"],
+        ["price", "stock"],
+      ),
+    ).toEqual({
+      terms: [
+        { text: "tea" },
+        { text: "iced", field: "name" },
+        { text: "tea", field: "name" },
+        { text: "other" },
+        { text: "x" },
+      ],
+      filters: [
+        { field: "price", op: "<", value: 10 },
+        { field: "stock", op: ">=", value: 2 },
+        { field: "stock", op: "<=", value: 5 },
+      ],
+    });
+  });
+
+  it("ignores malformed numbers", () => {
+    expect(parseQuery("price:cheap", [], ["price"])).toEqual({
+      terms: [],
+      filters: [],
+    });
+  });
+});
+
+describe("createSearchIndex", () => {
+  it("returns every item in order for an empty query", () => {
+    expect(search("")).toEqual(["p1", "p2", "p3", "p4"]);
+  });
+
+  it("matches prefixes regardless of accents", () => {
+    expect(search("cafe")).toEqual(["p1"]);
+    expect(search("choc")).toEqual(["p3"]);
+  });
+
+  it("tolerates typos in longer words only", () => {
+    expect(search("chocolat")).toEqual(["p3"]);
+    expect(search("chocloate")).toEqual(["p3"]);
+    expect(search("tae")).toEqual([]);
+  });
+
+  it("ranks name matches above description matches", () => {
+    expect(search("lemon")).toEqual(["p4", "p2"]);
+  });
+
+  it("requires every word to match", () => {
+    expect(search("iced lemon")).toEqual(["p2"]);
+  });
+
+  it("searches category names and limits words to their field", () => {
+    expect(search("coffee")).toEqual(["p1"]);
+    expect(search("category:cold")).toEqual(["p4"]);
+    expect(search("name:cold")).toEqual([]);
+  });
+
+  it("matches SKUs exactly or by prefix, without typos", () => {
+    expect(search("CH-01")).toEqual(["p3"]);
+    expect(search("sku:ch")).toEqual(["p3"]);
+    expect(search("sku:ch-02")).toEqual([]);
+  });
+
+  it("never matches untracked stock", () => {
+    expect(search("stock:0")).toEqual(["p3"]);
+    expect(search("stock:<10")).toEqual(["p3"]);
+  });
+
+  it("filters by price", () => {
+    expect(search("price:<5")).toEqual(["p1", "p2"]);
+    expect(search("price:4..5")).toEqual(["p1", "p4"]);
+  });
+
+  it("filters prices in the display currency", () => {
+    expect(search("price:100..200", 30)).toEqual(["p1", "p4"]);
+  });
+
+  it("highlights the matched part of the original text", () => {
+    const [result] = createSearchIndex(
+      products,
+      productSearchDefinition(categoryMap),
+    ).search("cafe lat");
+    expect(result.highlights).toEqual({
+      name: [
+        [0, 4],
+        [5, 8],
+      ],
+    });
+  });
+});
+
+describe("categorySearchDefinition", () => {
+  const categories: Category[] = [
+    makeCategory("c1", "Coffee"),
+    makeCategory("c2", "Cold drinks"),
+  ];
+
+  it("filters by product count", () => {
+    const index = createSearchIndex(
+      categories,
+      categorySearchDefinition(new Map([["c1", 4]])),
+    );
+    const found = (query: string) =>
+      index.search(query).map((result) => result.item.id);
+    expect(found("products:>3")).toEqual(["c1"]);
+    expect(found("co products:0")).toEqual(["c2"]);
+  });
+});
+
+describe("splitHighlights", () => {
+  it("alternates plain and highlighted parts", () => {
+    expect(splitHighlights("Iced Tea", [[5, 8]])).toEqual([
+      { text: "Iced ", start: 0, highlighted: false },
+      { text: "Tea", start: 5, highlighted: true },
+    ]);
+  });
+
+  it("returns the whole text when nothing is highlighted", () => {
+    expect(splitHighlights("Tea")).toEqual([
+      { text: "Tea", start: 0, highlighted: false },
+    ]);
+  });
+});
@@ -0,0 +1,426 @@
+// search.ts
+// Client-side search used by the admin tables and the catalog: accent- and
+// case-insensitive, prefix and typo tolerant, ranked by field weight, with
+// the matched ranges for highlighting.
+//
+// Queries are words ("cafe latte") plus optional field-scoped parts:
+//   category:drinks    text, only in that field
+//   name:"iced tea"    quoted values keep their spaces
+//   price:<10          numeric fields: <, <=, >, >=, = or a range 5..10
+
+import {
+  BASE_PRICE_FORMAT,
+  type PriceFormat,
+  convertPrice,
+} from "@/lib/currency";
+import type { Category, Product } from "@/lib/export";
+import { productSkus } from "@/lib/variants";
+
+// --- TEXT ---
+
+/**
+ * Lowercases and strips accents, so "Café" and "cafe" compare equal.
+ */
+export const foldText = (text: string) =>
+  text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+// Letters (with any combining marks) and digits
+const TOKEN_PATTERN = /[\p{L}\p{N}][\p{L}\p{M}\p{N}]*/gu;
+
+interface Token {
+  folded: string;
+  start: number; // Offsets in the original text
+  end: number;
+}
+
+const tokenize = (text: string): Token[] =>
+  [...text.matchAll(TOKEN_PATTERN)].map((match) => ({
+    folded: foldText(match[0]),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+/**
+ * Length of the original text that folds into the first `foldedLength`
+ * characters, e.g. to highlight the prefix "cafe" within "Café".
+ */
+const originalLength = (original: string, foldedLength: number) => {
+  let folded = 0;
+  let index = 0;
+  while (index < original.length && folded < foldedLength) {
+    folded += foldText(original[index]).length;
+    index++;
+  }
+  // Keep trailing combining marks with their letter
+  while (index < original.length && /\p{M}/u.test(original[index])) index++;
+  return index;
+};
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance, giving up once
+ * it exceeds `max`.
+ */
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Typos allowed in a term: none for short words, where they match too much
+const allowedTypos = (term: string) =>
+  term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+// How well one query term matches one token, from 0 (not at all) to 1
+const EXACT = 1;
+const PREFIX = 0.75;
+const TYPO = 0.5;
+const PREFIX_TYPO = 0.35;
+
+/**
+ * Scores `term` against `token` and returns the folded length of the token
+ * that matched.
+ */
+const matchToken = (
+  term: string,
+  token: string,
+  fuzzy: boolean,
+): { quality: number; length: number } | null => {
+  if (token === term) return { quality: EXACT, length: token.length };
+  if (token.startsWith(term)) return { quality: PREFIX, length: term.length };
+
+  const typos = fuzzy ? allowedTypos(term) : 0;
+  if (typos === 0) return null;
+  if (editDistance(term, token, typos) <= typos) {
+    return { quality: TYPO, length: token.length };
+  }
+  if (
+    token.length > term.length &&
+    editDistance(term, token.slice(0, term.length), typos) <= typos
+  ) {
+    return { quality: PREFIX_TYPO, length: term.length };
+  }
+  return null;
+};
+
+// --- QUERY PARSING ---
+
+type NumericOperator = "<" | "<=" | ">" | ">=" | "=";
+
+export interface NumericFilter {
+  field: string;
+  op: NumericOperator;
+  value: number;
+}
+
+export interface ParsedQuery {
+  terms: { text: string; field?: string }[]; // Folded words
+  filters: NumericFilter[];
+}
+
+const QUERY_PART = /(\w+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/g;
+const COMPARISON = /^(<=|>=|<|>|=)?(-?\d+(?:\.\d+)?)$/;
+const RANGE = /^(-?\d+(?:\.\d+)?)\.\.(-?\d+(?:\.\d+)?)$/;
+
+/**
+ * Splits a query into words and field filters. `textFields` and
+ * `numericFields` list the names that may be used before a colon; anything
+ * else is searched as plain text.
+ */
+export function parseQuery(
+  query: string,
+  textFields: string[],
+  numericFields: string[],
+): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], filters: [] };
+  const addWords = (text: string, field?: string) => {
+    for (const { folded } of tokenize(text)) {
+      parsed.terms.push({ text: folded, field });
+    }
+  };
+
+  for (const match of query.matchAll(QUERY_PART)) {
+    const [part, key, quotedValue, value, quoted, word] = match;
+    const field = key?.toLowerCase();
+
+    if (field && numericFields.includes(field)) {
+      const raw = quotedValue ?? value;
+      const range = RANGE.exec(raw);
+      const comparison = COMPARISON.exec(raw);
+      if (range) {
+        parsed.filters.push(
+          { field, op: ">=", value: Number(range[1]) },
+          { field, op: "<=", value: Number(range[2]) },
+        );
+      } else if (comparison) {
+        parsed.filters.push({
+          field,
+          op: (comparison[1] as NumericOperator | undefined) ?? "=",
+          value: Number(comparison[2]),
+        });
+      }
+      // A malformed number is ignored rather than matching nothing
+    } else if (field && textFields.includes(field)) {
+      addWords(quotedValue ?? value, field);
+    } else {
+      addWords(quoted ?? word ?? part);
+    }
+  }
+  return parsed;
+}
+
+const compare = (value: number, { op, value: target }: NumericFilter) => {
+  switch (op) {
+    case "<":
+      return value < target;
+    case "<=":
+      return value <= target;
+    case ">":
+      return value > target;
+    case ">=":
+      return value >= target;
+    default:
+      return value === target;
+  }
+};
+
+// --- INDEX ---
+
+export interface SearchField<T> {
+  key: string; // Also the name for field-scoped queries, e.g. `category:`
+  weight: number; // Relative importance; higher ranks first
+  value: (item: T) => string;
+  fuzzy?: boolean; // Tolerate typos (default true); off for IDs and codes
+}
+
+export interface NumericSearchField<T> {
+  key: string;
+  value: (item: T) => number;
+}
+
+// What can be searched in one kind of item
+export interface SearchDefinition<T> {
+  fields: SearchField<T>[];
+  numericFields?: NumericSearchField<T>[]; // Only usable as `key:<10` etc.
+}
+
+// Start/end offsets in the field's original text
+export type HighlightRange = [start: number, end: number];
+
+export interface SearchResult<T> {
+  item: T;
+  score: number;
+  highlights: Record<string, HighlightRange[]>; // By field key
+}
+
+export interface SearchIndex<T> {
+  /**
+   * Items matching every word and filter of `query`, best first. An empty
+   * query returns every item in its original order.
+   */
+  search(query: string): SearchResult<T>[];
+}
+
+/**
+ * Merges overlapping or touching ranges, in order.
+ */
+const mergeRanges = (ranges: HighlightRange[]): HighlightRange[] => {
+  const merged: HighlightRange[] = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+};
+
+/**
+ * Tokenizes every item once so that each search only compares words.
+ * Rebuild it when the items change.
+ */
+export function createSearchIndex<T>(
+  items: T[],
+  { fields, numericFields = [] }: SearchDefinition<T>,
+): SearchIndex<T> {
+  const textFieldKeys = fields.map((field) => field.key.toLowerCase());
+  const numericFieldKeys = numericFields.map((field) => field.key.toLowerCase());
+
+  const entries = items.map((item) => ({
+    item,
+    fields: fields.map((field) => {
+      const text = field.value(item) ?? "";
+      return { field, text, tokens: tokenize(text) };
+    }),
+    numbers: new Map(
+      numericFields.map((field) => [field.key.toLowerCase(), field.value(item)]),
+    ),
+  }));
+
+  return {
+    search(query) {
+      const { terms, filters } = parseQuery(
+        query,
+        textFieldKeys,
+        numericFieldKeys,
+      );
+      const results: SearchResult<T>[] = [];
+
+      for (const entry of entries) {
+        const passes = filters.every((filter) => {
+          const value = entry.numbers.get(filter.field);
+          return value !== undefined && compare(value, filter);
+        });
+        if (!passes) continue;
+
+        let score = 0;
+        const highlights: Record<string, HighlightRange[]> = {};
+        const matchesAll = terms.every((term) => {
+          let best = 0;
+          for (const { field, text, tokens } of entry.fields) {
+            if (term.field && field.key.toLowerCase() !== term.field) continue;
+            for (const token of tokens) {
+              const match = matchToken(
+                term.text,
+                token.folded,
+                field.fuzzy ?? true,
+              );
+              if (!match) continue;
+              best = Math.max(best, match.quality * field.weight);
+              // Every matching word is highlighted, not only the best one
+              const length = originalLength(
+                text.slice(token.start, token.end),
+                match.length,
+              );
+              highlights[field.key] ??= [];
+              highlights[field.key].push([
+                token.start,
+                token.start + length,
+              ]);
+            }
+          }
+          score += best;
+          return best > 0;
+        });
+        if (!matchesAll) continue;
+
+        for (const key of Object.keys(highlights)) {
+          highlights[key] = mergeRanges(highlights[key]);
+        }
+        results.push({ item: entry.item, score, highlights });
+      }
+
+      // Stable: equal scores keep the items' original order
+      return terms.length > 0
+        ? results.sort((a, b) => b.score - a.score)
+        : results;
+    },
+  };
+}
+
+// --- DEFINITIONS ---
+
+/**
+ * Products: name above description above category. `price:` (in the
+ * currency of `priceFormat`) and `stock:` filter.
+ */
+export const productSearchDefinition = (
+  categoryMap: Map<string, string>,
+  priceFormat: PriceFormat = BASE_PRICE_FORMAT,
+): SearchDefinition<Product> => ({
+  fields: [
+    { key: "name", weight: 3, value: (prod) => prod.name },
+    { key: "description", weight: 2, value: (prod) => prod.description },
+    {
+      key: "category",
+      weight: 1,
+      value: (prod) => categoryMap.get(prod.categoryId) ?? "",
+    },
+    {
+      key: "sku",
+      weight: 3,
+      value: (prod) => productSkus(prod).join(" "),
+      fuzzy: false,
+    },
+    {
+      key: "barcode",
+      weight: 3,
+      value: (prod) => prod.barcode ?? "",
+      fuzzy: false,
+    },
+    { key: "id", weight: 1, value: (prod) => prod.id, fuzzy: false },
+  ],
+  numericFields: [
+    { key: "price", value: (prod) => convertPrice(prod.price, priceFormat) },
+    // Untracked products never match a `stock:` filter
+    { key: "stock", value: (prod) => prod.stock ?? Number.NaN },
+  ],
+});
+
+/**
+ * Categories: name above description. `products:` filters by product count.
+ */
+export const categorySearchDefinition = (
+  productCounts: Map<string, number>,
+): SearchDefinition<Category> => ({
+  fields: [
+    { key: "name", weight: 3, value: (cat) => cat.name },
+    { key: "description", weight: 2, value: (cat) => cat.description },
+    { key: "id", weight: 1, value: (cat) => cat.id, fuzzy: false },
+  ],
+  numericFields: [
+    { key: "products", value: (cat) => productCounts.get(cat.id) ?? 0 },
+  ],
+});
+
+// --- HIGHLIGHTING ---
+
+/**
+ * Splits `text` into alternating plain and highlighted parts. `start` is
+ * where each part begins in `text`, which also makes a stable key.
+ */
+export function splitHighlights(
+  text: string,
+  ranges: HighlightRange[] = [],
+): { text: string; start: number; highlighted: boolean }[] {
+  const parts: { text: string; start: number; highlighted: boolean }[] = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (start > position) {
+      parts.push({
+        text: text.slice(position, start),
+        start: position,
+        highlighted: false,
+      });
+    }
+    parts.push({ text: text.slice(start, end), start, highlighted: true });
+    position = end;
+  }
+  if (position < text.length) {
+    parts.push({
+      text: text.slice(position),
+      start: position,
+      highlighted: false,
+    });
+  }
+  return parts;
+}
@@ -0,0 +1,62 @@
+// table-preferences.ts
+// Which columns of a data table are hidden and how wide the others are.
+// Stored per browser and per signed-in user, so people sharing a machine
+// each keep their own layout.
+
+import { useAuth } from "@/lib/auth/auth-context";
+import { safeSetItem } from "@/lib/local-storage";
+import { useCallback, useEffect, useState } from "react";
+
+export interface TablePreferences {
+  hidden: string[]; // Column IDs
+  widths: Record<string, number>; // Column ID → width in px
+}
+
+const EMPTY_PREFERENCES: TablePreferences = { hidden: [], widths: {} };
+
+const storageKey = (tableId: string, userId: string) =>
+  `table:${tableId}:${userId}`;
+
+const loadPreferences = (key: string): TablePreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) ?? "null");
+    return {
+      hidden: Array.isArray(stored?.hidden) ? stored.hidden : [],
+      widths:
+        stored?.widths && typeof stored.widths === "object"
+          ? stored.widths
+          : {},
+    };
+  } catch {
+    return EMPTY_PREFERENCES;
+  }
+};
+
+/**
+ * The signed-in user's preferences for the table `tableId`, and a setter
+ * that saves them.
+ */
+export function useTablePreferences(tableId: string) {
+  const { user } = useAuth();
+  const key = storageKey(tableId, user?.uid ?? "anonymous");
+  const [preferences, setPreferencesState] = useState(() =>
+    loadPreferences(key),
+  );
+
+  // Signing in as someone else switches to their layout
+  useEffect(() => {
+    setPreferencesState(loadPreferences(key));
+  }, [key]);
+
+  const setPreferences = useCallback(
+    (update: (prev: TablePreferences) => TablePreferences) =>
+      setPreferencesState((prev) => {
+        const next = update(prev);
+        safeSetItem(key, JSON.stringify(next));
+        return next;
+      }),
+    [key],
+  );
+
+  return [preferences, setPreferences] as const;
+}
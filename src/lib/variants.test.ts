@@ -0,0 +1,138 @@
+import type { Product, ProductVariant } from "@/lib/export";
+import { describe, expect, it } from "vitest";
+import {
+  buildVariantMatrix,
+  expandVariants,
+  findVariant,
+  isVariantRow,
+  priceRange,
+  productSkus,
+  toStoredVariant,
+  variantLabel,
+} from "./variants";
+
+const options = [
+  { name: "Size", values: ["S", "M"] },
+  { name: "Color", values: ["Red", "Blue"] },
+];
+
+const product: Product = {
+  id: "p1",
+  name: "Shirt",
+  description: "",
+  price: 10,
+  categoryId: "c1",
+  sku: "SH",
+  options,
+  variants: [
+    { id: "v1", options: { Size: "S", Color: "Red" }, stock: 2 },
+    { id: "v2", options: { Size: "M", Color: "Red" }, price: 12, sku: "SH-M" },
+  ],
+};
+
+describe("buildVariantMatrix", () => {
+  it("creates every combination in option order", () => {
+    const matrix = buildVariantMatrix(options, []);
+    expect(matrix.map((variant) => variant.options)).toEqual([
+      { Size: "S", Color: "Red" },
+      { Size: "S", Color: "Blue" },
+      { Size: "M", Color: "Red" },
+      { Size: "M", Color: "Blue" },
+    ]);
+    expect(new Set(matrix.map((variant) => variant.id)).size).toBe(4);
+  });
+
+  it("keeps existing variants for combinations that still exist", () => {
+    const matrix = buildVariantMatrix(options, product.variants ?? []);
+    expect(matrix[0]).toBe(product.variants?.[0]);
+    expect(matrix[2]).toBe(product.variants?.[1]);
+  });
+
+  it("drops variants once an option is added", () => {
+    const matrix = buildVariantMatrix(
+      [...options, { name: "Fit", values: ["Slim"] }],
+      product.variants ?? [],
+    );
+    expect(matrix.map((variant) => variant.id)).not.toContain("v1");
+  });
+
+  it("ignores options without a name or values", () => {
+    expect(
+      buildVariantMatrix(
+        [
+          { name: " ", values: ["S"] },
+          { name: "Color", values: [] },
+        ],
+        [],
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("toStoredVariant", () => {
+  it("drops unset overrides and trims the SKU", () => {
+    const variant: ProductVariant = {
+      id: "v1",
+      options: { Size: "S" },
+      price: undefined,
+      sku: " SH-S ",
+      stock: 0,
+    };
+    expect(toStoredVariant(variant)).toEqual({
+      id: "v1",
+      options: { Size: "S" },
+      sku: "SH-S",
+      stock: 0,
+    });
+    expect(toStoredVariant({ ...variant, sku: "  " })).not.toHaveProperty(
+      "sku",
+    );
+  });
+});
+
+describe("lookups", () => {
+  it("labels variants in option order", () => {
+    expect(
+      variantLabel({ options: { Color: "Red", Size: "S" } }, options),
+    ).toBe("S / Red");
+  });
+
+  it("finds the variant matching a selection", () => {
+    expect(findVariant(product, { Size: "M", Color: "Red" })?.id).toBe("v2");
+    expect(findVariant(product, { Size: "M", Color: "Blue" })).toBeUndefined();
+  });
+
+  it("lists the product's and its variants' SKUs", () => {
+    expect(productSkus(product)).toEqual(["SH", "SH-M"]);
+  });
+});
+
+describe("priceRange", () => {
+  it("spans the variants' prices, falling back to the product's", () => {
+    expect(priceRange(product)).toEqual({ min: 10, max: 12 });
+  });
+
+  it("is the product's price without variants", () => {
+    expect(priceRange({ price: 5 })).toEqual({ min: 5, max: 5 });
+  });
+});
+
+describe("expandVariants", () => {
+  it("turns each variant into a row with its own ID", () => {
+    const plain = { ...product, id: "p2", variants: undefined };
+    const rows = expandVariants([product, plain]);
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatchObject({
+      id: "p1:v1",
+      name: "Shirt (S / Red)",
+      price: 10,
+      sku: "SH",
+      stock: 2,
+      variants: undefined,
+    });
+    expect(rows[1]).toMatchObject({ id: "p1:v2", price: 12, sku: "SH-M" });
+    expect(rows[2]).toBe(plain);
+    expect(rows.map(isVariantRow)).toEqual([true, true, false]);
+  });
+});
@@ -0,0 +1,180 @@
+// variants.ts
+// Product variants: every combination of a product's option values (e.g.
+// Size × Color) is one variant, which may override the price and SKU and
+// has its own stock.
+
+import type { PriceFormat } from "@/lib/currency";
+import {
+  type Product,
+  type ProductOption,
+  type ProductVariant,
+  formatPrice,
+} from "@/lib/export";
+
+// More would make the matrix unmanageable in the editor
+export const MAX_OPTIONS = 3;
+
+const generateVariantId = () => crypto.randomUUID().slice(0, 8);
+
+/**
+ * Options with a name and at least one value; the others produce nothing.
+ */
+export const completeOptions = (options: ProductOption[]) =>
+  options.filter(
+    (option) => option.name.trim() !== "" && option.values.length > 0,
+  );
+
+export const hasVariants = (
+  product: Pick<Product, "variants">,
+): product is Pick<Product, "variants"> & { variants: ProductVariant[] } =>
+  (product.variants?.length ?? 0) > 0;
+
+/**
+ * Every combination of the options' values, in option order. Variants of
+ * `existing` with the same values are kept (with their ID, overrides and
+ * stock), so editing the options never loses data for combinations that
+ * still exist.
+ */
+export function buildVariantMatrix(
+  options: ProductOption[],
+  existing: ProductVariant[],
+): ProductVariant[] {
+  const complete = completeOptions(options);
+  if (complete.length === 0) return [];
+
+  let combinations: Record<string, string>[] = [{}];
+  for (const option of complete) {
+    combinations = combinations.flatMap((combination) =>
+      option.values.map((value) => ({ ...combination, [option.name]: value })),
+    );
+  }
+
+  const isCombination = (
+    variant: ProductVariant,
+    combination: Record<string, string>,
+  ) =>
+    Object.keys(variant.options).length === complete.length &&
+    complete.every(
+      ({ name }) => variant.options[name] === combination[name],
+    );
+
+  return combinations.map(
+    (combination) =>
+      existing.find((variant) => isCombination(variant, combination)) ?? {
+        id: generateVariantId(),
+        options: combination,
+      },
+  );
+}
+
+/**
+ * Drops unset overrides: Firestore rejects `undefined` inside arrays.
+ */
+export const toStoredVariant = ({
+  id,
+  options,
+  price,
+  sku,
+  stock,
+}: ProductVariant): ProductVariant => ({
+  id,
+  options,
+  ...(price !== undefined && { price }),
+  ...(sku?.trim() && { sku: sku.trim() }),
+  ...(stock !== undefined && { stock }),
+});
+
+/**
+ * "M / Red", in option order.
+ */
+export const variantLabel = (
+  variant: Pick<ProductVariant, "options">,
+  options: ProductOption[] = [],
+) =>
+  (options.length > 0
+    ? options.map((option) => variant.options[option.name])
+    : Object.values(variant.options)
+  )
+    .filter(Boolean)
+    .join(" / ");
+
+/**
+ * The variant matching every selected value, if there is one.
+ */
+export const findVariant = (
+  product: Pick<Product, "variants">,
+  selection: Record<string, string>,
+) =>
+  product.variants?.find((variant) =>
+    Object.entries(variant.options).every(
+      ([name, value]) => selection[name] === value,
+    ),
+  );
+
+/**
+ * The product's SKU and those of its variants.
+ */
+export const productSkus = (product: Pick<Product, "sku" | "variants">) =>
+  [product.sku, ...(product.variants ?? []).map((variant) => variant.sku)]
+    .map((sku) => sku?.trim() ?? "")
+    .filter(Boolean);
+
+// --- PRICES ---
+
+export const variantPrice = (
+  product: Pick<Product, "price">,
+  variant: Pick<ProductVariant, "price">,
+) => variant.price ?? product.price;
+
+/**
+ * Lowest and highest price a customer can pay for the product.
+ */
+export const priceRange = (product: Pick<Product, "price" | "variants">) => {
+  if (!hasVariants(product)) return { min: product.price, max: product.price };
+  const prices = product.variants.map((variant) =>
+    variantPrice(product, variant),
+  );
+  return { min: Math.min(...prices), max: Math.max(...prices) };
+};
+
+/**
+ * "$10.00–$18.00", or a single price when every variant costs the same.
+ */
+export const formatPriceRange = (
+  product: Pick<Product, "price" | "variants">,
+  priceFormat?: PriceFormat,
+) => {
+  const { min, max } = priceRange(product);
+  return min === max
+    ? formatPrice(min, priceFormat)
+    : `${formatPrice(min, priceFormat)}–${formatPrice(max, priceFormat)}`;
+};
+
+// --- EXPORT ---
+
+// Joins the product and variant IDs of a per-variant row: "abc123:1f2e3d4c"
+export const VARIANT_ID_SEPARATOR = ":";
+
+export const isVariantRow = (row: Pick<Product, "id">) =>
+  row.id.includes(VARIANT_ID_SEPARATOR);
+
+/**
+ * One row per variant, shaped like a product so every export format and
+ * report can render it: the ID is the product's and the variant's joined,
+ * the name gets the variant label and the price, SKU and stock are the
+ * variant's. Products without variants stay as they are.
+ */
+export const expandVariants = (products: Product[]): Product[] =>
+  products.flatMap((product) =>
+    hasVariants(product)
+      ? product.variants.map((variant) => ({
+          ...product,
+          id: `${product.id}${VARIANT_ID_SEPARATOR}${variant.id}`,
+          name: `${product.name} (${variantLabel(variant, product.options)})`,
+          price: variantPrice(product, variant),
+          sku: variant.sku ?? product.sku,
+          stock: variant.stock,
+          variants: undefined,
+        }))
+      : [product],
+  );
@@ -1,7 +1,13 @@
 import { RouterProvider, createRouter } from "@tanstack/react-router";
-import { StrictMode } from "react";
+import { StrictMode, useEffect } from "react";
 import ReactDOM from "react-dom/client";
 import { Toaster } from "@/components/ui/sonner";
+import {
+  type AuthState,
+  AuthProvider,
+  useAuth,
+} from "@/lib/auth/auth-context";
+import { CurrencyProvider } from "@/lib/currency-context";
 
 import * as TanStackQueryProvider from "./integrations/tanstack-query/root-provider.tsx";
 
@@ -18,6 +24,8 @@ const router = createRouter({
   routeTree,
   context: {
     ...TanStackQueryProviderContext,
+    // Provided by <InnerApp /> once the auth state is known
+    auth: undefined as unknown as AuthState,
   },
   defaultPreload: "intent",
   scrollRestoration: true,
@@ -32,6 +40,19 @@ declare module "@tanstack/react-router" {
   }
 }
 
+// Waits for the first auth state before rendering routes, so `beforeLoad`
+// guards never run against a "loading" user, and re-runs them on changes.
+function InnerApp() {
+  const auth = useAuth();
+
+  useEffect(() => {
+    if (auth.status !== "loading") router.invalidate();
+  }, [auth]);
+
+  if (auth.status === "loading") return null;
+  return <RouterProvider router={router} context={{ auth }} />;
+}
+
 // Render the app
 const rootElement = document.getElementById("app");
 if (rootElement && !rootElement.innerHTML) {
@@ -39,7 +60,11 @@ if (rootElement && !rootElement.innerHTML) {
   root.render(
     <StrictMode>
       <TanStackQueryProvider.Provider {...TanStackQueryProviderContext}>
-        <RouterProvider router={router} />
+        <AuthProvider>
+          <CurrencyProvider>
+            <InnerApp />
+          </CurrencyProvider>
+        </AuthProvider>
 
         <Toaster />
       </TanStackQueryProvider.Provider>
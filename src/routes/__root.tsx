@@ -3,13 +3,16 @@ import { Outlet, createRootRouteWithContext } from "@tanstack/react-router";
 import { TanStackRouterDevtoolsPanel } from "@tanstack/react-router-devtools";
 
 import Header from "../components/Header";
+import { CommandPalette } from "../components/command-palette";
 
 import TanStackQueryDevtools from "../integrations/tanstack-query/devtools";
 
 import type { QueryClient } from "@tanstack/react-query";
+import type { AuthState } from "@/lib/auth/auth-context";
 
 interface MyRouterContext {
   queryClient: QueryClient;
+  auth: AuthState;
 }
 
 export const Route = createRootRouteWithContext<MyRouterContext>()({
@@ -17,6 +20,7 @@ export const Route = createRootRouteWithContext<MyRouterContext>()({
     <>
       <Header />
       <Outlet />
+      <CommandPalette />
       <TanstackDevtools
         config={{
           position: "bottom-left",
@@ -1,145 +1,457 @@
-import { useFirestoreCollection } from "@/lib/hooks/useFirestoreCollection";
-import { createFileRoute } from "@tanstack/react-router";
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
 // --- NUEVO: Iconos para los botones de paginación ---
-import { ShoppingBag, ChevronLeft, ChevronRight } from "lucide-react";
-import { useState, useMemo, useEffect } from "react";
-import { formatPrice } from "@/lib/export";
-
-// --- Required Interfaces (copied from products page) ---
-// (Sin cambios)
-interface Category {
-  id: string;
-  name: string;
-  description: string;
-}
-
-interface Product {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  categoryId: string; // The connection
-  imageBase64?: string; // Image field
-}
+import {
+  ShoppingBag,
+  ChevronLeft,
+  ChevronRight,
+  FileDown,
+  X,
+} from "lucide-react";
+import { ProductGallery } from "@/components/product-gallery";
+import { CatalogPdfDialog } from "@/components/catalog-pdf-dialog";
+import { PriceRangeSlider } from "@/components/price-range-slider";
+import { SearchBar } from "@/components/search-bar";
+import { useEffect, useMemo, useState } from "react";
+import { type Product, getProductImageUrl } from "@/lib/export";
+import { useFirestoreCollection } from "@/lib/hooks/useFirestoreCollection";
+import { formatPriceRange } from "@/lib/variants";
+import { CurrencySwitch } from "@/components/currency-switch";
+import { useCurrency } from "@/lib/currency-context";
+import { convertPrice, toBasePrice } from "@/lib/currency";
+import { isOutOfStock } from "@/lib/inventory";
+import {
+  categoryAncestry,
+  categoryPathMap,
+  childrenByParent,
+} from "@/lib/category-tree";
+import { StockAvailability } from "@/components/stock-badge";
+import {
+  CATALOG_SORT_LABELS,
+  canPageOnServer,
+  countWithSubcategories,
+  filterCatalog,
+  hasActiveFilters,
+  priceCeiling,
+  serverCatalogQuery,
+} from "@/lib/catalog-filters";
+import {
+  categoriesQueryOptions,
+  useCategories,
+} from "@/lib/queries/categories";
+import {
+  productQueryOptions,
+  productStatsQueryOptions,
+  useProducts,
+} from "@/lib/queries/products";
+import {
+  CATALOG_SORTS,
+  type CatalogSearch,
+  type CatalogSort,
+  DEFAULT_CATALOG_SORT,
+  validateCatalogSearch,
+} from "@/lib/search-params";
 
 // --- NUEVO: Constante para el tamaño de página ---
 const PRODUCTS_PER_PAGE = 8; // Puedes ajustar este número
 
 // --- New Route Definition ---
 export const Route = createFileRoute("/catalog")({
+  // Categories, page, sort, price range and search all live in the URL, so
+  // reloads, shared links and back/forward restore the exact view
+  validateSearch: validateCatalogSearch,
+  // Las categorías se comparten con /products a través del caché de consultas
+  loader: ({ context: { queryClient } }) =>
+    queryClient.ensureQueryData(categoriesQueryOptions()),
   component: CatalogPage,
 });
 
 function CatalogPage() {
   // --- Data Fetching ---
-  // (Sin cambios)
-  const { data: categories, loading: categoriesLoading } =
-    useFirestoreCollection<Category>("categories", {
-      pageSize: 1000,
-    });
+  const { data: categories = [], isPending: categoriesLoading } =
+    useCategories();
 
-  const { data: products, loading: productsLoading } =
-    useFirestoreCollection<Product>("products", {
-      pageSize: 1000,
-    });
+  // --- View state, from the URL ---
+  const search = Route.useSearch();
+  const navigate = useNavigate({ from: Route.fullPath });
+  const updateSearch = (changes: Partial<CatalogSearch>) =>
+    navigate({ search: (prev) => ({ ...prev, ...changes }) });
 
-  // --- State for selected category ---
-  const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(
-    null,
+  // --- Products ---
+  // Browsing all categories or a single one is paged by the data source,
+  // with counts instead of downloads for the facets. Searching, price
+  // ranges, other sorts and categories with subcategories need every
+  // product (cached and live), filtered, sorted and paged here.
+  const serverPaged = canPageOnServer(search, categories);
+  const serverPage = useFirestoreCollection<Product>("products", {
+    pageSize: PRODUCTS_PER_PAGE,
+    ...serverCatalogQuery(search),
+    enabled: serverPaged,
+    live: true,
+  });
+  const { data: stats } = useQuery({
+    ...productStatsQueryOptions(categories.map((cat) => cat.id)),
+    enabled: serverPaged,
+  });
+  const { data: products = [], isPending: allProductsLoading } = useProducts(
+    {},
+    { enabled: !serverPaged },
   );
+  const productsLoading = serverPaged ? serverPage.loading : allProductsLoading;
 
-  // --- NUEVO: State para la página actual ---
-  const [currentPage, setCurrentPage] = useState(1);
+  // --- Product shown in the quick-view modal ---
+  const { data: viewedProduct } = useQuery({
+    ...productQueryOptions(search.product ?? ""),
+    enabled: !!search.product,
+  });
+  const setViewedProductId = (product: string | undefined) =>
+    updateSearch({ product });
 
-  // --- Effect to set default category ---
-  // (Sin cambios)
-  useEffect(() => {
-    if (!selectedCategoryId && categories && categories.length > 0) {
-      setSelectedCategoryId(categories[0].id);
+  const [isPdfOpen, setIsPdfOpen] = useState(false);
+  const { formatAmount, formatPrice, priceFormat } = useCurrency();
+
+  // --- Products matching every filter, in order, with facet counts ---
+  const filtered = useMemo(
+    () =>
+      serverPaged ? undefined : filterCatalog(products, search, categories),
+    [serverPaged, products, search, categories],
+  );
+  const categoryCounts = useMemo(
+    () =>
+      filtered?.categoryCounts ??
+      countWithSubcategories(stats?.categoryCounts ?? new Map(), categories),
+    [filtered, stats, categories],
+  );
+  const allCategoriesCount = filtered?.allCategoriesCount ?? stats?.total ?? 0;
+  // The URL holds the price range in the base currency; the slider shows
+  // it in the display currency, like the prices shown. While paging on the
+  // server it only knows the priciest product's own price, not its
+  // variants'.
+  const maxPrice = priceCeiling(
+    [...(stats?.priciest ?? []), ...products],
+    priceFormat,
+  );
+  const priceRangeShown: [number, number] = [
+    Math.round(convertPrice(search.minPrice ?? 0, priceFormat)),
+    search.maxPrice === undefined
+      ? maxPrice
+      : Math.min(
+          maxPrice,
+          Math.round(convertPrice(search.maxPrice, priceFormat)),
+        ),
+  ];
+  const selectedCategories = search.categories ?? [];
+  const isFiltered = hasActiveFilters(search);
+
+  // Any filter change goes back to the first page
+  const updateFilters = (changes: Partial<CatalogSearch>) =>
+    updateSearch({ ...changes, page: undefined });
+
+  // --- Category drill-down ---
+  const subcategories = useMemo(
+    () => childrenByParent(categories),
+    [categories],
+  );
+  const categoryPaths = useMemo(
+    () => categoryPathMap(categories),
+    [categories],
+  );
+  // The level being browsed: the selected category if it has
+  // subcategories, else the parent the selection shares (or the top)
+  const levelId = useMemo(() => {
+    if (
+      selectedCategories.length === 1 &&
+      subcategories.has(selectedCategories[0])
+    ) {
+      return selectedCategories[0];
     }
-  }, [categories, selectedCategoryId]);
-
-  // --- Memoized Filtering ---
-  // (Sin cambios - esta es la lista *completa* de productos filtrados)
-  const filteredProducts = useMemo(() => {
-    if (!selectedCategoryId || !products) return [];
-    return products.filter(
-      (product) => product.categoryId === selectedCategoryId,
+    const parents = new Set(
+      selectedCategories.map(
+        (id) => categoryAncestry(id, categories).at(-2)?.id,
+      ),
     );
-  }, [products, selectedCategoryId]);
+    return parents.size === 1 ? [...parents][0] : undefined;
+  }, [selectedCategories, subcategories, categories]);
+  const levelCategories = subcategories.get(levelId) ?? [];
+  const breadcrumbs = levelId ? categoryAncestry(levelId, categories) : [];
+  const levelSelection = levelId ? [levelId] : undefined;
+  const levelName = breadcrumbs.at(-1)?.name;
+  // Whether the whole level is shown, i.e. no narrower choice
+  const isWholeLevel = levelId
+    ? selectedCategories.length === 1 && selectedCategories[0] === levelId
+    : selectedCategories.length === 0;
+
+  const openCategory = (categoryId: string | undefined) =>
+    updateFilters({ categories: categoryId ? [categoryId] : undefined });
+
+  // Categories without subcategories combine with their siblings;
+  // deselecting the last one shows the whole level again
+  const toggleCategory = (categoryId: string) => {
+    const siblings = selectedCategories.filter((id) => id !== levelId);
+    const next = siblings.includes(categoryId)
+      ? siblings.filter((id) => id !== categoryId)
+      : [...siblings, categoryId];
+    updateFilters({ categories: next.length > 0 ? next : levelSelection });
+  };
+
+  const handleSearch = (q: string) => updateFilters({ q: q || undefined });
+
+  const handlePriceChange = ([min, max]: [number, number]) =>
+    updateFilters({
+      minPrice: min > 0 ? toBasePrice(min, priceFormat) : undefined,
+      maxPrice: max < maxPrice ? toBasePrice(max, priceFormat) : undefined,
+    });
 
-  // --- NUEVO: Memos para la paginación ---
+  const clearFilters = () =>
+    navigate({ search: (prev) => ({ sort: prev.sort }) });
 
-  // Calcula el número total de páginas basado en los productos filtrados
-  const totalPages = useMemo(() => {
-    return Math.ceil(filteredProducts.length / PRODUCTS_PER_PAGE);
-  }, [filteredProducts.length]);
+  // The server's count can arrive after the first page
+  const totalCount = filtered
+    ? filtered.products.length
+    : (serverPage.totalCount ?? serverPage.data.length);
+  const totalPages = Math.ceil(totalCount / PRODUCTS_PER_PAGE);
+  // Pages past the end (e.g. an old link) show the last page
+  const currentPage = filtered
+    ? Math.max(1, Math.min(search.page ?? 1, totalPages))
+    : serverPage.page;
+  const paginatedProducts = filtered
+    ? filtered.products.slice(
+        (currentPage - 1) * PRODUCTS_PER_PAGE,
+        currentPage * PRODUCTS_PER_PAGE,
+      )
+    : serverPage.data;
+  const hasPrevious = currentPage > 1;
+  const hasMore = filtered ? currentPage < totalPages : serverPage.hasMore;
 
-  // Obtiene solo los productos para la página actual
-  const paginatedProducts = useMemo(() => {
-    const startIndex = (currentPage - 1) * PRODUCTS_PER_PAGE;
-    const endIndex = startIndex + PRODUCTS_PER_PAGE;
-    return filteredProducts.slice(startIndex, endIndex);
-  }, [filteredProducts, currentPage]);
+  // Cursors can't jump, so server pages follow the URL's page one step at
+  // a time, e.g. for a shared link or back/forward. The hook goes back to
+  // page 1 itself when the query changes.
+  const {
+    page: serverPageNumber,
+    loading: serverLoading,
+    loadingMore: serverLoadingMore,
+    hasMore: serverHasMore,
+    nextPage,
+    previousPage,
+  } = serverPage;
+  useEffect(() => {
+    if (!serverPaged || serverLoading || serverLoadingMore) return;
+    const wantedPage = search.page ?? 1;
+    if (serverPageNumber < wantedPage && serverHasMore) nextPage();
+    else if (serverPageNumber > wantedPage) previousPage();
+  }, [
+    serverPaged,
+    serverLoading,
+    serverLoadingMore,
+    serverPageNumber,
+    serverHasMore,
+    search.page,
+    nextPage,
+    previousPage,
+  ]);
 
   // --- NUEVO: Handlers para cambiar de página ---
   const handleNextPage = () => {
-    setCurrentPage((prev) => Math.min(prev + 1, totalPages));
+    updateSearch({ page: currentPage + 1 });
   };
 
   const handlePrevPage = () => {
-    setCurrentPage((prev) => Math.max(prev - 1, 1));
+    updateSearch({ page: currentPage > 2 ? currentPage - 1 : undefined });
   };
 
-  const selectedCategoryName =
-    categories.find((c) => c.id === selectedCategoryId)?.name || "";
+  const selectedCategoryNames = categories
+    .filter((cat) => selectedCategories.includes(cat.id))
+    .map((cat) => categoryPaths.get(cat.id) ?? cat.name);
+
+  // e.g. `"tea" in Drinks or Snacks between $0.00 and $10.00`
+  const filterSummary = [
+    search.q?.trim() && `"${search.q.trim()}"`,
+    selectedCategoryNames.length > 0 &&
+      `in ${selectedCategoryNames.join(" or ")}`,
+    (search.minPrice !== undefined || search.maxPrice !== undefined) &&
+      `between ${formatPrice(search.minPrice ?? 0)} and ${
+        search.maxPrice === undefined
+          ? formatAmount(maxPrice)
+          : formatPrice(search.maxPrice)
+      }`,
+  ]
+    .filter(Boolean)
+    .join(" ");
 
   return (
     <div className="min-h-screen bg-gray-50 p-6 sm:p-10">
       {/* Header Section (Sin cambios) */}
-      <header className="mb-4">
+      <header className="mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <div className="flex items-center space-x-3">
           <ShoppingBag className="h-8 w-8 text-indigo-600" />
           <h1 className="text-3xl font-bold tracking-tight text-gray-900 sm:text-4xl">
             Product Catalog
           </h1>
         </div>
+        <div className="flex items-center gap-3">
+          <CurrencySwitch />
+          <button
+            type="button"
+            onClick={() => setIsPdfOpen(true)}
+            disabled={categories.length === 0}
+            className="flex items-center justify-center rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-md hover:bg-indigo-700 transition duration-150 ease-in-out whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileDown className="mr-2 h-5 w-5" />
+            Download PDF
+          </button>
+        </div>
       </header>
 
+      {/* --- Search, Sort and Price --- */}
+      <div className="mb-6 flex flex-col lg:flex-row gap-4 lg:items-end">
+        <SearchBar
+          onSearch={handleSearch}
+          value={search.q ?? ""}
+          placeholder="Search products..."
+        />
+        <label className="text-sm text-gray-600">
+          <span className="block mb-1 font-semibold">Sort by</span>
+          <select
+            value={search.sort ?? DEFAULT_CATALOG_SORT}
+            onChange={(e) =>
+              updateSearch({
+                sort:
+                  e.target.value === DEFAULT_CATALOG_SORT
+                    ? undefined
+                    : (e.target.value as CatalogSort),
+                page: undefined,
+              })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {CATALOG_SORTS.map((sort) => (
+              <option key={sort} value={sort}>
+                {CATALOG_SORT_LABELS[sort]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {maxPrice > 0 && (
+          <div className="text-sm text-gray-600">
+            <span className="block mb-1 font-semibold">Price</span>
+            <PriceRangeSlider
+              max={maxPrice}
+              value={priceRangeShown}
+              onChange={handlePriceChange}
+            />
+          </div>
+        )}
+        {isFiltered && (
+          <button
+            type="button"
+            onClick={clearFilters}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
       {/* --- Top Scrollable Category Bar --- */}
+      {/* One level of the category tree at a time: categories with
+          subcategories open that level, the others can be combined. The
+          counts are what each one would show with the other filters
+          applied, subcategories included */}
       <nav className="mb-8">
         <h2 className="text-sm font-semibold text-gray-600 mb-2">Categories</h2>
         {categoriesLoading && (
           <div className="w-full bg-gray-200 rounded-full h-8 animate-pulse" />
         )}
+        {breadcrumbs.length > 0 && (
+          <ol className="flex flex-wrap items-center gap-1 text-sm text-gray-500">
+            <li>
+              <button
+                type="button"
+                onClick={() => openCategory(undefined)}
+                className="hover:text-indigo-600 hover:underline"
+              >
+                All categories
+              </button>
+            </li>
+            {breadcrumbs.map((cat) => (
+              <li key={cat.id} className="flex items-center gap-1">
+                <ChevronRight className="h-4 w-4" aria-hidden="true" />
+                <button
+                  type="button"
+                  onClick={() => openCategory(cat.id)}
+                  aria-current={cat.id === levelId ? "page" : undefined}
+                  className={
+                    cat.id === levelId
+                      ? "font-medium text-gray-900"
+                      : "hover:text-indigo-600 hover:underline"
+                  }
+                >
+                  {cat.name}
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
         <div className="flex space-x-2 overflow-x-auto py-2 scrollbar-thin scrollbar-thumb-indigo-300 scrollbar-track-transparent">
-          {categories.map((cat) => (
-            <button
-              key={cat.id}
-              // --- MODIFICADO: Resetea la página al cambiar de categoría ---
-              onClick={() => {
-                setSelectedCategoryId(cat.id);
-                setCurrentPage(1); // Resetea a la página 1
-              }}
-              type="button"
-              className={`px-4 py-2 text-sm font-medium rounded-full whitespace-nowrap transition-all duration-150 ${selectedCategoryId === cat.id
-                  ? "bg-indigo-600 text-white shadow-md"
-                  : "bg-white text-gray-700 hover:bg-gray-100 shadow-sm border border-gray-200"
-                }`}
-            >
-              {cat.name}
-            </button>
-          ))}
+          <button
+            onClick={() => openCategory(levelId)}
+            type="button"
+            aria-pressed={isWholeLevel}
+            className={`px-4 py-2 text-sm font-medium rounded-full whitespace-nowrap transition-all duration-150 ${isWholeLevel
+                ? "bg-indigo-600 text-white shadow-md"
+                : "bg-white text-gray-700 hover:bg-gray-100 shadow-sm border border-gray-200"
+              }`}
+          >
+            {levelName ? `All in ${levelName}` : "All categories"} (
+            {levelId ? (categoryCounts.get(levelId) ?? 0) : allCategoriesCount})
+          </button>
+          {levelCategories.map((cat) => {
+            const hasSubcategories = subcategories.has(cat.id);
+            const isSelected = selectedCategories.includes(cat.id);
+            return (
+              <button
+                key={cat.id}
+                onClick={() =>
+                  hasSubcategories
+                    ? openCategory(cat.id)
+                    : toggleCategory(cat.id)
+                }
+                type="button"
+                aria-pressed={hasSubcategories ? undefined : isSelected}
+                title={
+                  hasSubcategories ? `Browse ${cat.name}` : undefined
+                }
+                className={`inline-flex items-center px-4 py-2 text-sm font-medium rounded-full whitespace-nowrap transition-all duration-150 ${isSelected
+                    ? "bg-indigo-600 text-white shadow-md"
+                    : "bg-white text-gray-700 hover:bg-gray-100 shadow-sm border border-gray-200"
+                  }`}
+              >
+                {cat.name} ({categoryCounts.get(cat.id) ?? 0})
+                {hasSubcategories && (
+                  <ChevronRight className="ml-1 -mr-1 h-4 w-4" />
+                )}
+              </button>
+            );
+          })}
         </div>
       </nav>
 
       {/* --- Products Grid Section --- */}
       <section>
-        {/* Section Header (Sin cambios) */}
         <h2 className="text-2xl font-semibold text-gray-800 mb-4">
-          {selectedCategoryName
-            ? `Showing ${selectedCategoryName}`
-            : "Select a category"}
+          {selectedCategoryNames.length > 0
+            ? selectedCategoryNames.join(", ")
+            : "All Products"}
+          {!productsLoading && (
+            <span className="ml-2 text-base font-normal text-gray-500">
+              {totalCount === 0
+                ? "no results"
+                : `${(currentPage - 1) * PRODUCTS_PER_PAGE + 1}–${
+                    (currentPage - 1) * PRODUCTS_PER_PAGE +
+                    paginatedProducts.length
+                  } of ${totalCount}`}
+            </span>
+          )}
         </h2>
 
         {/* Loading Skeleton (Sin cambios) */}
@@ -164,22 +476,29 @@ function CatalogPage() {
           </div>
         )}
 
-        {/* Empty State (Sin cambios) */}
-        {/* Sigue usando filteredProducts.length para saber si la *categoría* está vacía */}
-        {!productsLoading &&
-          filteredProducts.length === 0 &&
-          selectedCategoryId && (
-            <div className="text-center p-12 bg-white rounded-xl shadow-lg">
-              <ShoppingBag className="mx-auto h-12 w-12 text-gray-400" />
-              <h3 className="mt-2 text-lg font-medium text-gray-900">
-                No Products Found
-              </h3>
-              <p className="mt-1 text-sm text-gray-500">
-                There are no products listed in the "{selectedCategoryName}"
-                category.
-              </p>
-            </div>
-          )}
+        {/* Empty State: explains which filters hide the products */}
+        {!productsLoading && totalCount === 0 && (
+          <div className="text-center p-12 bg-white rounded-xl shadow-lg">
+            <ShoppingBag className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-lg font-medium text-gray-900">
+              No Products Found
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {isFiltered
+                ? `No products match ${filterSummary}.`
+                : "There are no products in the catalog yet."}
+            </p>
+            {isFiltered && (
+              <button
+                type="button"
+                onClick={clearFilters}
+                className="mt-4 text-sm font-medium text-indigo-600 hover:text-indigo-800"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+        )}
 
         {/* Product Grid */}
         {!productsLoading && paginatedProducts.length > 0 && (
@@ -189,31 +508,53 @@ function CatalogPage() {
                 key={prod.id}
                 className="bg-white shadow-lg rounded-xl overflow-hidden flex flex-col group transition-all duration-200 hover:shadow-2xl"
               >
-                {/* Image Section (Sin cambios) */}
-                <div className="w-full aspect-video bg-gray-100 relative overflow-hidden">
-                  {prod.imageBase64 ? (
+                {/* Image Section: primary image, opens the gallery */}
+                <button
+                  type="button"
+                  onClick={() => setViewedProductId(prod.id)}
+                  className="block w-full aspect-video bg-gray-100 relative overflow-hidden cursor-pointer"
+                  aria-label={`View ${prod.name}`}
+                >
+                  {getProductImageUrl(prod, "medium") ? (
                     <img
-                      src={prod.imageBase64}
+                      src={getProductImageUrl(prod, "medium")}
                       alt={prod.name}
-                      className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110"
+                      className={`w-full h-full object-cover transition-transform duration-300 group-hover:scale-110 ${
+                        isOutOfStock(prod) ? "opacity-50 grayscale" : ""
+                      }`}
                     />
                   ) : (
                     <div className="flex h-full w-full items-center justify-center text-gray-400">
                       <ShoppingBag className="h-16 w-16" />
                     </div>
                   )}
-                </div>
+                  {isOutOfStock(prod) && (
+                    <span className="absolute top-3 left-3 rounded-full bg-gray-900/80 px-3 py-1 text-xs font-semibold text-white">
+                      Out of stock
+                    </span>
+                  )}
+                </button>
 
                 {/* Content Section (Sin cambios) */}
                 <div className="p-4 flex flex-col flex-1">
                   <h3 className="text-lg font-semibold text-gray-900 truncate">
-                    {prod.name}
+                    <Link
+                      to="/catalog/$productId"
+                      params={{ productId: prod.id }}
+                      className="hover:text-indigo-600"
+                    >
+                      {prod.name}
+                    </Link>
                   </h3>
                   <p className="text-sm text-gray-600 mt-1 flex-1 truncate">
                     {prod.description}
                   </p>
-                  <p className="text-xl font-bold text-indigo-600 mt-4">
-                    {formatPrice(prod.price)}
+                  <p
+                    className={`text-xl font-bold mt-4 ${
+                      isOutOfStock(prod) ? "text-gray-400" : "text-indigo-600"
+                    }`}
+                  >
+                    {formatPriceRange(prod, priceFormat)}
                   </p>
                 </div>
               </div>
@@ -226,7 +567,7 @@ function CatalogPage() {
             <button
               type="button"
               onClick={handlePrevPage}
-              disabled={currentPage === 1}
+              disabled={!hasPrevious}
               className="inline-flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <ChevronLeft className="h-5 w-5" />
@@ -238,7 +579,7 @@ function CatalogPage() {
             <button
               type="button"
               onClick={handleNextPage}
-              disabled={currentPage === totalPages}
+              disabled={!hasMore || currentPage >= totalPages}
               className="inline-flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <span>Next</span>
@@ -247,6 +588,62 @@ function CatalogPage() {
           </div>
         )}
       </section>
+
+      {/* Catalog PDF Modal */}
+      {isPdfOpen && (
+        <CatalogPdfDialog
+          categories={categories}
+          currentCategory={
+            selectedCategories.length === 1
+              ? (categories.find((c) => c.id === selectedCategories[0]) ??
+                null)
+              : null
+          }
+          onClose={() => setIsPdfOpen(false)}
+        />
+      )}
+
+      {/* Quick View Modal */}
+      {viewedProduct && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+          <div className="bg-white rounded-lg w-full max-w-2xl">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {viewedProduct.name}
+              </h2>
+              <button
+                type="button"
+                onClick={() => setViewedProductId(undefined)}
+                className="text-gray-400 hover:text-gray-500"
+                aria-label="Close"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <ProductGallery product={viewedProduct} />
+              <div className="flex items-baseline gap-4">
+                <p className="text-2xl font-bold text-indigo-600">
+                  {formatPriceRange(viewedProduct, priceFormat)}
+                </p>
+                <StockAvailability product={viewedProduct} />
+              </div>
+              {viewedProduct.description && (
+                <p className="text-gray-700 whitespace-pre-line">
+                  {viewedProduct.description}
+                </p>
+              )}
+              <Link
+                to="/catalog/$productId"
+                params={{ productId: viewedProduct.id }}
+                className="inline-block text-sm font-semibold text-indigo-600 hover:text-indigo-800"
+              >
+                View full details →
+              </Link>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
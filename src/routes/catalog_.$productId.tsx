@@ -0,0 +1,272 @@
+import { ProductGallery } from "@/components/product-gallery";
+import { getProductImageUrl } from "@/lib/export";
+import { useCurrency } from "@/lib/currency-context";
+import { StockAvailability } from "@/components/stock-badge";
+import { VariantPicker } from "@/components/variant-picker";
+import { categoryAncestry } from "@/lib/category-tree";
+import {
+  findVariant,
+  formatPriceRange,
+  hasVariants,
+  variantPrice,
+} from "@/lib/variants";
+import {
+  categoriesQueryOptions,
+  useCategories,
+} from "@/lib/queries/categories";
+import {
+  productQueryOptions,
+  useProduct,
+  useProducts,
+} from "@/lib/queries/products";
+import {
+  Link,
+  type ErrorComponentProps,
+  createFileRoute,
+  notFound,
+  useRouter,
+} from "@tanstack/react-router";
+import { ChevronRight, Link2, PackageX, ShoppingBag } from "lucide-react";
+import { Fragment, useState } from "react";
+import { toast } from "sonner";
+
+// How many products of the same category to suggest
+const RELATED_PRODUCTS = 4;
+
+// `catalog_` keeps this page out of the catalog's layout: it's a full page
+// of its own at /catalog/<id>
+export const Route = createFileRoute("/catalog_/$productId")({
+  loader: async ({ context: { queryClient }, params: { productId } }) => {
+    const [product] = await Promise.all([
+      queryClient.ensureQueryData(productQueryOptions(productId)),
+      queryClient.ensureQueryData(categoriesQueryOptions()),
+    ]);
+    if (!product) throw notFound();
+    return { product };
+  },
+  component: ProductDetailPage,
+  notFoundComponent: ProductNotFound,
+  errorComponent: ProductError,
+});
+
+function ProductDetailPage() {
+  const { productId } = Route.useParams();
+  const loaded = Route.useLoaderData();
+  // Refreshed when the product is edited
+  const { data: product = loaded.product } = useProduct(productId);
+  const { data: categories = [] } = useCategories();
+  const { formatPrice, priceFormat } = useCurrency();
+  const { data: sameCategory = [] } = useProducts({
+    where: [
+      { field: "categoryId", op: "==", value: loaded.product.categoryId },
+    ],
+  });
+  // Chosen option values, e.g. { Size: "M", Color: "Red" }, forgotten
+  // when moving to another product
+  const [picked, setPicked] = useState<{
+    productId: string;
+    values: Record<string, string>;
+  }>({ productId, values: {} });
+  const selection = picked.productId === productId ? picked.values : {};
+
+  // Deleted while the page was open
+  if (!product) return <ProductNotFound />;
+
+  // Set once a value is chosen for every option
+  const variant = hasVariants(product)
+    ? findVariant(product, selection)
+    : undefined;
+
+  const category = categories.find((cat) => cat.id === product.categoryId);
+  const ancestry = categoryAncestry(product.categoryId, categories);
+  const related = sameCategory
+    .filter((prod) => prod.id !== product.id)
+    .slice(0, RELATED_PRODUCTS);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copied");
+    } catch {
+      toast.error("Could not copy the link.");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6 sm:p-10">
+      {/* Breadcrumb */}
+      <nav
+        aria-label="Breadcrumb"
+        className="mb-6 flex items-center gap-1 text-sm text-gray-500"
+      >
+        <Link to="/catalog" className="hover:text-indigo-600">
+          Catalog
+        </Link>
+        <ChevronRight className="h-4 w-4" />
+        {ancestry.length === 0 && <span>Uncategorized</span>}
+        {ancestry.map((cat) => (
+          <Fragment key={cat.id}>
+            <Link
+              to="/catalog"
+              search={{ categories: [cat.id] }}
+              className="hover:text-indigo-600"
+            >
+              {cat.name}
+            </Link>
+            <ChevronRight className="h-4 w-4" />
+          </Fragment>
+        ))}
+        <span className="font-medium text-gray-900 truncate">
+          {product.name}
+        </span>
+      </nav>
+
+      {/* Details */}
+      <article className="bg-white rounded-xl shadow-lg p-6 grid gap-8 md:grid-cols-2">
+        <ProductGallery product={product} />
+
+        <div className="flex flex-col">
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+            {product.name}
+          </h1>
+          {category && (
+            <span className="mt-2 self-start rounded-full bg-indigo-100 px-3 py-1 text-xs font-semibold text-indigo-700">
+              {category.name}
+            </span>
+          )}
+          <p className="mt-6 text-3xl font-bold text-indigo-600">
+            {variant
+              ? formatPrice(variantPrice(product, variant))
+              : formatPriceRange(product, priceFormat)}
+          </p>
+          <p className="mt-2">
+            {variant ? (
+              <StockAvailability
+                product={{
+                  stock: variant.stock,
+                  lowStockThreshold: product.lowStockThreshold,
+                }}
+              />
+            ) : (
+              <StockAvailability product={product} />
+            )}
+          </p>
+          {hasVariants(product) && (
+            <div className="mt-6">
+              <VariantPicker
+                product={product}
+                selection={selection}
+                onChange={(values) => setPicked({ productId, values })}
+              />
+              {variant?.sku && (
+                <p className="mt-3 text-xs text-gray-500">SKU: {variant.sku}</p>
+              )}
+            </div>
+          )}
+          {product.description && (
+            <p className="mt-6 text-gray-700 whitespace-pre-line">
+              {product.description}
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={handleCopyLink}
+            className="mt-8 self-start flex items-center rounded-md bg-white px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 shadow-sm hover:bg-gray-50"
+          >
+            <Link2 className="mr-2 h-4 w-4" />
+            Copy link
+          </button>
+        </div>
+      </article>
+
+      {/* Related Products */}
+      {related.length > 0 && (
+        <section className="mt-10">
+          <h2 className="text-2xl font-semibold text-gray-800 mb-4">
+            More in {category?.name ?? "this category"}
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {related.map((prod) => (
+              <Link
+                key={prod.id}
+                to="/catalog/$productId"
+                params={{ productId: prod.id }}
+                className="bg-white shadow-lg rounded-xl overflow-hidden flex flex-col group transition-all duration-200 hover:shadow-2xl"
+              >
+                <div className="w-full aspect-video bg-gray-100 overflow-hidden">
+                  {getProductImageUrl(prod, "medium") ? (
+                    <img
+                      src={getProductImageUrl(prod, "medium")}
+                      alt={prod.name}
+                      className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110"
+                    />
+                  ) : (
+                    <div className="flex h-full w-full items-center justify-center text-gray-400">
+                      <ShoppingBag className="h-12 w-12" />
+                    </div>
+                  )}
+                </div>
+                <div className="p-4">
+                  <h3 className="text-lg font-semibold text-gray-900 truncate">
+                    {prod.name}
+                  </h3>
+                  <p className="text-xl font-bold text-indigo-600 mt-2">
+                    {formatPriceRange(prod, priceFormat)}
+                  </p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
+
+function ProductNotFound() {
+  return (
+    <div className="min-h-screen bg-gray-50 p-6 sm:p-10">
+      <div className="text-center p-12 bg-white rounded-xl shadow-lg">
+        <PackageX className="mx-auto h-12 w-12 text-gray-400" />
+        <h1 className="mt-2 text-lg font-medium text-gray-900">
+          Product Not Found
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          This product doesn't exist or is no longer available.
+        </p>
+        <Link
+          to="/catalog"
+          className="mt-6 inline-block rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-700"
+        >
+          Browse the catalog
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+function ProductError({ error }: ErrorComponentProps) {
+  const router = useRouter();
+  console.error("Error loading product: ", error);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6 sm:p-10">
+      <div className="text-center p-12 bg-white rounded-xl shadow-lg">
+        <h1 className="text-lg font-medium text-gray-900">
+          Something went wrong
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          The product could not be loaded. Check your connection and try
+          again.
+        </p>
+        <button
+          type="button"
+          onClick={() => router.invalidate()}
+          className="mt-6 rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-700"
+        >
+          Try again
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,140 +1,420 @@
-import { useFirestoreCollection } from "@/lib/hooks/useFirestoreCollection";
-import { createFileRoute } from "@tanstack/react-router";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import {
   Tag,
   PlusCircle,
   Pencil,
   Trash2,
   X,
-  AlertTriangle,
+  FileDown,
+  ChevronRight,
+  GripVertical,
 } from "lucide-react";
 import { useState, useMemo } from "react";
-import {
-  deleteDoc,
-  doc,
-  addDoc,
-  collection,
-  updateDoc,
-} from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { toast } from "sonner";
+import { useAuth } from "@/lib/auth/auth-context";
+import { requirePermission } from "@/lib/auth/guards";
 import { SearchBar } from "@/components/search-bar";
-
-interface Category {
-  id: string;
-  name: string;
-  description: string;
-}
+import { validateQuerySearch } from "@/lib/search-params";
+import { categorySearchDefinition, createSearchIndex } from "@/lib/search";
+import { Highlight } from "@/components/highlight";
+import { ExportDialog } from "@/components/export-dialog";
+import { DeleteCategoryDialog } from "@/components/delete-category-dialog";
+import {
+  DataTable,
+  type DataTableColumn,
+  type SortState,
+} from "@/components/data-table";
+import { type Category, categoryExportDefinition } from "@/lib/export";
+import {
+  buildCategoryTree,
+  categoryPathMap,
+  childrenByParent,
+  descendantIds,
+  flattenCategoryTree,
+  indentedCategoryName,
+  wouldCreateCycle,
+} from "@/lib/category-tree";
+import { useProducts } from "@/lib/queries/products";
+import {
+  categoriesQueryOptions,
+  useAddCategory,
+  useCategories,
+  useEditCategory,
+} from "@/lib/queries/categories";
 
 export const Route = createFileRoute("/categories")({
+  validateSearch: validateQuerySearch,
+  beforeLoad: requirePermission("view"),
+  // Prefetch into the shared query cache before the page renders
+  loader: ({ context: { queryClient } }) =>
+    queryClient.ensureQueryData(categoriesQueryOptions()),
   component: CategoryPage,
 });
 
 function CategoryPage() {
-  const { data: categories, reload: refetch } =
-    useFirestoreCollection<Category>("categories", {
-      pageSize: 1000,
-    });
+  // Cached, live list: writes from this or any other tab show up without a refetch
+  const { data: categories = [] } = useCategories();
+  const { data: products = [] } = useProducts();
+
+  // Permissions (the route guard already requires "view")
+  const { can } = useAuth();
+  const canEdit = can("edit");
+  const canDelete = can("delete");
+
+  // Mutations (optimistic, rolled back on error)
+  const addCategory = useAddCategory();
+  const editCategory = useEditCategory();
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
-  const [categoryToDelete, setCategoryToDelete] = useState<{
-    id: string;
-    name: string;
-  } | null>(null);
+  const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(
+    null,
+  );
 
   const [currentCategory, setCurrentCategory] = useState({
     id: "",
     name: "",
     description: "",
+    parentId: "", // "" for a top-level category
   });
 
-  const [isLoading, setIsLoading] = useState(false);
-  const [searchQuery, setSearchQuery] = useState("");
+  const isLoading = addCategory.isPending || editCategory.isPending;
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // The search lives in the URL, so reloads and shared links keep it
+  const { q: searchQuery = "" } = Route.useSearch();
+  const navigate = useNavigate({ from: Route.fullPath });
+
+  // Number of products in each category, for the export and `products:<n`
+  const productCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const product of products) {
+      counts.set(product.categoryId, (counts.get(product.categoryId) ?? 0) + 1);
+    }
+    return counts;
+  }, [products]);
+
+  // Fuzzy, ranked search; rebuilt only when the data changes
+  const searchIndex = useMemo(
+    () =>
+      createSearchIndex(categories, categorySearchDefinition(productCounts)),
+    [categories, productCounts],
+  );
+  const searchResults = useMemo(
+    () => searchIndex.search(searchQuery),
+    [searchIndex, searchQuery],
+  );
+  const filteredCategories = useMemo(
+    () => searchResults.map((result) => result.item),
+    [searchResults],
+  );
+  // Matched ranges per category, for highlighting
+  const highlights = useMemo(
+    () =>
+      new Map(
+        searchResults.map((result) => [result.item.id, result.highlights]),
+      ),
+    [searchResults],
+  );
 
-  // Filter categories based on search query
-  const filteredCategories = useMemo(() => {
-    if (!searchQuery.trim()) return categories;
+  // --- TREE ---
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+  const treeOrder = useMemo(() => flattenCategoryTree(tree), [tree]);
+  const categoryPaths = useMemo(
+    () => categoryPathMap(categories),
+    [categories],
+  );
+  const parentsWithChildren = useMemo(
+    () =>
+      new Set(
+        [...childrenByParent(categories).keys()].filter(
+          (id): id is string => id !== undefined,
+        ),
+      ),
+    [categories],
+  );
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  // Without a search or sort, rows follow the tree (minus collapsed
+  // branches); otherwise they're shown flat, with their path
+  const isTreeView = !searchQuery && !sort;
+  const rows = useMemo(() => {
+    if (!isTreeView) {
+      return filteredCategories.map((category) => ({ category, depth: 0 }));
+    }
+    const hidden = new Set<string>();
+    for (const id of collapsed) {
+      for (const descendant of descendantIds(id, categories)) {
+        if (descendant !== id) hidden.add(descendant);
+      }
+    }
+    return treeOrder.filter((node) => !hidden.has(node.category.id));
+  }, [isTreeView, filteredCategories, collapsed, categories, treeOrder]);
+
+  const toggleCollapsed = (categoryId: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(categoryId)) next.add(categoryId);
+      return next;
+    });
 
-    const query = searchQuery.toLowerCase();
-    return categories.filter(
-      (category) =>
-        category.name.toLowerCase().includes(query) ||
-        category.description.toLowerCase().includes(query) ||
-        category.id.toLowerCase().includes(query),
+  // Whether the dragged category may be dropped under `parentId`
+  const canDropOn = (parentId: string | undefined) => {
+    if (!draggedId) return false;
+    const dragged = categories.find((cat) => cat.id === draggedId);
+    return (
+      !!dragged &&
+      dragged.parentId !== parentId &&
+      !wouldCreateCycle(draggedId, parentId, categories)
     );
-  }, [categories, searchQuery]);
+  };
+
+  const handleReparent = async (
+    categoryId: string,
+    parentId: string | undefined,
+  ) => {
+    const category = categories.find((cat) => cat.id === categoryId);
+    if (!category || category.parentId === parentId) return;
+    if (wouldCreateCycle(categoryId, parentId, categories)) {
+      toast.error("A category can't be moved under its own subcategory.");
+      return;
+    }
+
+    try {
+      await editCategory.mutateAsync({ id: categoryId, data: { parentId } });
+      toast.success(
+        parentId
+          ? `Moved "${category.name}" under "${categoryPaths.get(parentId)}"`
+          : `Moved "${category.name}" to the top level`,
+      );
+    } catch (error) {
+      console.error("Error moving category: ", error);
+      toast.error("Failed to move category. Please try again.");
+    }
+  };
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, parentId: string | undefined) => {
+    e.preventDefault();
+    const categoryId = draggedId;
+    endDrag();
+    if (categoryId) handleReparent(categoryId, parentId);
+  };
+
+  // Parent options for the form: everything but the category and its
+  // subcategories, which would make a cycle
+  const parentOptions = useMemo(() => {
+    const excluded = currentCategory.id
+      ? descendantIds(currentCategory.id, categories)
+      : new Set<string>();
+    return treeOrder.filter((node) => !excluded.has(node.category.id));
+  }, [treeOrder, currentCategory.id, categories]);
+
+  // --- TABLE COLUMNS ---
+  const categoryColumns: DataTableColumn<{
+    category: Category;
+    depth: number;
+  }>[] = [
+    {
+      id: "id",
+      label: "ID",
+      sortValue: ({ category }) => category.id,
+      cell: ({ category: cat }) => (
+        <div className="text-sm font-medium text-gray-900 truncate">
+          <Highlight text={cat.id} ranges={highlights.get(cat.id)?.id} />
+        </div>
+      ),
+      width: 200,
+    },
+    {
+      id: "name",
+      label: "Name",
+      sortValue: ({ category }) => category.name,
+      cell: ({ category: cat, depth }) => {
+        const hasChildren = parentsWithChildren.has(cat.id);
+        const isCollapsed = collapsed.has(cat.id);
+        const path = categoryPaths.get(cat.id);
+        return (
+          // Indented by depth
+          <div
+            className="flex items-center gap-1 min-w-0"
+            style={{ paddingLeft: `${depth * 1.25}rem` }}
+          >
+            {canEdit && isTreeView && (
+              <GripVertical
+                className="h-4 w-4 shrink-0 cursor-grab text-gray-300"
+                aria-hidden="true"
+              />
+            )}
+            {isTreeView &&
+              (hasChildren ? (
+                <button
+                  type="button"
+                  onClick={() => toggleCollapsed(cat.id)}
+                  className="p-0.5 text-gray-400 hover:text-gray-600 rounded"
+                  aria-label={`${isCollapsed ? "Expand" : "Collapse"} ${cat.name}`}
+                  aria-expanded={!isCollapsed}
+                >
+                  <ChevronRight
+                    className={`h-4 w-4 transition-transform ${
+                      isCollapsed ? "" : "rotate-90"
+                    }`}
+                  />
+                </button>
+              ) : (
+                <span className="w-5 shrink-0" />
+              ))}
+            <div className="min-w-0">
+              <div className="text-base font-semibold text-indigo-600 truncate">
+                <Highlight
+                  text={cat.name}
+                  ranges={highlights.get(cat.id)?.name}
+                />
+              </div>
+              {!isTreeView && path !== cat.name && (
+                <div className="text-xs text-gray-400 truncate">{path}</div>
+              )}
+            </div>
+          </div>
+        );
+      },
+      width: 280,
+      hideable: false,
+    },
+    {
+      id: "products",
+      label: "Products",
+      sortValue: ({ category }) => productCounts.get(category.id) ?? 0,
+      cell: ({ category }) => (
+        <span className="text-sm text-gray-700">
+          {productCounts.get(category.id) ?? 0}
+        </span>
+      ),
+      width: 120,
+      align: "right",
+    },
+    {
+      id: "description",
+      label: "Description",
+      sortValue: ({ category }) => category.description,
+      cell: ({ category: cat }) => (
+        <div className="text-sm text-gray-500 truncate">
+          <Highlight
+            text={cat.description}
+            ranges={highlights.get(cat.id)?.description}
+          />
+        </div>
+      ),
+      width: 240,
+      grow: true,
+    },
+    {
+      id: "actions",
+      label: "Actions",
+      cell: ({ category: cat }) => (
+        <div className="flex justify-end space-x-2">
+          {canEdit && (
+            <button
+              type="button"
+              className="p-2 text-green-600 hover:text-green-700 rounded-full hover:bg-green-100 transition duration-150"
+              onClick={() => handleAddClick(cat.id)}
+              aria-label={`Add subcategory to ${cat.name}`}
+              title="Add subcategory"
+            >
+              <PlusCircle className="h-5 w-5" />
+            </button>
+          )}
+          {canEdit && (
+            <button
+              type="button"
+              className="p-2 text-indigo-500 hover:text-indigo-700 rounded-full hover:bg-indigo-100 transition duration-150"
+              onClick={() => handleEditClick(cat)}
+              aria-label={`Edit ${cat.name}`}
+            >
+              <Pencil className="h-5 w-5" />
+            </button>
+          )}
+          {canDelete && (
+            <button
+              type="button"
+              className="p-2 text-red-500 hover:text-red-700 rounded-full hover:bg-red-100 transition duration-150"
+              onClick={() => handleDeleteClick(cat)}
+              aria-label={`Delete ${cat.name}`}
+            >
+              <Trash2 className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+      ),
+      width: 170,
+      align: "right",
+      hideable: false,
+      resizable: false,
+    },
+  ];
 
   const handleSearch = (query: string) => {
-    setSearchQuery(query);
+    navigate({ search: { q: query || undefined }, replace: true });
   };
 
   const handleAddCategory = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!currentCategory.name.trim()) return;
 
-    setIsLoading(true);
     try {
-      await addDoc(collection(db, "categories"), {
+      await addCategory.mutateAsync({
         name: currentCategory.name.trim(),
         description: currentCategory.description.trim(),
-        createdAt: new Date(),
+        parentId: currentCategory.parentId || undefined,
       });
       resetForm();
       setIsModalOpen(false);
       toast.success("Added category successfully");
-      await refetch();
     } catch (error) {
       console.error("Error adding category: ", error);
-    } finally {
-      setIsLoading(false);
+      toast.error("Failed to add category. Please try again.");
     }
   };
 
   const handleEditCategory = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!currentCategory.name.trim() || !currentCategory.id) return;
+    const parentId = currentCategory.parentId || undefined;
+    if (wouldCreateCycle(currentCategory.id, parentId, categories)) {
+      toast.error("A category can't be placed under its own subcategory.");
+      return;
+    }
 
-    setIsLoading(true);
     try {
-      await updateDoc(doc(db, "categories", currentCategory.id), {
-        name: currentCategory.name.trim(),
-        description: currentCategory.description.trim(),
-        updatedAt: new Date(),
+      await editCategory.mutateAsync({
+        id: currentCategory.id,
+        data: {
+          name: currentCategory.name.trim(),
+          description: currentCategory.description.trim(),
+          parentId,
+        },
       });
       resetForm();
       setIsModalOpen(false);
       toast.success("Updated category successfully");
-      await refetch();
     } catch (error) {
       console.error("Error updating category: ", error);
-    } finally {
-      setIsLoading(false);
+      toast.error("Failed to update category. Please try again.");
     }
   };
 
   const handleDeleteClick = (category: Category) => {
-    setCategoryToDelete({ id: category.id, name: category.name });
+    setCategoryToDelete(category);
     setIsDeleteModalOpen(true);
   };
 
-  const handleDeleteConfirm = async () => {
-    if (!categoryToDelete) return;
-
-    try {
-      await deleteDoc(doc(db, "categories", categoryToDelete.id));
-      toast.success("Deleted category successfully");
-      await refetch();
-    } catch (error) {
-      console.error("Error deleting category: ", error);
-      toast.error("Failed to delete category. Please try again.");
-    } finally {
-      setIsDeleteModalOpen(false);
-      setCategoryToDelete(null);
-    }
-  };
-
   const handleDeleteCancel = () => {
     setIsDeleteModalOpen(false);
     setCategoryToDelete(null);
@@ -145,13 +425,15 @@ function CategoryPage() {
       id: category.id,
       name: category.name,
       description: category.description,
+      parentId: category.parentId ?? "",
     });
     setIsEditMode(true);
     setIsModalOpen(true);
   };
 
-  const handleAddClick = () => {
+  const handleAddClick = (parentId = "") => {
     resetForm();
+    setCurrentCategory((prev) => ({ ...prev, parentId }));
     setIsEditMode(false);
     setIsModalOpen(true);
   };
@@ -161,6 +443,7 @@ function CategoryPage() {
       id: "",
       name: "",
       description: "",
+      parentId: "",
     });
     setIsEditMode(false);
   };
@@ -184,16 +467,30 @@ function CategoryPage() {
           <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
             <SearchBar
               onSearch={handleSearch}
+              value={searchQuery}
               placeholder="Search categories by name, description, or ID..."
+              hint="Try name:snacks or products:>10"
             />
             <button
-              className="flex items-center justify-center rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-md hover:bg-indigo-700 transition duration-150 ease-in-out whitespace-nowrap"
+              className="flex items-center justify-center rounded-md bg-green-600 px-4 py-2 text-sm font-semibold text-white shadow-md hover:bg-green-700 transition duration-150 ease-in-out whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
               type="button"
-              onClick={handleAddClick}
+              onClick={() => setIsExportOpen(true)}
+              disabled={filteredCategories.length === 0}
+              title="Export as CSV, JSON, XLSX or PDF"
             >
-              <PlusCircle className="mr-2 h-5 w-5" />
-              Add New Category
+              <FileDown className="mr-2 h-5 w-5" />
+              Export
             </button>
+            {canEdit && (
+              <button
+                className="flex items-center justify-center rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-md hover:bg-indigo-700 transition duration-150 ease-in-out whitespace-nowrap"
+                type="button"
+                onClick={() => handleAddClick()}
+              >
+                <PlusCircle className="mr-2 h-5 w-5" />
+                Add New Category
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -211,76 +508,83 @@ function CategoryPage() {
         </div>
       )}
 
-      {/* Category Grid/Table View */}
-      <div className="bg-white shadow-lg rounded-xl overflow-hidden">
-        {/* Table Header */}
-        <div className="hidden border-b border-gray-200 bg-gray-50 p-4 font-semibold text-gray-600 md:grid md:grid-cols-[1fr_2fr_3fr_1fr] md:gap-4">
-          <div className="truncate">ID</div>
-          <div className="truncate">Name</div>
-          <div className="truncate">Description</div>
-          <div className="text-right">Actions</div>
-        </div>
-
-        {/* Table Body - Map over filtered categories */}
-        {filteredCategories.length === 0 ? (
-          <div className="p-6 text-center text-gray-500">
-            {searchQuery
-              ? "No categories found matching your search."
-              : "No categories found."}
-          </div>
-        ) : (
-          filteredCategories.map((cat) => (
+      {/* Category Table */}
+      <DataTable
+        tableId="categories"
+        columns={categoryColumns}
+        rows={rows}
+        rowKey={({ category }) => category.id}
+        rowHeight={64}
+        sort={sort}
+        onSortChange={setSort}
+        rowProps={({ category: cat }) => ({
+          draggable: canEdit && isTreeView,
+          onDragStart: (e) => {
+            e.dataTransfer.effectAllowed = "move";
+            setDraggedId(cat.id);
+          },
+          onDragEnd: endDrag,
+          onDragOver: (e) => {
+            if (!canDropOn(cat.id)) return;
+            e.preventDefault();
+            setDropTargetId(cat.id);
+          },
+          onDragLeave: () =>
+            setDropTargetId((prev) => (prev === cat.id ? null : prev)),
+          onDrop: (e) => handleDrop(e, cat.id),
+          className: `${
+            dropTargetId === cat.id
+              ? "bg-indigo-100 ring-2 ring-inset ring-indigo-400"
+              : "hover:bg-indigo-50"
+          } ${draggedId === cat.id ? "opacity-50" : ""}`,
+        })}
+        toolbar={
+          draggedId ? (
+            // Top-level drop zone, shown while dragging
             <div
-              key={`cat-${cat.id}`}
-              className="border-b border-gray-100 p-4 hover:bg-indigo-50 transition duration-100 ease-in-out last:border-b-0 md:grid md:grid-cols-[1fr_2fr_3fr_1fr] md:gap-4 md:items-center"
+              onDragOver={(e) => {
+                if (!canDropOn(undefined)) return;
+                e.preventDefault();
+                setDropTargetId("");
+              }}
+              onDragLeave={() => setDropTargetId(null)}
+              onDrop={(e) => handleDrop(e, undefined)}
+              className={`rounded-md border border-dashed p-2 text-center transition duration-100 ${
+                !canDropOn(undefined)
+                  ? "border-gray-200 text-gray-300"
+                  : dropTargetId === ""
+                    ? "border-indigo-400 bg-indigo-100 text-indigo-700"
+                    : "border-indigo-200 text-indigo-500"
+              }`}
             >
-              {/* ID */}
-              <div className="text-sm font-medium text-gray-900 truncate">
-                <span className="md:hidden font-semibold text-gray-500">
-                  ID:{" "}
-                </span>
-                {cat.id}
-              </div>
-
-              {/* Name */}
-              <div className="text-base font-semibold text-indigo-600 truncate my-1 md:my-0">
-                <span className="md:hidden font-semibold text-gray-500">
-                  Name:{" "}
-                </span>
-                {cat.name}
-              </div>
-
-              {/* Description */}
-              <div className="text-sm text-gray-500 truncate mb-2 md:mb-0">
-                <span className="md:hidden font-semibold text-gray-500">
-                  Description:{" "}
-                </span>
-                {cat.description}
-              </div>
-
-              {/* Actions (Edit/Delete) */}
-              <div className="flex justify-end space-x-2">
-                <button
-                  type="button"
-                  className="p-2 text-indigo-500 hover:text-indigo-700 rounded-full hover:bg-indigo-100 transition duration-150"
-                  onClick={() => handleEditClick(cat)}
-                  aria-label={`Edit ${cat.name}`}
-                >
-                  <Pencil className="h-5 w-5" />
-                </button>
-                <button
-                  type="button"
-                  className="p-2 text-red-500 hover:text-red-700 rounded-full hover:bg-red-100 transition duration-150"
-                  onClick={() => handleDeleteClick(cat)}
-                  aria-label={`Delete ${cat.name}`}
-                >
-                  <Trash2 className="h-5 w-5" />
-                </button>
-              </div>
+              Drop here to move to the top level
             </div>
-          ))
-        )}
-      </div>
+          ) : (
+            <span className="text-gray-500">
+              {!isTreeView
+                ? "Clear the search and sort to see the tree."
+                : canEdit
+                  ? "Drag a row onto another to move it."
+                  : null}
+            </span>
+          )
+        }
+        empty={
+          searchQuery
+            ? "No categories found matching your search."
+            : "No categories found."
+        }
+      />
+
+      {/* Export Modal */}
+      {isExportOpen && (
+        <ExportDialog
+          definition={categoryExportDefinition(productCounts, categoryPaths)}
+          items={filteredCategories}
+          fileName="categories_export"
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
 
       {/* Add/Edit Category Modal */}
       {isModalOpen && (
@@ -326,6 +630,33 @@ function CategoryPage() {
                 />
               </div>
 
+              <div>
+                <label
+                  htmlFor="parentId"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Parent Category
+                </label>
+                <select
+                  id="parentId"
+                  value={currentCategory.parentId}
+                  onChange={(e) =>
+                    setCurrentCategory((prev) => ({
+                      ...prev,
+                      parentId: e.target.value,
+                    }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  <option value="">None (top level)</option>
+                  {parentOptions.map((node) => (
+                    <option key={node.category.id} value={node.category.id}>
+                      {indentedCategoryName(node)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label
                   htmlFor="description"
@@ -377,50 +708,13 @@ function CategoryPage() {
 
       {/* Delete Confirmation Modal */}
       {isDeleteModalOpen && categoryToDelete && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-lg w-full max-w-md">
-            <div className="flex items-center justify-between p-6 border-b">
-              <h2 className="text-xl font-semibold text-gray-900 flex items-center">
-                <AlertTriangle className="h-6 w-6 text-red-500 mr-2" />
-                Confirm Deletion
-              </h2>
-              <button
-                type="button"
-                onClick={handleDeleteCancel}
-                className="text-gray-400 hover:text-gray-600 transition duration-150"
-              >
-                <X className="h-6 w-6" />
-              </button>
-            </div>
-
-            <div className="p-6">
-              <p className="text-gray-700 mb-4">
-                Are you sure you want to delete the category{" "}
-                <span className="font-semibold text-red-600">
-                  "{categoryToDelete.name}"
-                </span>
-                ? This action cannot be undone.
-              </p>
-
-              <div className="flex justify-end space-x-3 pt-4">
-                <button
-                  type="button"
-                  onClick={handleDeleteCancel}
-                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 transition duration-150"
-                >
-                  Cancel
-                </button>
-                <button
-                  type="button"
-                  onClick={handleDeleteConfirm}
-                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500 transition duration-150"
-                >
-                  Delete Category
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+        <DeleteCategoryDialog
+          category={categoryToDelete}
+          productCount={productCounts.get(categoryToDelete.id) ?? 0}
+          categories={categories}
+          canDeleteProducts={canDelete}
+          onClose={handleDeleteCancel}
+        />
       )}
     </div>
   );
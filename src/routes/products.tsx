@@ -1,5 +1,4 @@
-import { useFirestoreCollection } from "@/lib/hooks/useFirestoreCollection";
-import { createFileRoute } from "@tanstack/react-router";
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
 import {
   ShoppingBag,
   PlusCircle,
@@ -7,44 +6,121 @@ import {
   Trash2,
   X,
   AlertTriangle,
-  ImagePlus,
+  ImageUp,
   FileDown, // Added for export buttons
+  FileUp,
+  History,
+  Coins,
+  FolderInput,
+  Percent,
+  Sheet,
 } from "lucide-react";
 import { useState, useMemo, useEffect } from "react";
-import {
-  deleteDoc,
-  doc,
-  addDoc,
-  collection,
-  updateDoc,
-} from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { toast } from "sonner";
+import { useAuth } from "@/lib/auth/auth-context";
+import { requirePermission } from "@/lib/auth/guards";
 import { SearchBar } from "@/components/search-bar";
+import { validateProductsSearch } from "@/lib/search-params";
+import { createSearchIndex, productSearchDefinition } from "@/lib/search";
+import { Highlight } from "@/components/highlight";
+import { StockBadge } from "@/components/stock-badge";
+import { StockHistoryPanel } from "@/components/stock-history-panel";
+import { DEFAULT_LOW_STOCK_THRESHOLD, stockStatus } from "@/lib/inventory";
+import { useSaveProductVariants } from "@/lib/queries/stock-movements";
+import {
+  type VariantEditorValue,
+  VariantMatrixEditor,
+  toVariantEditorValue,
+} from "@/components/variant-matrix-editor";
+import {
+  expandVariants,
+  formatPriceRange,
+  hasVariants,
+  priceRange,
+  productSkus,
+} from "@/lib/variants";
+import { CurrencySwitch } from "@/components/currency-switch";
+import { ExchangeRatesDialog } from "@/components/exchange-rates-dialog";
+import { DataHealthDialog } from "@/components/data-health-dialog";
+import { DataTable, type DataTableColumn } from "@/components/data-table";
+import { ProductGrid } from "@/components/product-grid";
+import {
+  BulkActionDialog,
+  type BulkActionType,
+} from "@/components/bulk-action-dialog";
+import { findOrphanedProducts } from "@/lib/category-integrity";
+import {
+  buildCategoryTree,
+  categoryPathMap,
+  flattenCategoryTree,
+  indentedCategoryName,
+} from "@/lib/category-tree";
+import { BASE_CURRENCY } from "@/lib/currency";
+import { useCurrency } from "@/lib/currency-context";
 
 import {
   type Product,
-  type Category,
-  formatPrice,
-  exportToXLSX,
-  ProductPDF,
+  type ProductImage,
+  getProductImageUrl,
+  getProductImages,
+  productExportDefinition,
 } from "@/lib/export";
-import { PDFDownloadLink } from "@react-pdf/renderer";
+import {
+  type ImageItem,
+  deleteProductImage,
+  toImageItems,
+  uploadImageItems,
+} from "@/lib/product-images";
+import { ProductImagesField } from "@/components/product-images-field";
+import { ImportProductsDialog } from "@/components/import-products-dialog";
+import { ExportDialog } from "@/components/export-dialog";
+import { ReportDialog } from "@/components/report-dialog";
+import {
+  type MigrationProgress,
+  migrateProductImages,
+} from "@/lib/migrations/product-images";
+import {
+  productsQueryOptions,
+  useAddProduct,
+  useDeleteProduct,
+  useEditProduct,
+  useProducts,
+} from "@/lib/queries/products";
+import {
+  categoriesQueryOptions,
+  useCategories,
+} from "@/lib/queries/categories";
 
 // New route path
 export const Route = createFileRoute("/products")({
+  validateSearch: validateProductsSearch,
+  beforeLoad: requirePermission("view"),
+  // Prefetch into the shared query cache before the page renders
+  loader: ({ context: { queryClient } }) =>
+    Promise.all([
+      queryClient.ensureQueryData(productsQueryOptions()),
+      queryClient.ensureQueryData(categoriesQueryOptions()),
+    ]),
   component: ProductPage,
 });
 
 function ProductPage() {
   // --- Data Fetching ---
-  const { data: products, reload: refetchProducts } =
-    useFirestoreCollection<Product>("products", {
-      pageSize: 1000,
-    });
-  const { data: categories } = useFirestoreCollection<Category>("categories", {
-    pageSize: 1000,
-  });
+  // Cached, live lists: writes from this or any other tab show up without a refetch
+  const { data: products = [] } = useProducts();
+  const { data: categories = [], isSuccess: categoriesLoaded } =
+    useCategories();
+
+  // --- Permissions (the route guard already requires "view") ---
+  const { user, can } = useAuth();
+  const canEdit = can("edit");
+  const canDelete = can("delete");
+
+  // --- Mutations (optimistic, rolled back on error) ---
+  const addProduct = useAddProduct();
+  const editProduct = useEditProduct();
+  const deleteProduct = useDeleteProduct();
+  const saveVariants = useSaveProductVariants();
 
   // --- State Management ---
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -54,6 +130,7 @@ function ProductPage() {
   const [productToDelete, setProductToDelete] = useState<{
     id: string;
     name: string;
+    images: ProductImage[];
   } | null>(null);
 
   // Initial state for the product form
@@ -63,14 +140,52 @@ function ProductPage() {
     description: "",
     price: 0,
     categoryId: "",
-    imageBase64: "",
+    sku: "",
+    barcode: "",
   };
   const [currentProduct, setCurrentProduct] = useState<
     Omit<Product, "id"> & { id: string }
   >(initialProductState);
 
-  const [isLoading, setIsLoading] = useState(false);
-  const [searchQuery, setSearchQuery] = useState("");
+  // The product's images as edited in the form; new ones are uploaded to
+  // storage only when the form is saved
+  const [imageItems, setImageItems] = useState<ImageItem[]>([]);
+  // New products only; later changes go through stock movements
+  const [initialStock, setInitialStock] = useState("");
+  const [variantEditor, setVariantEditor] = useState<VariantEditorValue>(
+    toVariantEditorValue({}),
+  );
+  const [stockHistoryId, setStockHistoryId] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isRatesOpen, setIsRatesOpen] = useState(false);
+  const [isHealthOpen, setIsHealthOpen] = useState(false);
+  // Exports and reports cover the products shown, or only the selected ones
+  const [exportScope, setExportScope] = useState<"filtered" | "selected">(
+    "filtered",
+  );
+  const [bulkAction, setBulkAction] = useState<BulkActionType | null>(null);
+  // Spreadsheet-style editing in place of the table
+  const [isGridMode, setIsGridMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const { priceFormat } = useCurrency();
+  const [migrationProgress, setMigrationProgress] =
+    useState<MigrationProgress | null>(null);
+
+  const isLoading =
+    isUploading ||
+    addProduct.isPending ||
+    editProduct.isPending ||
+    saveVariants.isPending;
+  // The search lives in the URL, so reloads and shared links keep it
+  const {
+    q: searchQuery = "",
+    edit: editProductId,
+    create: openCreateForm,
+  } = Route.useSearch();
+  const navigate = useNavigate({ from: Route.fullPath });
 
   // New state to ensure PDFDownloader only renders on client
   const [isClient, setIsClient] = useState(false);
@@ -81,96 +196,219 @@ function ProductPage() {
     setIsClient(true);
   }, []);
 
+  // Forms opened through the URL (`?edit=<id>`, `?create=true`), e.g. from
+  // the command palette. The param is dropped once the form is open.
+  useEffect(() => {
+    if (!editProductId && !openCreateForm) return;
+    const product = products.find((prod) => prod.id === editProductId);
+    if (!canEdit) {
+      toast.error("You don't have permission to edit products.");
+    } else if (product) {
+      setCurrentProduct({ ...product });
+      setImageItems(toImageItems(product));
+      setVariantEditor(toVariantEditorValue(product));
+      setIsEditMode(true);
+      setIsModalOpen(true);
+    } else if (openCreateForm) {
+      setCurrentProduct(initialProductState);
+      setImageItems([]);
+      setIsEditMode(false);
+      setIsModalOpen(true);
+    } else {
+      toast.error("That product no longer exists.");
+    }
+    navigate({
+      search: (prev) => ({ ...prev, edit: undefined, create: undefined }),
+      replace: true,
+    });
+  }, [editProductId, openCreateForm, products, canEdit, navigate]);
+
   // --- Memos & Filters ---
+  // Full paths ("Beverages > Coffee"), for the table, search and exports
   const categoryMap = useMemo(() => {
     if (!categories) return new Map<string, string>();
-    return new Map(categories.map((cat) => [cat.id, cat.name]));
+    return categoryPathMap(categories);
   }, [categories]);
 
-  const filteredProducts = useMemo(() => {
-    if (!products) return []; // Ensure products is not null/undefined
-    if (!searchQuery.trim()) return products;
-
-    const query = searchQuery.toLowerCase();
-    return products.filter(
-      (product) =>
-        product.name.toLowerCase().includes(query) ||
-        product.description.toLowerCase().includes(query) ||
-        product.id.toLowerCase().includes(query) ||
-        (categoryMap.get(product.categoryId) || "")
-          .toLowerCase()
-          .includes(query),
+  // Fuzzy, ranked search; rebuilt only when the data changes
+  const searchIndex = useMemo(
+    () =>
+      createSearchIndex(
+        products,
+        productSearchDefinition(categoryMap, priceFormat),
+      ),
+    [products, categoryMap, priceFormat],
+  );
+  const searchResults = useMemo(
+    () => searchIndex.search(searchQuery),
+    [searchIndex, searchQuery],
+  );
+  const filteredProducts = useMemo(
+    () => searchResults.map((result) => result.item),
+    [searchResults],
+  );
+  // Matched ranges per product, for highlighting
+  const highlights = useMemo(
+    () =>
+      new Map(
+        searchResults.map((result) => [result.item.id, result.highlights]),
+      ),
+    [searchResults],
+  );
+
+  // Only selected products that the search still shows count, so bulk
+  // actions never touch rows the user can't see
+  const selectedProducts = useMemo(
+    () => filteredProducts.filter((prod) => selectedIds.has(prod.id)),
+    [filteredProducts, selectedIds],
+  );
+  const isAllSelected =
+    filteredProducts.length > 0 &&
+    selectedProducts.length === filteredProducts.length;
+  const exportedProducts =
+    exportScope === "selected" ? selectedProducts : filteredProducts;
+
+  const stockAlerts = useMemo(() => {
+    const statuses = products.map(stockStatus);
+    return {
+      low: statuses.filter((status) => status === "low").length,
+      out: statuses.filter((status) => status === "out").length,
+    };
+  }, [products]);
+
+  // Products pointing at a deleted category; only known once the
+  // categories have loaded
+  const orphans = useMemo(
+    () => (categoriesLoaded ? findOrphanedProducts(products, categories) : []),
+    [categoriesLoaded, products, categories],
+  );
+
+  // SKUs identify products in the warehouse, so they must be unique,
+  // variants included
+  const skuConflicts = useMemo(() => {
+    const taken = new Set(
+      products
+        .filter((prod) => prod.id !== currentProduct.id)
+        .flatMap(productSkus)
+        .map((sku) => sku.toLowerCase()),
     );
-  }, [products, searchQuery, categoryMap]);
+    const own = productSkus({
+      sku: currentProduct.sku,
+      variants: variantEditor.variants,
+    }).map((sku) => sku.toLowerCase());
+    return new Set(
+      own.filter((sku, i) => taken.has(sku) || own.indexOf(sku) !== i),
+    );
+  }, [products, currentProduct.id, currentProduct.sku, variantEditor.variants]);
+  const isSkuTaken = skuConflicts.has(
+    currentProduct.sku?.trim().toLowerCase() ?? "",
+  );
+
+  const stockHistoryProduct = products.find(
+    (prod) => prod.id === stockHistoryId,
+  );
+
+  // Recorded on stock movements
+  const movementUser = { id: user?.uid ?? "", email: user?.email ?? undefined };
 
   // --- Event Handlers ---
 
   const handleSearch = (query: string) => {
-    setSearchQuery(query);
+    navigate({ search: { q: query || undefined }, replace: true });
   };
 
   // --- Updated: XLSX Export Handler ---
-  const handleExportXLSX = () => {
+  const handleExportClick = () => {
     if (!filteredProducts || filteredProducts.length === 0) {
       toast.error("No products to export");
       return;
     }
-    // Call the utility function
-    exportToXLSX(filteredProducts, categoryMap, "products_export");
+    setExportScope("filtered");
+    setIsExportOpen(true);
   };
 
-  // Handler for image file selection
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // --- Selection ---
+  const toggleSelected = (productId: string) =>
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(productId)) next.add(productId);
+      return next;
+    });
 
-    if (file.size > 1024 * 1024) {
-      toast.error("Image is too large. Please use an image under 1MB.");
-      e.target.value = "";
-      return;
-    }
+  // Selects every product matching the search, or clears the selection
+  const toggleSelectAll = () =>
+    setSelectedIds(
+      isAllSelected
+        ? new Set()
+        : new Set(filteredProducts.map((prod) => prod.id)),
+    );
 
-    const reader = new FileReader();
-    reader.onload = () => {
-      setCurrentProduct((prev) => ({
-        ...prev,
-        imageBase64: reader.result as string,
-      }));
-    };
-    reader.onerror = (error) => {
-      console.error("Error reading file:", error);
-      toast.error("Failed to read image file.");
-    };
-    reader.readAsDataURL(file);
+  const openSelectedExport = (open: (isOpen: boolean) => void) => {
+    setExportScope("selected");
+    open(true);
   };
 
-  // Handler to remove the image from state
-  const removeImage = () => {
-    setCurrentProduct((prev) => ({ ...prev, imageBase64: "" }));
+  const resolveImages = async () => {
+    setIsUploading(true);
+    try {
+      return await uploadImageItems(imageItems);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleMigrateImages = async () => {
+    try {
+      const result = await migrateProductImages(setMigrationProgress);
+      if (result.failed > 0) {
+        toast.error(
+          `Migrated ${result.done - result.failed} images, ${result.failed} failed.`,
+        );
+      } else {
+        toast.success(`Migrated ${result.done} images to storage`);
+      }
+    } catch (error) {
+      console.error("Error migrating images: ", error);
+      toast.error("Failed to migrate images. Please try again.");
+    } finally {
+      setMigrationProgress(null);
+    }
   };
 
   const handleAddProduct = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!currentProduct.name.trim() || !currentProduct.categoryId) return;
+    if (
+      !currentProduct.name.trim() ||
+      !currentProduct.categoryId ||
+      skuConflicts.size > 0
+    )
+      return;
 
-    setIsLoading(true);
     try {
-      await addDoc(collection(db, "products"), {
-        name: currentProduct.name.trim(),
-        description: currentProduct.description.trim(),
-        price: Number(currentProduct.price) || 0,
-        categoryId: currentProduct.categoryId,
-        imageBase64: currentProduct.imageBase64 || "",
-        createdAt: new Date(),
+      const images = await resolveImages();
+      // The product, its variants and its opening stock are written
+      // together, so a failure leaves nothing half-created
+      await addProduct.mutateAsync({
+        data: {
+          name: currentProduct.name.trim(),
+          description: currentProduct.description.trim(),
+          price: Number(currentProduct.price) || 0,
+          categoryId: currentProduct.categoryId,
+          sku: currentProduct.sku?.trim() || undefined,
+          barcode: currentProduct.barcode?.trim() || undefined,
+          lowStockThreshold: currentProduct.lowStockThreshold,
+          images,
+        },
+        ...variantEditor,
+        openingStock: Number.parseInt(initialStock, 10) || 0,
+        user: movementUser,
       });
       resetForm();
       setIsModalOpen(false);
       toast.success("Added product successfully");
-      await refetchProducts();
     } catch (error) {
       console.error("Error adding product: ", error);
-    } finally {
-      setIsLoading(false);
+      toast.error("Failed to add product. Please try again.");
     }
   };
 
@@ -179,33 +417,58 @@ function ProductPage() {
     if (
       !currentProduct.name.trim() ||
       !currentProduct.id ||
-      !currentProduct.categoryId
+      !currentProduct.categoryId ||
+      skuConflicts.size > 0
     )
       return;
 
-    setIsLoading(true);
     try {
-      await updateDoc(doc(db, "products", currentProduct.id), {
-        name: currentProduct.name.trim(),
-        description: currentProduct.description.trim(),
-        price: Number(currentProduct.price) || 0,
-        categoryId: currentProduct.categoryId,
-        imageBase64: currentProduct.imageBase64 || "",
-        updatedAt: new Date(),
+      const previous = products.find((prod) => prod.id === currentProduct.id);
+      const images = await resolveImages();
+      await editProduct.mutateAsync({
+        id: currentProduct.id,
+        data: {
+          name: currentProduct.name.trim(),
+          description: currentProduct.description.trim(),
+          price: Number(currentProduct.price) || 0,
+          categoryId: currentProduct.categoryId,
+          sku: currentProduct.sku?.trim() || undefined,
+          barcode: currentProduct.barcode?.trim() || undefined,
+          lowStockThreshold: currentProduct.lowStockThreshold,
+          images,
+          // Older single-image fields are folded into `images` on save
+          image: undefined,
+          imageBase64: undefined,
+        },
       });
+      // Stock follows the variants, so they're saved in a transaction
+      if (variantEditor.variants.length > 0 || hasVariants(previous ?? {})) {
+        await saveVariants.mutateAsync({
+          productId: currentProduct.id,
+          ...variantEditor,
+          user: movementUser,
+        });
+      }
+      // Clean up the files of removed images
+      const kept = new Set(images.map((image) => image.paths.original));
+      for (const image of previous ? getProductImages(previous) : []) {
+        if (!kept.has(image.paths.original)) deleteProductImage(image);
+      }
       resetForm();
       setIsModalOpen(false);
       toast.success("Updated product successfully");
-      await refetchProducts();
     } catch (error) {
       console.error("Error updating product: ", error);
-    } finally {
-      setIsLoading(false);
+      toast.error("Failed to update product. Please try again.");
     }
   };
 
   const handleDeleteClick = (product: Product) => {
-    setProductToDelete({ id: product.id, name: product.name });
+    setProductToDelete({
+      id: product.id,
+      name: product.name,
+      images: getProductImages(product),
+    });
     setIsDeleteModalOpen(true);
   };
 
@@ -213,9 +476,9 @@ function ProductPage() {
     if (!productToDelete) return;
 
     try {
-      await deleteDoc(doc(db, "products", productToDelete.id));
+      await deleteProduct.mutateAsync(productToDelete.id);
+      for (const image of productToDelete.images) deleteProductImage(image);
       toast.success("Deleted product successfully");
-      await refetchProducts();
     } catch (error) {
       console.error("Error deleting product: ", error);
       toast.error("Failed to delete product. Please try again.");
@@ -231,7 +494,9 @@ function ProductPage() {
   };
 
   const handleEditClick = (product: Product) => {
-    setCurrentProduct({ ...product, imageBase64: product.imageBase64 || "" });
+    setCurrentProduct({ ...product });
+    setImageItems(toImageItems(product));
+    setVariantEditor(toVariantEditorValue(product));
     setIsEditMode(true);
     setIsModalOpen(true);
   };
@@ -244,6 +509,9 @@ function ProductPage() {
 
   const resetForm = () => {
     setCurrentProduct(initialProductState);
+    setImageItems([]);
+    setInitialStock("");
+    setVariantEditor(toVariantEditorValue({}));
     setIsEditMode(false);
   };
 
@@ -252,7 +520,192 @@ function ProductPage() {
     resetForm();
   };
 
+  // --- Table Columns ---
+  const productColumns: DataTableColumn<Product>[] = [
+    {
+      id: "select",
+      label: "Select",
+      header: (
+        <input
+          type="checkbox"
+          checked={isAllSelected}
+          ref={(el) => {
+            if (el) {
+              el.indeterminate = selectedProducts.length > 0 && !isAllSelected;
+            }
+          }}
+          onChange={toggleSelectAll}
+          disabled={filteredProducts.length === 0}
+          aria-label="Select all products shown"
+          className="h-4 w-4 accent-indigo-600"
+        />
+      ),
+      cell: (prod) => (
+        <input
+          type="checkbox"
+          checked={selectedIds.has(prod.id)}
+          onChange={() => toggleSelected(prod.id)}
+          aria-label={`Select ${prod.name}`}
+          className="h-4 w-4 accent-indigo-600"
+        />
+      ),
+      width: 52,
+      hideable: false,
+      resizable: false,
+    },
+    {
+      id: "image",
+      label: "Image",
+      cell: (prod) =>
+        getProductImageUrl(prod, "thumbnail") ? (
+          <img
+            src={getProductImageUrl(prod, "thumbnail")}
+            alt={prod.name}
+            className="h-10 w-10 rounded-md object-cover"
+          />
+        ) : (
+          <div className="flex h-10 w-10 items-center justify-center rounded-md bg-gray-100 text-gray-400">
+            <ShoppingBag className="h-5 w-5" />
+          </div>
+        ),
+      width: 80,
+    },
+    {
+      id: "name",
+      label: "Name",
+      sortValue: (prod) => prod.name,
+      cell: (prod) => (
+        <div className="text-base font-semibold text-indigo-600 truncate">
+          <Link
+            to="/catalog/$productId"
+            params={{ productId: prod.id }}
+            className="hover:underline"
+            title="Open in the catalog"
+          >
+            <Highlight
+              text={prod.name}
+              ranges={highlights.get(prod.id)?.name}
+            />
+          </Link>
+          {prod.sku && (
+            <div className="text-xs font-normal text-gray-500 truncate">
+              SKU{" "}
+              <Highlight
+                text={prod.sku}
+                ranges={highlights.get(prod.id)?.sku}
+              />
+            </div>
+          )}
+        </div>
+      ),
+      width: 240,
+      hideable: false,
+    },
+    {
+      id: "category",
+      label: "Category",
+      // By the path shown, not the ID
+      sortValue: (prod) => categoryMap.get(prod.categoryId) ?? "",
+      cell: (prod) => (
+        <div className="text-sm text-gray-700 truncate">
+          {categoryMap.get(prod.categoryId) ? (
+            <Highlight
+              text={categoryMap.get(prod.categoryId) as string}
+              ranges={highlights.get(prod.id)?.category}
+            />
+          ) : (
+            <span className="italic text-gray-400">Uncategorized</span>
+          )}
+        </div>
+      ),
+      width: 200,
+    },
+    {
+      id: "price",
+      label: "Price",
+      // Products with variants sort by their lowest price
+      sortValue: (prod) => priceRange(prod).min,
+      cell: (prod) => (
+        <div className="text-sm font-medium text-gray-900 truncate">
+          {formatPriceRange(prod, priceFormat)}
+          {hasVariants(prod) && (
+            <div className="text-xs font-normal text-gray-500">
+              {prod.variants.length} variants
+            </div>
+          )}
+        </div>
+      ),
+      width: 140,
+      align: "right",
+    },
+    {
+      id: "stock",
+      label: "Stock",
+      // Untracked stock sorts below zero
+      sortValue: (prod) => prod.stock ?? -1,
+      cell: (prod) => <StockBadge product={prod} />,
+      width: 140,
+    },
+    {
+      id: "description",
+      label: "Description",
+      sortValue: (prod) => prod.description,
+      cell: (prod) => (
+        <div className="text-sm text-gray-500 truncate">
+          <Highlight
+            text={prod.description}
+            ranges={highlights.get(prod.id)?.description}
+          />
+        </div>
+      ),
+      width: 240,
+      grow: true,
+    },
+    {
+      id: "actions",
+      label: "Actions",
+      cell: (prod) => (
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            className="p-2 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100 transition duration-150"
+            onClick={() => setStockHistoryId(prod.id)}
+            aria-label={`Stock history of ${prod.name}`}
+            title="Stock history"
+          >
+            <History className="h-5 w-5" />
+          </button>
+          {canEdit && (
+            <button
+              type="button"
+              className="p-2 text-indigo-500 hover:text-indigo-700 rounded-full hover:bg-indigo-100 transition duration-150"
+              onClick={() => handleEditClick(prod)}
+              aria-label={`Edit ${prod.name}`}
+            >
+              <Pencil className="h-5 w-5" />
+            </button>
+          )}
+          {canDelete && (
+            <button
+              type="button"
+              className="p-2 text-red-500 hover:text-red-700 rounded-full hover:bg-red-100 transition duration-150"
+              onClick={() => handleDeleteClick(prod)}
+              aria-label={`Delete ${prod.name}`}
+            >
+              <Trash2 className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+      ),
+      width: 160,
+      align: "right",
+      hideable: false,
+      resizable: false,
+    },
+  ];
+
   const hasProductsToExport = filteredProducts && filteredProducts.length > 0;
+  const legacyImageCount = products.filter((prod) => prod.imageBase64).length;
 
   return (
     <div className="min-h-screen bg-gray-50 p-6 sm:p-10">
@@ -268,66 +721,109 @@ function ProductPage() {
           <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
             <SearchBar
               onSearch={handleSearch}
+              value={searchQuery}
               placeholder="Search products by name, category, or description..."
+              hint='Try category:drinks, price:<10 or name:"iced tea"'
             />
 
+            <CurrencySwitch />
+            {canEdit && (
+              <button
+                className="flex items-center justify-center rounded-md bg-white px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 shadow-md hover:bg-gray-50 transition duration-150 ease-in-out whitespace-nowrap"
+                type="button"
+                onClick={() => setIsRatesOpen(true)}
+                title="Exchange rates used to show prices in other currencies"
+              >
+                <Coins className="mr-2 h-5 w-5" />
+                Rates
+              </button>
+            )}
+
             {/* --- EXPORT BUTTONS --- */}
             <button
               className="flex items-center justify-center rounded-md bg-green-600 px-4 py-2 text-sm font-semibold text-white shadow-md hover:bg-green-700 transition duration-150 ease-in-out whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
               type="button"
-              onClick={handleExportXLSX}
+              onClick={handleExportClick}
               disabled={!hasProductsToExport}
               title={
                 !hasProductsToExport
                   ? "No products to export"
-                  : "Export as XLSX"
+                  : "Export as CSV, JSON, XLSX or PDF"
               }
             >
               <FileDown className="mr-2 h-5 w-5" />
-              Export XLSX
+              Export
             </button>
 
-            {/* PDF Export (Client-side only) */}
-            {isClient && (
-              <PDFDownloadLink
-                document={
-                  <ProductPDF
-                    products={filteredProducts}
-                    categoryMap={categoryMap}
-                  />
-                }
-                fileName="products_report.pdf"
-              >
-                {({ loading }) => (
-                  <button
-                    className={`flex items-center justify-center rounded-md px-4 py-2 text-sm font-semibold text-white shadow-md transition duration-150 ease-in-out whitespace-nowrap ${loading || !hasProductsToExport
-                        ? "bg-red-400 cursor-not-allowed opacity-70"
-                        : "bg-red-600 hover:bg-red-700"
-                      }`}
-                    type="button"
-                    disabled={loading || !hasProductsToExport}
-                    title={
-                      !hasProductsToExport
-                        ? "No products to export"
-                        : "Export as PDF"
-                    }
-                  >
-                    <FileDown className="mr-2 h-5 w-5" />
-                    {loading ? "Building PDF..." : "Export PDF"}
-                  </button>
-                )}
-              </PDFDownloadLink>
-            )}
-            {/* --- END EXPORT BUTTONS --- */}
-
             <button
-              className="flex items-center justify-center rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-md hover:bg-indigo-700 transition duration-150 ease-in-out whitespace-nowrap"
+              className="flex items-center justify-center rounded-md bg-red-600 px-4 py-2 text-sm font-semibold text-white shadow-md hover:bg-red-700 transition duration-150 ease-in-out whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
               type="button"
-              onClick={handleAddClick}
+              onClick={() => {
+                setExportScope("filtered");
+                setIsReportOpen(true);
+              }}
+              disabled={!hasProductsToExport}
+              title={
+                !hasProductsToExport
+                  ? "No products to export"
+                  : "PDF report of the products shown"
+              }
             >
-              <PlusCircle className="mr-2 h-5 w-5" />
-              Add New Product
+              <FileDown className="mr-2 h-5 w-5" />
+              PDF Report
             </button>
+            {/* --- END EXPORT BUTTONS --- */}
+
+            {canEdit && (
+              <button
+                className="flex items-center justify-center rounded-md bg-white px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 shadow-md hover:bg-gray-50 transition duration-150 ease-in-out whitespace-nowrap"
+                type="button"
+                onClick={() => setIsImportOpen(true)}
+                title="Import from CSV or XLSX"
+              >
+                <FileUp className="mr-2 h-5 w-5" />
+                Import
+              </button>
+            )}
+
+            {/* One-off migration of legacy inline images to storage */}
+            {canEdit && legacyImageCount > 0 && (
+              <button
+                className="flex items-center justify-center rounded-md bg-amber-500 px-4 py-2 text-sm font-semibold text-white shadow-md hover:bg-amber-600 transition duration-150 ease-in-out whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                type="button"
+                onClick={handleMigrateImages}
+                disabled={!!migrationProgress}
+                title="Move inline images to storage"
+              >
+                <ImageUp className="mr-2 h-5 w-5" />
+                {migrationProgress
+                  ? `Migrating ${migrationProgress.done}/${migrationProgress.total}...`
+                  : `Migrate ${legacyImageCount} images`}
+              </button>
+            )}
+
+            {canEdit && !isGridMode && (
+              <button
+                className="flex items-center justify-center rounded-md bg-white px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 shadow-md hover:bg-gray-50 transition duration-150 ease-in-out whitespace-nowrap"
+                type="button"
+                onClick={() => setIsGridMode(true)}
+                title="Edit names, categories, prices and descriptions in place"
+              >
+                <Sheet className="mr-2 h-5 w-5" />
+                Edit as Grid
+              </button>
+            )}
+
+            {canEdit && (
+              <button
+                className="flex items-center justify-center rounded-md bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-md hover:bg-indigo-700 transition duration-150 ease-in-out whitespace-nowrap"
+                type="button"
+                onClick={handleAddClick}
+              >
+                <PlusCircle className="mr-2 h-5 w-5" />
+                Add New Product
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -345,103 +841,215 @@ function ProductPage() {
         </div>
       )}
 
-      {/* Product Grid/Table View */}
-      <div className="bg-white shadow-lg rounded-xl overflow-hidden">
-        {/* Table Header */}
-        <div className="hidden border-b border-gray-200 bg-gray-50 p-4 font-semibold text-gray-600 md:grid md:grid-cols-[0.5fr_2fr_1.5fr_1fr_3fr_1fr] md:gap-4">
-          <div className="truncate">Image</div>
-          <div className="truncate">Name</div>
-          <div className="truncate">Category</div>
-          <div className="truncate">Price</div>
-          <div className="truncate">Description</div>
-          <div className="text-right">Actions</div>
+      {/* Data health alert */}
+      {canEdit && orphans.length > 0 && (
+        <div className="mb-4 flex items-center gap-2 rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-800">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <span className="flex-1">
+            {orphans.length} products belong to a category that no longer
+            exists, so they don't show in the catalog.
+          </span>
+          <button
+            type="button"
+            onClick={() => setIsHealthOpen(true)}
+            className="font-semibold text-red-700 hover:text-red-900 whitespace-nowrap"
+          >
+            Review
+          </button>
         </div>
+      )}
 
-        {/* Table Body */}
-        {filteredProducts.length === 0 ? (
-          <div className="p-6 text-center text-gray-500">
-            {searchQuery
-              ? "No products found matching your search."
-              : "No products found."}
-          </div>
-        ) : (
-          filteredProducts.map((prod) => (
-            <div
-              key={`prod-${prod.id}`}
-              className="border-b border-gray-100 p-4 hover:bg-indigo-50 transition duration-100 ease-in-out last:border-b-0 md:grid md:grid-cols-[0.5fr_2fr_1.5fr_1fr_3fr_1fr] md:gap-4 md:items-center"
+      {/* Low-stock alert */}
+      {(stockAlerts.low > 0 || stockAlerts.out > 0) && (
+        <div className="mb-4 flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <span>
+            {[
+              stockAlerts.out > 0 && `${stockAlerts.out} out of stock`,
+              stockAlerts.low > 0 && `${stockAlerts.low} running low`,
+            ]
+              .filter(Boolean)
+              .join(", ")}
+            .
+          </span>
+        </div>
+      )}
+
+      {/* Bulk actions for the selected rows */}
+      {!isGridMode && selectedProducts.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-2 rounded-md border border-indigo-200 bg-indigo-50 px-4 py-2 text-sm text-indigo-900">
+          <span className="font-medium">
+            {selectedProducts.length} selected
+          </span>
+          {!isAllSelected && (
+            <button
+              type="button"
+              onClick={toggleSelectAll}
+              className="text-indigo-700 hover:underline"
             >
-              {/* Image Cell */}
-              <div className="flex items-center md:py-0 pb-2 md:pb-0">
-                {prod.imageBase64 ? (
-                  <img
-                    src={prod.imageBase64}
-                    alt={prod.name}
-                    className="h-10 w-10 rounded-md object-cover"
-                  />
-                ) : (
-                  <div className="flex h-10 w-10 items-center justify-center rounded-md bg-gray-100 text-gray-400">
-                    <ShoppingBag className="h-5 w-5" />
-                  </div>
-                )}
-              </div>
+              Select all {filteredProducts.length}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setSelectedIds(new Set())}
+            className="text-indigo-700 hover:underline"
+          >
+            Clear
+          </button>
+          <div className="ml-auto flex flex-wrap gap-2">
+            {canEdit && (
+              <button
+                type="button"
+                onClick={() => setBulkAction("move")}
+                className="flex items-center rounded-md bg-white px-3 py-1.5 font-medium text-gray-700 border border-gray-300 hover:bg-gray-50"
+              >
+                <FolderInput className="mr-1.5 h-4 w-4" />
+                Move
+              </button>
+            )}
+            {canEdit && (
+              <button
+                type="button"
+                onClick={() => setBulkAction("price")}
+                className="flex items-center rounded-md bg-white px-3 py-1.5 font-medium text-gray-700 border border-gray-300 hover:bg-gray-50"
+              >
+                <Percent className="mr-1.5 h-4 w-4" />
+                Change prices
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => openSelectedExport(setIsExportOpen)}
+              className="flex items-center rounded-md bg-white px-3 py-1.5 font-medium text-gray-700 border border-gray-300 hover:bg-gray-50"
+            >
+              <FileDown className="mr-1.5 h-4 w-4" />
+              Export
+            </button>
+            <button
+              type="button"
+              onClick={() => openSelectedExport(setIsReportOpen)}
+              className="flex items-center rounded-md bg-white px-3 py-1.5 font-medium text-gray-700 border border-gray-300 hover:bg-gray-50"
+            >
+              <FileDown className="mr-1.5 h-4 w-4" />
+              PDF
+            </button>
+            {canDelete && (
+              <button
+                type="button"
+                onClick={() => setBulkAction("delete")}
+                className="flex items-center rounded-md bg-red-600 px-3 py-1.5 font-medium text-white hover:bg-red-700"
+              >
+                <Trash2 className="mr-1.5 h-4 w-4" />
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
 
-              {/* Name */}
-              <div className="text-base font-semibold text-indigo-600 truncate my-1 md:my-0">
-                <span className="md:hidden font-semibold text-gray-500">
-                  Name:{" "}
-                </span>
-                {prod.name}
-              </div>
+      {/* Editable Grid */}
+      {isGridMode && (
+        <ProductGrid
+          rows={filteredProducts}
+          products={products}
+          categoryMap={categoryMap}
+          onExit={() => setIsGridMode(false)}
+        />
+      )}
 
-              {/* Category */}
-              <div className="text-sm text-gray-700 truncate mb-2 md:mb-0">
-                <span className="md:hidden font-semibold text-gray-500">
-                  Category:{" "}
-                </span>
-                {categoryMap.get(prod.categoryId) || (
-                  <span className="italic text-gray-400">Uncategorized</span>
-                )}
-              </div>
+      {/* Product Table */}
+      {!isGridMode && (
+        <DataTable
+          tableId="products"
+          columns={productColumns}
+          rows={filteredProducts}
+          rowKey={(prod) => prod.id}
+          rowHeight={72}
+          rowProps={(prod) =>
+            selectedIds.has(prod.id)
+              ? { className: "bg-indigo-50/60 hover:bg-indigo-50" }
+              : {}
+          }
+          toolbar={
+            <span className="text-gray-500">
+              {filteredProducts.length} products
+            </span>
+          }
+          empty={
+            searchQuery
+              ? "No products found matching your search."
+              : "No products found."
+          }
+        />
+      )}
 
-              {/* Price (Uses imported formatPrice) */}
-              <div className="text-sm font-medium text-gray-900 truncate mb-2 md:mb-0">
-                <span className="md:hidden font-semibold text-gray-500">
-                  Price:{" "}
-                </span>
-                {formatPrice(prod.price)}
-              </div>
+      {/* Export Modal */}
+      {isExportOpen && (
+        <ExportDialog
+          definition={productExportDefinition(categoryMap, priceFormat)}
+          items={exportedProducts}
+          fileName="products_export"
+          expand={{ label: "One row per variant", rows: expandVariants }}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
 
-              {/* Description */}
-              <div className="text-sm text-gray-500 truncate mb-2 md:mb-0">
-                <span className="md:hidden font-semibold text-gray-500">
-                  Description:{" "}
-                </span>
-                {prod.description}
-              </div>
+      {/* PDF Report Modal (Client-side only) */}
+      {isClient && isReportOpen && (
+        <ReportDialog
+          products={exportedProducts}
+          categoryMap={categoryMap}
+          filter={exportScope === "filtered" ? searchQuery : ""}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
 
-              {/* Actions (Edit/Delete) */}
-              <div className="flex justify-end space-x-2">
-                <button
-                  type="button"
-                  className="p-2 text-indigo-500 hover:text-indigo-700 rounded-full hover:bg-indigo-100 transition duration-150"
-                  onClick={() => handleEditClick(prod)}
-                  aria-label={`Edit ${prod.name}`}
-                >
-                  <Pencil className="h-5 w-5" />
-                </button>
-                <button
-                  type="button"
-                  className="p-2 text-red-500 hover:text-red-700 rounded-full hover:bg-red-100 transition duration-150"
-                  onClick={() => handleDeleteClick(prod)}
-                  aria-label={`Delete ${prod.name}`}
-                >
-                  <Trash2 className="h-5 w-5" />
-                </button>
-              </div>
-            </div>
-          ))
-        )}
-      </div>
+      {/* Data Health Modal */}
+      {isHealthOpen && (
+        <DataHealthDialog
+          orphans={orphans}
+          categories={categories}
+          canDeleteProducts={canDelete}
+          onClose={() => setIsHealthOpen(false)}
+        />
+      )}
+
+      {/* Bulk Action Modal */}
+      {bulkAction && (
+        <BulkActionDialog
+          type={bulkAction}
+          products={selectedProducts}
+          categories={categories}
+          categoryMap={categoryMap}
+          onDone={(failed) =>
+            setSelectedIds(new Set(failed.map((prod) => prod.id)))
+          }
+          onClose={() => setBulkAction(null)}
+        />
+      )}
+
+      {/* Exchange Rates Modal */}
+      {isRatesOpen && (
+        <ExchangeRatesDialog onClose={() => setIsRatesOpen(false)} />
+      )}
+
+      {/* Stock History Panel */}
+      {stockHistoryProduct && (
+        <StockHistoryPanel
+          product={stockHistoryProduct}
+          onClose={() => setStockHistoryId(null)}
+        />
+      )}
+
+      {/* Import Modal */}
+      {isImportOpen && (
+        <ImportProductsDialog
+          products={products}
+          categoryMap={categoryMap}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
 
       {/* Add/Edit Product Modal */}
       {isModalOpen && (
@@ -511,11 +1119,13 @@ function ProductPage() {
                   <option value="" disabled>
                     Select a category
                   </option>
-                  {(categories || []).map((cat) => (
-                    <option key={cat.id} value={cat.id}>
-                      {cat.name}
-                    </option>
-                  ))}
+                  {flattenCategoryTree(buildCategoryTree(categories)).map(
+                    ({ category, depth }) => (
+                      <option key={category.id} value={category.id}>
+                        {indentedCategoryName({ category, depth })}
+                      </option>
+                    ),
+                  )}
                 </select>
               </div>
 
@@ -525,7 +1135,7 @@ function ProductPage() {
                   htmlFor="price"
                   className="block text-sm font-medium text-gray-700 mb-1"
                 >
-                  Price *
+                  Price ({BASE_CURRENCY}) *
                 </label>
                 <input
                   type="number"
@@ -545,56 +1155,151 @@ function ProductPage() {
                 />
               </div>
 
+              {/* SKU & Barcode */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label
+                    htmlFor="sku"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    SKU
+                  </label>
+                  <input
+                    type="text"
+                    id="sku"
+                    value={currentProduct.sku ?? ""}
+                    onChange={(e) =>
+                      setCurrentProduct((prev) => ({
+                        ...prev,
+                        sku: e.target.value,
+                      }))
+                    }
+                    aria-invalid={isSkuTaken}
+                    className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 ${
+                      isSkuTaken ? "border-red-500" : "border-gray-300"
+                    }`}
+                    placeholder="e.g. TEA-ICE-500"
+                  />
+                  {isSkuTaken && (
+                    <p className="mt-1 text-xs text-red-600">
+                      Another product already uses this SKU.
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <label
+                    htmlFor="barcode"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Barcode
+                  </label>
+                  <input
+                    type="text"
+                    id="barcode"
+                    inputMode="numeric"
+                    value={currentProduct.barcode ?? ""}
+                    onChange={(e) =>
+                      setCurrentProduct((prev) => ({
+                        ...prev,
+                        barcode: e.target.value,
+                      }))
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    placeholder="EAN / UPC"
+                  />
+                </div>
+              </div>
+
+              {/* Stock */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label
+                    htmlFor="stock"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    {isEditMode ? "In stock" : "Initial stock"}
+                  </label>
+                  {isEditMode ? (
+                    <p id="stock" className="px-3 py-2 text-sm text-gray-700">
+                      {currentProduct.stock ?? "Not tracked"}
+                      <span className="block text-xs text-gray-500">
+                        Change it from the stock history.
+                      </span>
+                    </p>
+                  ) : variantEditor.variants.length > 0 ? (
+                    <p id="stock" className="px-3 py-2 text-sm text-gray-500">
+                      Set per variant below.
+                    </p>
+                  ) : (
+                    <input
+                      type="number"
+                      id="stock"
+                      value={initialStock}
+                      onChange={(e) => setInitialStock(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      placeholder="0"
+                      step="1"
+                      min="0"
+                    />
+                  )}
+                </div>
+                <div>
+                  <label
+                    htmlFor="lowStockThreshold"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Low-stock threshold
+                  </label>
+                  <input
+                    type="number"
+                    id="lowStockThreshold"
+                    value={currentProduct.lowStockThreshold ?? ""}
+                    onChange={(e) =>
+                      setCurrentProduct((prev) => ({
+                        ...prev,
+                        lowStockThreshold:
+                          e.target.value === ""
+                            ? undefined
+                            : Math.max(
+                                0,
+                                Number.parseInt(e.target.value, 10) || 0,
+                              ),
+                      }))
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    placeholder={String(DEFAULT_LOW_STOCK_THRESHOLD)}
+                    step="1"
+                    min="0"
+                  />
+                </div>
+              </div>
+
+              {/* Variants */}
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">
+                  Variants
+                </span>
+                <VariantMatrixEditor
+                  key={currentProduct.id || "new"}
+                  value={variantEditor}
+                  onChange={setVariantEditor}
+                  basePrice={Number(currentProduct.price) || 0}
+                  conflictingSkus={skuConflicts}
+                />
+              </div>
+
               {/* Image Upload Section */}
               <div>
                 <label
-                  htmlFor="image-selector"
+                  htmlFor="image-upload"
                   className="block text-sm font-medium text-gray-700 mb-1"
                 >
-                  Product Image
+                  Product Images
                 </label>
-                {currentProduct.imageBase64 ? (
-                  // Image Preview
-                  <div className="relative group">
-                    <img
-                      id="image-selector"
-                      src={currentProduct.imageBase64}
-                      alt="Product Preview"
-                      className="w-full h-48 rounded-md object-cover border border-gray-300"
-                    />
-                    <button
-                      type="button"
-                      onClick={removeImage}
-                      className="absolute top-2 right-2 p-1.5 bg-red-600 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
-                      aria-label="Remove image"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
-                  </div>
-                ) : (
-                  // Upload Button
-                  <label
-                    htmlFor="image-upload"
-                    className="relative flex flex-col items-center justify-center w-full h-48 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100 transition"
-                  >
-                    <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                      <ImagePlus className="w-8 h-8 mb-3 text-gray-400" />
-                      <p className="mb-2 text-sm text-gray-500">
-                        <span className="font-semibold">Click to upload</span>
-                      </p>
-                      <p className="text-xs text-gray-500">
-                        PNG, JPG, WEBP (Max 1MB)
-                      </p>
-                    </div>
-                    <input
-                      id="image-upload"
-                      type="file"
-                      className="hidden"
-                      accept="image/png, image/jpeg, image/webp"
-                      onChange={handleImageChange}
-                    />
-                  </label>
-                )}
+                <ProductImagesField
+                  items={imageItems}
+                  onChange={setImageItems}
+                />
               </div>
 
               {/* Description */}
@@ -634,11 +1339,14 @@ function ProductPage() {
                   disabled={
                     isLoading ||
                     !currentProduct.name.trim() ||
-                    !currentProduct.categoryId
+                    !currentProduct.categoryId ||
+                    isSkuTaken
                   }
                   className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition duration-150"
                 >
-                  {isLoading
+                  {isUploading
+                    ? "Uploading image..."
+                    : isLoading
                     ? isEditMode
                       ? "Updating..."
                       : "Adding..."
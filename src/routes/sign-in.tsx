@@ -0,0 +1,145 @@
+import { useAuth } from "@/lib/auth/auth-context";
+import { DEFAULT_REDIRECT, toSafeRedirect } from "@/lib/auth/guards";
+import { createFileRoute, redirect, useNavigate } from "@tanstack/react-router";
+import { LogIn } from "lucide-react";
+import { useEffect, useState } from "react";
+
+interface SignInSearch {
+  redirect?: string; // Where to go after signing in
+}
+
+export const Route = createFileRoute("/sign-in")({
+  validateSearch: (search: Record<string, unknown>): SignInSearch => ({
+    redirect:
+      search.redirect === undefined
+        ? undefined
+        : toSafeRedirect(search.redirect),
+  }),
+  beforeLoad: ({ context, search }) => {
+    if (context.auth.status === "signed-in") {
+      throw redirect({ href: search.redirect ?? DEFAULT_REDIRECT });
+    }
+  },
+  component: SignInPage,
+});
+
+/**
+ * Turns Firebase Auth error codes into something a user can act on.
+ */
+const describeAuthError = (error: unknown) => {
+  const code = (error as { code?: string })?.code;
+  switch (code) {
+    case "auth/invalid-credential":
+    case "auth/invalid-email":
+    case "auth/user-not-found":
+    case "auth/wrong-password":
+      return "Invalid email or password.";
+    case "auth/too-many-requests":
+      return "Too many attempts. Please wait a moment and try again.";
+    case "auth/network-request-failed":
+      return "Network error. Check your connection and try again.";
+    default:
+      return "Failed to sign in. Please try again.";
+  }
+};
+
+function SignInPage() {
+  const auth = useAuth();
+  const navigate = useNavigate();
+  const search = Route.useSearch();
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // The auth state (and role) arrives asynchronously after signIn resolves,
+  // so redirect once the provider reports the user as signed in.
+  useEffect(() => {
+    if (auth.status === "signed-in") {
+      navigate({ href: search.redirect ?? DEFAULT_REDIRECT, replace: true });
+    }
+  }, [auth.status, navigate, search.redirect]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await auth.signIn(email.trim(), password);
+    } catch (err) {
+      console.error("Error signing in: ", err);
+      setError(describeAuthError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6 sm:p-10 flex items-start justify-center">
+      <div className="bg-white rounded-xl shadow-lg w-full max-w-md mt-16">
+        <div className="flex items-center space-x-3 p-6 border-b">
+          <LogIn className="h-6 w-6 text-indigo-600" />
+          <h1 className="text-xl font-semibold text-gray-900">Sign In</h1>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="rounded-md bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label
+              htmlFor="email"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Email *
+            </label>
+            <input
+              type="email"
+              id="email"
+              required
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder="you@example.com"
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="password"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Password *
+            </label>
+            <input
+              type="password"
+              id="password"
+              required
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+
+          <div className="flex justify-end pt-4">
+            <button
+              type="submit"
+              disabled={isLoading || !email.trim() || !password}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition duration-150"
+            >
+              {isLoading ? "Signing in..." : "Sign In"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
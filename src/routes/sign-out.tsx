@@ -0,0 +1,73 @@
+import { useAuth } from "@/lib/auth/auth-context";
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import { LogOut } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+export const Route = createFileRoute("/sign-out")({
+  component: SignOutPage,
+});
+
+function SignOutPage() {
+  const auth = useAuth();
+  const navigate = useNavigate();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSignOut = async () => {
+    setIsLoading(true);
+    try {
+      await auth.signOut();
+      toast.success("Signed out successfully");
+      navigate({ to: "/catalog" });
+    } catch (error) {
+      console.error("Error signing out: ", error);
+      toast.error("Failed to sign out. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6 sm:p-10 flex items-start justify-center">
+      <div className="bg-white rounded-xl shadow-lg w-full max-w-md mt-16">
+        <div className="flex items-center space-x-3 p-6 border-b">
+          <LogOut className="h-6 w-6 text-indigo-600" />
+          <h1 className="text-xl font-semibold text-gray-900">Sign Out</h1>
+        </div>
+
+        <div className="p-6">
+          {auth.user ? (
+            <>
+              <p className="text-gray-700 mb-4">
+                You are signed in as{" "}
+                <span className="font-semibold">{auth.user.email}</span> (
+                {auth.role}).
+              </p>
+              <div className="flex justify-end pt-4">
+                <button
+                  type="button"
+                  onClick={handleSignOut}
+                  disabled={isLoading}
+                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition duration-150"
+                >
+                  {isLoading ? "Signing out..." : "Sign Out"}
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-gray-700">
+              You are not signed in.{" "}
+              <Link
+                to="/sign-in"
+                search={{}}
+                className="font-semibold text-indigo-600 hover:text-indigo-700"
+              >
+                Sign in
+              </Link>
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+// fixtures.ts
+// Documents for tests, with only the fields a test cares about spelled
+// out, and helpers to put them in the local data source.
+
+import { type Entity, dataSource, getRepository } from "@/lib/data";
+import type { Category, Product } from "@/lib/export";
+import { stockMovementsCollection } from "@/lib/inventory";
+
+export const makeProduct = (
+  id: string,
+  fields: Partial<Product> = {},
+): Product => ({
+  id,
+  name: id,
+  description: "",
+  price: 10,
+  categoryId: "",
+  ...fields,
+});
+
+export const makeCategory = (
+  id: string,
+  name: string,
+  parentId?: string,
+): Category => ({ id, name, description: "", parentId });
+
+/**
+ * Stores `documents` in one batch, keeping their IDs.
+ */
+export async function seed(collectionName: string, documents: Entity[]) {
+  const batch = dataSource.batch();
+  for (const { id, ...data } of documents) {
+    batch.create(collectionName, data, id);
+  }
+  await batch.commit();
+}
+
+/**
+ * Deletes every document of the collections, e.g. between tests.
+ */
+export async function clearCollections(...collectionNames: string[]) {
+  const batch = dataSource.batch();
+  for (const name of collectionNames) {
+    for (const { id } of await getRepository(name).list()) {
+      batch.delete(name, id);
+    }
+  }
+  await batch.commit();
+}
+
+/**
+ * Deletes every product along with its stock movements.
+ */
+export async function clearProducts() {
+  for (const { id } of await getRepository("products").list()) {
+    await clearCollections(stockMovementsCollection(id));
+  }
+  await clearCollections("products");
+}
+
+/**
+ * Records `count` received units for a product, one movement each.
+ */
+export async function seedMovements(productId: string, count: number) {
+  const batch = dataSource.batch();
+  for (let i = 0; i < count; i++) {
+    batch.create(stockMovementsCollection(productId), {
+      type: "received",
+      change: 1,
+      stockAfter: i + 1,
+      reason: "",
+      userId: "u1",
+    });
+  }
+  await batch.commit();
+}
@@ -0,0 +1,9 @@
+// setup.ts
+// Runs before every test file (see `test.setupFiles` in vite.config.ts).
+
+import { vi } from "vitest";
+
+// Without IndexedDB (as in Node) the local data source keeps everything in
+// memory; without BroadcastChannel it doesn't share writes with other
+// instances either, so each test file starts from an empty store.
+vi.stubGlobal("BroadcastChannel", undefined);
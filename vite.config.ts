@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import tailwindcss from '@tailwindcss/vite'
 import viteReact from '@vitejs/plugin-react'
 import { defineConfig } from 'vite'
@@ -12,10 +13,11 @@ export default defineConfig({
     viteReact(),
     tailwindcss(),
   ],
-  // test: {
-  //   globals: true,
-  //   environment: 'jsdom',
-  // },
+  test: {
+    // Tests run against the in-memory data source, never Firebase
+    env: { VITE_DATA_SOURCE: 'local' },
+    setupFiles: ['./src/test/setup.ts'],
+  },
   resolve: {
     alias: {
       '@': resolve(__dirname, './src'),